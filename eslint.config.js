@@ -24,14 +24,24 @@ export default [
 				URL: "readonly",
 				URLSearchParams: "readonly",
 				AbortController: "readonly",
+				AbortSignal: "readonly",
 				TextDecoder: "readonly",
 				ReadableStream: "readonly",
+				Response: "readonly",
+				RequestInit: "readonly",
+				Headers: "readonly",
+				navigator: "readonly",
+				Blob: "readonly",
+				createImageBitmap: "readonly",
 				// DOM types
 				HTMLElement: "readonly",
 				HTMLInputElement: "readonly",
 				Event: "readonly",
 				KeyboardEvent: "readonly",
 				MouseEvent: "readonly",
+				Range: "readonly",
+				DOMRect: "readonly",
+				HTMLDetailsElement: "readonly",
 			},
 		},
 		plugins: {
@@ -1,7 +1,109 @@
 // lib.ts — Pure logic extracted from main.ts (no Obsidian imports)
 
-export interface ExplainSelectionWithAiPluginSettings {
-	dropdownValue: string;
+import { countTokens as countBpeTokens, isWithinTokenLimit } from "gpt-tokenizer";
+
+/**
+ * How much of the note around the selection is sent as {{context}}.
+ */
+export type ContextScope = "sentence" | "paragraph" | "section" | "note";
+
+export const CONTEXT_SCOPE_LABELS: Record<ContextScope, string> = {
+	sentence: "Sentence",
+	paragraph: "Paragraph",
+	section: "Heading section",
+	note: "Whole note",
+};
+
+/**
+ * What the primary button of the explanation modal does with the answer.
+ */
+export type OutputAction = "note" | "callout" | "footnote" | "replace" | "append" | "copy";
+
+export const OUTPUT_ACTION_LABELS: Record<OutputAction, string> = {
+	note: "Save as Note & Link",
+	callout: "Insert as callout",
+	footnote: "Add as footnote",
+	replace: "Replace selection",
+	append: "Append to note…",
+	copy: "Copy as Markdown",
+};
+
+/** Output actions that write into the editor the selection came from. */
+export const EDITOR_OUTPUT_ACTIONS: OutputAction[] = ["callout", "footnote", "replace"];
+
+/**
+ * How an explanation is shown: the full modal, or a small popover at the
+ * selection that can be expanded into the modal.
+ */
+export type DisplayMode = "modal" | "popover";
+
+export const DISPLAY_MODE_LABELS: Record<DisplayMode, string> = {
+	modal: "Full window",
+	popover: "Popover at the selection",
+};
+
+/**
+ * Where a saved explanation keeps its model, tokens and cost.
+ */
+export type NoteMetadataFormat = "frontmatter" | "list";
+
+export const NOTE_METADATA_FORMAT_LABELS: Record<NoteMetadataFormat, string> = {
+	frontmatter: "YAML frontmatter",
+	list: "Markdown list below the answer",
+};
+
+/**
+ * How a saved explanation refers back to the passage it explains.
+ */
+export type NoteSourceReference = "link" | "embed" | "none";
+
+export const NOTE_SOURCE_REFERENCE_LABELS: Record<NoteSourceReference, string> = {
+	link: "Link",
+	embed: "Embed the passage",
+	none: "None",
+};
+
+/**
+ * A named prompt action. Each one is registered as its own command and
+ * editor-menu item.
+ */
+export interface PromptAction {
+	id: string;
+	name: string;
+	systemPrompt: string;
+	userPromptTemplate: string;
+	/** Model override; empty means use the provider's configured model. */
+	model: string;
+	icon: string;
+	/** Context scope override; empty means use the global setting. */
+	contextScope: ContextScope | "";
+	/** Default output action offered as the modal's primary button. */
+	outputAction: OutputAction;
+	/** Display mode override; empty means use the global setting. */
+	displayMode: DisplayMode | "";
+}
+
+export const DEFAULT_PROMPT: PromptAction = {
+	// Same id as the original single command so existing hotkeys keep working
+	id: "explain-selection-with-ai",
+	name: "Explain selection with AI",
+	systemPrompt: "You are a helpful assistant.",
+	userPromptTemplate: 'Explain "{{selection}}" in the context of "{{context}}"',
+	model: "",
+	icon: "document",
+	contextScope: "",
+	outputAction: "note",
+	displayMode: "",
+};
+
+/**
+ * Connection settings for an LLM provider. Only the fields used by the
+ * selected provider matter; the others keep their values so switching the
+ * provider back restores them.
+ */
+export interface ProviderSettings {
+	/** Provider id, e.g. "openai" (see providers/index.ts). */
+	provider: string;
 	baseURL: string;
 	endpoint: string;
 	apiKey: string;
@@ -9,12 +111,33 @@ export interface ExplainSelectionWithAiPluginSettings {
 	openRouterApiKey: string;
 	openRouterReferer: string;
 	openRouterTitle: string;
-	systemPrompt: string;
-	userPromptTemplate: string;
+	anthropicApiKey: string;
+	anthropicModel: string;
+	anthropicBaseURL: string;
+	anthropicMaxTokens: number;
+	/** Tokens Claude may spend on extended thinking; 0 turns it off. */
+	anthropicThinkingBudget: number;
+	/** Sampling temperature; undefined uses the provider's default. */
+	temperature?: number;
 }
 
-export const DEFAULT_SETTINGS: ExplainSelectionWithAiPluginSettings = {
-	dropdownValue: "openai",
+/**
+ * A named, saved provider configuration.
+ */
+export interface ProviderProfile extends ProviderSettings {
+	id: string;
+	name: string;
+	/** Shared connection fields last used with each other provider, by provider id. */
+	providerFields?: Record<string, SharedProviderFields>;
+}
+
+/** Fields several providers use, so switching provider would overwrite them. */
+export type SharedProviderFields = Pick<ProviderSettings, "baseURL" | "endpoint" | "apiKey">;
+
+export const DEFAULT_PROFILE: ProviderProfile = {
+	id: "default",
+	name: "Default",
+	provider: "openai",
 	baseURL: "https://api.openai.com/v1/",
 	endpoint: "gpt-4o-mini",
 	apiKey: "",
@@ -22,13 +145,272 @@ export const DEFAULT_SETTINGS: ExplainSelectionWithAiPluginSettings = {
 	openRouterApiKey: "",
 	openRouterReferer: "",
 	openRouterTitle: "Obsidian Explain Selection",
-	systemPrompt: "You are a helpful assistant.",
-	userPromptTemplate: 'Explain "{{selection}}" in the context of "{{context}}"',
+	anthropicApiKey: "",
+	anthropicModel: "claude-sonnet-4-20250514",
+	anthropicBaseURL: "https://api.anthropic.com",
+	anthropicMaxTokens: 4096,
+	anthropicThinkingBudget: 0,
+};
+
+/**
+ * Switch a profile to another provider. The shared connection fields are
+ * kept for the provider being left and restored for the one selected;
+ * a provider used for the first time gets its defaults.
+ */
+export function switchProvider(
+	profile: ProviderProfile,
+	provider: string,
+	defaults: Partial<ProviderSettings> = {}
+): void {
+	const saved = { ...profile.providerFields };
+	saved[profile.provider] = {
+		baseURL: profile.baseURL,
+		endpoint: profile.endpoint,
+		apiKey: profile.apiKey,
+	};
+	profile.provider = provider;
+	Object.assign(profile, saved[provider] ?? defaults);
+	profile.providerFields = saved;
+}
+
+/**
+ * A profile and an optional model override (empty means the profile's
+ * model). Used for comparison columns and the fallback chain.
+ */
+export interface ModelTarget {
+	profileId: string;
+	model: string;
+}
+
+export const MIN_COMPARE_TARGETS = 2;
+export const MAX_COMPARE_TARGETS = 4;
+
+export interface ExplainSelectionWithAiPluginSettings {
+	profiles: ProviderProfile[];
+	/** Profile used for new explanations. */
+	activeProfileId: string;
+	/** Last used comparison columns. */
+	compareTargets: ModelTarget[];
+	/** Tried in order when the active profile fails. */
+	fallbackTargets: ModelTarget[];
+	/** Retries per model for rate limits, server and network errors. */
+	maxRetries: number;
+	retryBaseDelayMs: number;
+	/** Spending limits in USD; 0 = no budget. */
+	dailyBudget: number;
+	monthlyBudget: number;
+	/** Warn once this share of a budget is spent. */
+	budgetWarnPercent: number;
+	/** Refuse requests once a budget is used up, instead of only warning. */
+	budgetHardLimit: boolean;
+	contextScope: ContextScope;
+	contextMaxChars: number;
+	displayMode: DisplayMode;
+	/** Prompts estimated above this many tokens need confirming; 0 = never. */
+	confirmAboveTokens: number;
+	linkedNotesMaxChars: number;
+	linkedNotesTokenBudget: number;
+	/** Send images embedded in the selection to the model. */
+	imagesEnabled: boolean;
+	imageMaxCount: number;
+	/** Longer side in pixels; larger images are downscaled. 0 = no limit. */
+	imageMaxDimension: number;
+	/** Images still larger than this after downscaling are skipped. */
+	imageMaxSizeKb: number;
+	/** Pinned models in the picker, as modelKey() strings. */
+	favouriteModels: string[];
+	/** Most recently picked models first, as modelKey() strings. */
+	recentModels: string[];
+	/** Hours before a fetched model list is fetched again; 0 = keep until refreshed. */
+	modelCatalogTtlHours: number;
+	responseCacheEnabled: boolean;
+	responseCacheTtlDays: number;
+	responseCacheMaxEntries: number;
+	historyEnabled: boolean;
+	historyMaxEntries: number;
+	/** Folder for saved explanations; empty = the source note's folder. */
+	noteFolder: string;
+	noteFileNameTemplate: string;
+	/** Vault path of a note used as the body of saved explanations; empty = none. */
+	noteTemplatePath: string;
+	noteMetadataFormat: NoteMetadataFormat;
+	/** Comma-separated tags for the frontmatter of saved explanations. */
+	noteTags: string;
+	noteSourceReference: NoteSourceReference;
+	/** Keep the model's reasoning in saved notes, as a collapsed callout. */
+	noteIncludeReasoning: boolean;
+	prompts: PromptAction[];
+}
+
+export type NumericKey<T> = {
+	[K in keyof T]-?: T[K] extends number ? K : never;
+}[keyof T];
+
+// Free-form string fields only (excludes unions such as contextScope)
+export type StringKey<T> = {
+	[K in keyof T]-?: string extends T[K] ? K : never;
+}[keyof T];
+
+export type NumericSettingKey = NumericKey<ExplainSelectionWithAiPluginSettings>;
+
+export const DEFAULT_SETTINGS: ExplainSelectionWithAiPluginSettings = {
+	profiles: [DEFAULT_PROFILE],
+	activeProfileId: DEFAULT_PROFILE.id,
+	compareTargets: [],
+	fallbackTargets: [],
+	maxRetries: 3,
+	retryBaseDelayMs: 1000,
+	dailyBudget: 0,
+	monthlyBudget: 0,
+	budgetWarnPercent: 80,
+	budgetHardLimit: true,
+	contextScope: "paragraph",
+	displayMode: "modal",
+	contextMaxChars: 2000,
+	confirmAboveTokens: 8000,
+	linkedNotesMaxChars: 1000,
+	linkedNotesTokenBudget: 2000,
+	imagesEnabled: true,
+	imageMaxCount: 4,
+	imageMaxDimension: 1568,
+	imageMaxSizeKb: 3750,
+	favouriteModels: [],
+	recentModels: [],
+	modelCatalogTtlHours: 24,
+	responseCacheEnabled: true,
+	responseCacheTtlDays: 30,
+	responseCacheMaxEntries: 500,
+	historyEnabled: true,
+	historyMaxEntries: 200,
+	noteFolder: "",
+	noteFileNameTemplate: "{{selection}}",
+	noteTemplatePath: "",
+	noteMetadataFormat: "frontmatter",
+	noteTags: "",
+	noteSourceReference: "link",
+	noteIncludeReasoning: false,
+	prompts: [DEFAULT_PROMPT],
 };
 
+// Provider fields that were stored at the top level before profiles existed
+const LEGACY_PROVIDER_KEYS: Array<keyof ProviderSettings> = [
+	"baseURL", "endpoint", "apiKey",
+	"openRouterModel", "openRouterApiKey", "openRouterReferer", "openRouterTitle",
+	"anthropicApiKey", "anthropicModel", "anthropicBaseURL", "anthropicMaxTokens",
+];
+
+/**
+ * Merge saved plugin data over the defaults, converting the legacy single
+ * systemPrompt/userPromptTemplate pair into the first prompt action and
+ * the legacy flat provider settings into the first profile.
+ */
+export function migrateSettings(data: any): ExplainSelectionWithAiPluginSettings {
+	const saved = { ...(data || {}) };
+	const legacySystemPrompt: string | undefined = saved.systemPrompt;
+	const legacyTemplate: string | undefined = saved.userPromptTemplate;
+	delete saved.systemPrompt;
+	delete saved.userPromptTemplate;
+
+	const legacyProfile: ProviderProfile = { ...DEFAULT_PROFILE };
+	if (typeof saved.dropdownValue === "string") {
+		legacyProfile.provider = saved.dropdownValue;
+	}
+	delete saved.dropdownValue;
+	for (const key of LEGACY_PROVIDER_KEYS) {
+		if (key in saved) {
+			(legacyProfile as any)[key] = saved[key];
+			delete saved[key];
+		}
+	}
+
+	const settings: ExplainSelectionWithAiPluginSettings = Object.assign({}, DEFAULT_SETTINGS, saved);
+
+	if (!Array.isArray(saved.prompts)) {
+		settings.prompts = [{
+			...DEFAULT_PROMPT,
+			systemPrompt: legacySystemPrompt || DEFAULT_PROMPT.systemPrompt,
+			userPromptTemplate: legacyTemplate || DEFAULT_PROMPT.userPromptTemplate,
+		}];
+	} else {
+		// Fill in fields added after the prompt was saved
+		settings.prompts = saved.prompts.map((p: Partial<PromptAction>) => ({ ...DEFAULT_PROMPT, ...p }));
+	}
+
+	if (!Array.isArray(saved.profiles) || saved.profiles.length === 0) {
+		settings.profiles = [legacyProfile];
+	} else {
+		settings.profiles = saved.profiles.map((p: Partial<ProviderProfile>) => ({ ...DEFAULT_PROFILE, ...p }));
+	}
+	settings.activeProfileId = getActiveProfile(settings).id;
+	// Copy so edits never touch the array in DEFAULT_SETTINGS
+	settings.fallbackTargets = Array.isArray(saved.fallbackTargets)
+		? saved.fallbackTargets.map((t: ModelTarget) => ({ ...t }))
+		: [];
+	settings.favouriteModels = Array.isArray(saved.favouriteModels) ? [...saved.favouriteModels] : [];
+	settings.recentModels = Array.isArray(saved.recentModels) ? [...saved.recentModels] : [];
+
+	return settings;
+}
+
+/**
+ * The profile used for new explanations; falls back to the first profile
+ * when the active one no longer exists.
+ */
+export function getActiveProfile(settings: ExplainSelectionWithAiPluginSettings): ProviderProfile {
+	return settings.profiles.find((p) => p.id === settings.activeProfileId) ?? settings.profiles[0];
+}
+
+/**
+ * Starting columns for a comparison: the saved targets whose profile still
+ * exists, capped at MAX_COMPARE_TARGETS and padded with the active profile
+ * up to MIN_COMPARE_TARGETS.
+ */
+export function normalizeCompareTargets(settings: ExplainSelectionWithAiPluginSettings): ModelTarget[] {
+	const targets = settings.compareTargets
+		.filter((t) => settings.profiles.some((p) => p.id === t.profileId))
+		.slice(0, MAX_COMPARE_TARGETS)
+		.map((t) => ({ ...t }));
+	while (targets.length < MIN_COMPARE_TARGETS) {
+		targets.push({ profileId: getActiveProfile(settings).id, model: "" });
+	}
+	return targets;
+}
+
+/**
+ * The profiles to try for one request: the requested profile and model
+ * first, then the configured fallbacks whose profile still exists, without
+ * repeats. An empty model means the profile's own model.
+ */
+export function resolveFallbackChain(
+	settings: ExplainSelectionWithAiPluginSettings,
+	profile: ProviderProfile,
+	model: string
+): { profile: ProviderProfile; model: string }[] {
+	const chain = [{ profile, model }];
+	for (const target of settings.fallbackTargets) {
+		const fallback = settings.profiles.find((p) => p.id === target.profileId);
+		if (!fallback) continue;
+		if (chain.some((c) => c.profile.id === fallback.id && c.model === target.model)) continue;
+		chain.push({ profile: fallback, model: target.model });
+	}
+	return chain;
+}
+
+/**
+ * Sent after the partial answer when resuming an interrupted stream.
+ */
+export const CONTINUE_PROMPT =
+	"Your previous answer was cut off. Continue exactly where it stopped, without repeating anything.";
+
 export interface ModelInfo {
 	id: string;
 	name?: string;
+	/** Context window in tokens, when the provider reports it. */
+	contextLength?: number;
+	/** Input and output types, e.g. "text+image->text". */
+	modality?: string;
+	/** Accepted input types, e.g. ["text", "image"]. */
+	inputModalities?: string[];
 	pricing?: {
 		prompt: string;
 		completion: string;
@@ -36,13 +418,470 @@ export interface ModelInfo {
 }
 
 /**
- * Replace {{selection}} and {{context}} placeholders in a template string.
+ * Note-level values available to prompt templates in addition to
+ * {{selection}} and {{context}}.
+ */
+export interface NoteVariables {
+	title?: string;
+	/** Nearest heading path, e.g. "Intro > Details". */
+	heading?: string;
+	tags?: string;
+	date?: string;
+	vault?: string;
+	frontmatter?: Record<string, unknown>;
+	/** Excerpts of related notes; only gathered when the template uses it. */
+	linked_notes?: string;
+}
+
+/** Variable names recognised in prompt templates (plus frontmatter.<key>). */
+export const TEMPLATE_VARIABLES = [
+	"selection",
+	"context",
+	"title",
+	"heading",
+	"frontmatter.<key>",
+	"tags",
+	"date",
+	"vault",
+	"selection_length",
+	"linked_notes",
+];
+
+const TEMPLATE_TAG_RE = /\{\{\s*([#/]?)([^{}]*?)\s*\}\}/g;
+const IF_BLOCK_RE = /\{\{\s*#if\s+([\w.-]+)\s*\}\}((?:(?!\{\{\s*#if\s)[\s\S])*?)\{\{\s*\/if\s*\}\}/;
+
+function isKnownVariable(name: string): boolean {
+	if (name.startsWith("frontmatter.")) {
+		return name.length > "frontmatter.".length;
+	}
+	return TEMPLATE_VARIABLES.includes(name) && name !== "frontmatter.<key>";
+}
+
+function formatTemplateValue(value: unknown): string {
+	if (value === undefined || value === null) return "";
+	if (Array.isArray(value)) return value.map(formatTemplateValue).join(", ");
+	if (typeof value === "object") return JSON.stringify(value);
+	return String(value);
+}
+
+function resolveVariable(
+	name: string,
+	selection: string,
+	context: string,
+	note: NoteVariables
+): string | undefined {
+	if (name.startsWith("frontmatter.")) {
+		const key = name.substring("frontmatter.".length);
+		return formatTemplateValue(note.frontmatter?.[key]);
+	}
+	switch (name) {
+		case "selection": return selection;
+		case "context": return context;
+		case "selection_length": return String(selection.length);
+		case "title": return note.title ?? "";
+		case "heading": return note.heading ?? "";
+		case "tags": return note.tags ?? "";
+		case "date": return note.date ?? "";
+		case "vault": return note.vault ?? "";
+		case "linked_notes": return note.linked_notes ?? "";
+		default: return undefined;
+	}
+}
+
+/**
+ * Render a prompt template. Supports {{variable}} placeholders and
+ * {{#if variable}}...{{else}}...{{/if}} blocks, which keep their body
+ * only when the variable is non-empty. Unknown variables are left as-is.
  */
-export function buildPrompt(template: string, selection: string, context: string): string {
+export function buildPrompt(
+	template: string,
+	selection: string,
+	context: string,
+	note: NoteVariables = {}
+): string {
+	// Resolve conditionals innermost-first, before any values are inserted,
+	// so template syntax inside the selection is never interpreted
+	let rendered = template;
+	let match: RegExpExecArray | null;
+	while ((match = IF_BLOCK_RE.exec(rendered)) !== null) {
+		const value = resolveVariable(match[1], selection, context, note) ?? "";
+		const [ifBody, elseBody = ""] = match[2].split(/\{\{\s*else\s*\}\}/);
+		const body = value.trim() ? ifBody : elseBody;
+		rendered = rendered.substring(0, match.index) + body + rendered.substring(match.index + match[0].length);
+	}
+
 	// Use a replacer function to avoid special replacement patterns ($&, $1, etc.)
-	return template
-		.replace(/\{\{selection\}\}/g, () => selection)
-		.replace(/\{\{context\}\}/g, () => context);
+	return rendered.replace(TEMPLATE_TAG_RE, (tag, prefix: string, name: string) => {
+		if (prefix) return tag;
+		return resolveVariable(name, selection, context, note) ?? tag;
+	});
+}
+
+/**
+ * Report unknown variables and unbalanced {{#if}} blocks in a template.
+ * Returns a list of human-readable problems (empty when valid).
+ */
+export function validateTemplate(template: string): string[] {
+	const problems: string[] = [];
+	const unknown = new Set<string>();
+	let depth = 0;
+
+	const tagRe = new RegExp(TEMPLATE_TAG_RE.source, "g");
+	let match: RegExpExecArray | null;
+	while ((match = tagRe.exec(template)) !== null) {
+		const prefix = match[1];
+		const name = match[2];
+		if (prefix === "#") {
+			const ifMatch = name.match(/^if\s+([\w.-]+)$/);
+			if (!ifMatch) {
+				problems.push(`Unsupported block: {{#${name}}}`);
+				continue;
+			}
+			depth++;
+			if (!isKnownVariable(ifMatch[1])) unknown.add(ifMatch[1]);
+		} else if (prefix === "/") {
+			if (name !== "if") {
+				problems.push(`Unsupported block end: {{/${name}}}`);
+			} else if (depth === 0) {
+				problems.push("{{/if}} without a matching {{#if}}");
+			} else {
+				depth--;
+			}
+		} else if (name === "else") {
+			if (depth === 0) problems.push("{{else}} outside an {{#if}} block");
+		} else if (!isKnownVariable(name)) {
+			unknown.add(name);
+		}
+	}
+
+	if (depth > 0) {
+		problems.push(`${depth} unclosed {{#if}} block${depth > 1 ? "s" : ""}`);
+	}
+	return Array.from(unknown)
+		.map((name) => `Unknown variable: {{${name}}}`)
+		.concat(problems);
+}
+
+/**
+ * Whether a template references the given variable, either as a
+ * placeholder or in an {{#if}} block.
+ */
+export function templateUsesVariable(template: string, name: string): boolean {
+	const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+	return new RegExp(`\\{\\{\\s*(#if\\s+)?${escaped}\\s*\\}\\}`).test(template);
+}
+
+/**
+ * Rough token estimate (about four characters per token).
+ */
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
+
+/**
+ * Tokens of text with the o200k_base tokenizer of current OpenAI models.
+ * Other providers tokenize differently, but within a similar range.
+ */
+export function countTokens(text: string): number {
+	return countBpeTokens(text);
+}
+
+/**
+ * Estimated prompt tokens of a chat request, including the few tokens of
+ * framing each message adds.
+ */
+export function estimatePromptTokens(messages: ChatMessage[]): number {
+	return messages.reduce((sum, m) => {
+		const images = (m.images ?? []).reduce((total, img) => total + estimateImageTokens(img.width, img.height), 0);
+		return sum + countTokens(m.content) + images + 4;
+	}, 3);
+}
+
+/**
+ * Approximate tokens of an image (about one per 750 pixels, as Anthropic
+ * documents; other providers are in the same range).
+ */
+export function estimateImageTokens(width: number, height: number): number {
+	return Math.ceil((width * height) / 750);
+}
+
+/**
+ * Tokens kept free for the answer when fitting the prompt into a model's
+ * context window.
+ */
+export const RESPONSE_TOKEN_RESERVE = 1024;
+
+export type LinkedNoteSource = "title" | "outgoing" | "backlink";
+
+export interface LinkedNoteCandidate {
+	path: string;
+	title: string;
+	source: LinkedNoteSource;
+	content: string;
+}
+
+/**
+ * Build the {{linked_notes}} text from candidate notes. Notes whose title
+ * matches the selection come first, then outgoing links, then backlinks.
+ * Each note is cut to maxCharsPerNote and the whole block stays within
+ * tokenBudget; notes that no longer fit are left out.
+ */
+export function assembleLinkedNotes(
+	candidates: LinkedNoteCandidate[],
+	maxCharsPerNote: number,
+	tokenBudget: number
+): { text: string; included: LinkedNoteCandidate[] } {
+	const order: LinkedNoteSource[] = ["title", "outgoing", "backlink"];
+	const sorted = candidates
+		.map((c, i) => ({ c, i }))
+		.sort((a, b) => order.indexOf(a.c.source) - order.indexOf(b.c.source) || a.i - b.i)
+		.map(({ c }) => c);
+
+	const seen = new Set<string>();
+	const sections: string[] = [];
+	const included: LinkedNoteCandidate[] = [];
+	let remaining = tokenBudget;
+
+	for (const note of sorted) {
+		if (seen.has(note.path)) continue;
+		seen.add(note.path);
+
+		const body = note.content.substring(frontmatterLength(note.content)).trim();
+		if (!body) continue;
+
+		const header = `## ${note.title}\n`;
+		let excerpt = body.length > maxCharsPerNote
+			? `${body.substring(0, maxCharsPerNote).trimEnd()} ${TRUNCATION_MARKER}`
+			: body;
+
+		const available = remaining - estimateTokens(header);
+		if (estimateTokens(excerpt) > available) {
+			// Not worth including a sliver of a note
+			if (available < 16) break;
+			excerpt = `${body.substring(0, available * 4 - TRUNCATION_MARKER.length - 1).trimEnd()} ${TRUNCATION_MARKER}`;
+		}
+
+		const section = header + excerpt;
+		sections.push(section);
+		included.push(note);
+		remaining -= estimateTokens(section);
+	}
+
+	return { text: sections.join("\n\n"), included };
+}
+
+/**
+ * Format a date as YYYY-MM-DD in local time.
+ */
+export function formatLocalDate(date: Date): string {
+	const pad = (n: number) => String(n).padStart(2, "0");
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Find the heading path ("H1 > H2 > H3") enclosing a character offset,
+ * ignoring lines inside fenced code blocks.
+ */
+export function findHeadingPath(text: string, offset: number): string {
+	const stack: Array<{ level: number; title: string }> = [];
+	let inFence = false;
+	let pos = 0;
+
+	for (const line of text.split("\n")) {
+		if (pos > offset) break;
+		if (/^\s*(```|~~~)/.test(line)) {
+			inFence = !inFence;
+		} else if (!inFence) {
+			const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+			if (heading) {
+				const level = heading[1].length;
+				while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+					stack.pop();
+				}
+				stack.push({ level, title: heading[2] });
+			}
+		}
+		pos += line.length + 1;
+	}
+
+	return stack.map((h) => h.title).join(" > ");
+}
+
+export const TRUNCATION_MARKER = "[...]";
+
+/**
+ * Length of the leading YAML frontmatter block (0 when there is none).
+ */
+export function frontmatterLength(text: string): number {
+	const match = text.match(/^---\r?\n[\s\S]*?\r?\n---(\r?\n|$)/);
+	return match ? match[0].length : 0;
+}
+
+/**
+ * Find the [start, end) range of the given scope that encloses the
+ * selection range [from, to) within text.
+ */
+export function findContextRange(
+	text: string,
+	from: number,
+	to: number,
+	scope: ContextScope
+): { start: number; end: number } {
+	// Leading YAML frontmatter is metadata, not prose
+	const fmLength = frontmatterLength(text);
+	const bodyStart = fmLength <= from ? fmLength : 0;
+
+	if (scope === "note") {
+		return { start: bodyStart, end: text.length };
+	}
+
+	if (scope === "section") {
+		const headingRe = /^(#{1,6})\s/gm;
+		let start = bodyStart;
+		let level = 0;
+		let match: RegExpExecArray | null;
+		while ((match = headingRe.exec(text)) !== null && match.index <= from) {
+			start = match.index;
+			level = match[1].length;
+		}
+		let end = text.length;
+		headingRe.lastIndex = Math.max(to, start + 1);
+		while ((match = headingRe.exec(text)) !== null) {
+			// A section ends at the next heading of the same or a higher level
+			if (level === 0 || match[1].length <= level) {
+				end = match.index;
+				break;
+			}
+		}
+		return { start: Math.max(start, bodyStart), end };
+	}
+
+	// Paragraphs are separated by blank (or whitespace-only) lines
+	const blankLineRe = /\n[ \t]*\n/g;
+	let paraStart = bodyStart;
+	let paraEnd = text.length;
+	let match: RegExpExecArray | null;
+	while ((match = blankLineRe.exec(text)) !== null) {
+		const matchEnd = match.index + match[0].length;
+		if (matchEnd <= from) {
+			paraStart = Math.max(matchEnd, bodyStart);
+		} else if (match.index >= to) {
+			paraEnd = match.index;
+			break;
+		}
+	}
+
+	if (scope === "paragraph") {
+		return { start: paraStart, end: paraEnd };
+	}
+
+	// Sentence: expand to the nearest terminal punctuation within the paragraph
+	let start = from;
+	while (start > paraStart) {
+		const prev = text.charAt(start - 1);
+		if (prev === "\n" || (/\s/.test(prev) && /[.!?]/.test(text.charAt(start - 2)))) {
+			break;
+		}
+		start--;
+	}
+	let end = to;
+	while (end < paraEnd) {
+		const ch = text.charAt(end);
+		if (ch === "\n") break;
+		end++;
+		if (/[.!?]/.test(ch) && (end === paraEnd || /\s/.test(text.charAt(end)))) {
+			break;
+		}
+	}
+	return { start, end };
+}
+
+/**
+ * Extract the text around the selection for the given scope, trimmed to
+ * maxChars. Trimming keeps the text nearest the selection and marks each
+ * cut with TRUNCATION_MARKER.
+ */
+export function extractContext(
+	text: string,
+	from: number,
+	to: number,
+	scope: ContextScope,
+	maxChars: number
+): string {
+	const range = findContextRange(text, from, to, scope);
+	if (maxChars <= 0 || range.end - range.start <= maxChars) {
+		return text.slice(range.start, range.end).trim();
+	}
+
+	const selectionLength = to - from;
+	let start: number;
+	let end: number;
+	if (selectionLength >= maxChars) {
+		start = from;
+		end = from + maxChars;
+	} else {
+		// Split the remaining budget evenly, handing any unused share to the other side
+		const remaining = maxChars - selectionLength;
+		let beforeBudget = Math.floor(remaining / 2);
+		let afterBudget = remaining - beforeBudget;
+		const availableBefore = from - range.start;
+		const availableAfter = range.end - to;
+		if (availableBefore < beforeBudget) {
+			afterBudget += beforeBudget - availableBefore;
+			beforeBudget = availableBefore;
+		} else if (availableAfter < afterBudget) {
+			beforeBudget += afterBudget - availableAfter;
+			afterBudget = availableAfter;
+		}
+		start = from - beforeBudget;
+		end = to + afterBudget;
+	}
+
+	let context = text.slice(start, end).trim();
+	if (start > range.start) context = `${TRUNCATION_MARKER} ${context}`;
+	if (end < range.end) context = `${context} ${TRUNCATION_MARKER}`;
+	return context;
+}
+
+/**
+ * Like extractContext, but also trimmed to at most maxTokens (by
+ * countTokens), keeping the text nearest the selection. Returns "" when
+ * there is no room at all.
+ */
+export function fitContextToTokens(
+	text: string,
+	from: number,
+	to: number,
+	scope: ContextScope,
+	maxChars: number,
+	maxTokens: number
+): string {
+	// Stops tokenizing as soon as the limit is passed
+	const fits = (candidate: string) => isWithinTokenLimit(candidate, Math.max(0, maxTokens)) !== false;
+
+	const context = extractContext(text, from, to, scope, maxChars);
+	if (fits(context)) {
+		return context;
+	}
+	if (maxTokens <= 0) {
+		return "";
+	}
+
+	// Binary search for the largest character budget that fits
+	let low = 0;
+	let high = maxChars > 0 ? Math.min(maxChars, context.length) : context.length;
+	let best = "";
+	while (low <= high) {
+		const mid = Math.floor((low + high) / 2);
+		const candidate = mid > 0 ? extractContext(text, from, to, scope, mid) : "";
+		if (fits(candidate)) {
+			best = candidate;
+			low = mid + 1;
+		} else {
+			high = mid - 1;
+		}
+	}
+	return best;
 }
 
 /**
@@ -53,10 +892,12 @@ export function buildMenuLabel(template: string, selection: string, maxLength =
 	const truncatedSelection =
 		selection.length > 24 ? selection.substring(0, 24) + "..." : selection;
 	
-	// Replace placeholders - template controls formatting (quotes, etc.)
-	let label = template
-		.replace(/\{\{selection\}\}/g, () => truncatedSelection)
-		.replace(/\{\{context\}\}/g, () => "...");
+	// Replace placeholders - template controls formatting (quotes, etc.).
+	// Other variables collapse to "..." and conditional tags are dropped.
+	let label = template.replace(TEMPLATE_TAG_RE, (tag, prefix: string, name: string) => {
+		if (prefix || name === "else") return "";
+		return name === "selection" ? truncatedSelection : "...";
+	});
 	
 	// Truncate entire label if too long
 	if (label.length > maxLength) {
@@ -67,122 +908,1244 @@ export function buildMenuLabel(template: string, selection: string, maxLength =
 }
 
 /**
- * Determine baseURL, apiKey, model, and optional headers based on provider selection.
+ * Where to show a popover of the given width next to anchor (a selection's
+ * screen rectangle): below it when there is room for maxHeight or more room
+ * than above, otherwise above it (as a bottom offset, so it grows upwards).
+ * maxHeight shrinks to the space available.
  */
-export function getProviderConfig(settings: ExplainSelectionWithAiPluginSettings): {
-	baseURL: string;
-	apiKey: string;
-	model: string;
-	defaultHeaders?: Record<string, string>;
-} {
-	const isOpenRouter = settings.dropdownValue === "openrouter";
+export function placePopover(
+	anchor: { left: number; top: number; bottom: number },
+	width: number,
+	maxHeight: number,
+	viewport: { width: number; height: number },
+	margin = 8
+): { left: number; top?: number; bottom?: number; maxHeight: number } {
+	const left = Math.max(margin, Math.min(anchor.left, viewport.width - width - margin));
+	const spaceBelow = viewport.height - anchor.bottom - 2 * margin;
+	const spaceAbove = anchor.top - 2 * margin;
+	if (spaceBelow >= maxHeight || spaceBelow >= spaceAbove) {
+		return { left, top: anchor.bottom + margin, maxHeight: Math.min(maxHeight, spaceBelow) };
+	}
+	return { left, bottom: viewport.height - anchor.top + margin, maxHeight: Math.min(maxHeight, spaceAbove) };
+}
+
+/**
+ * Score how well query matches text: substring matches rank highest (earlier
+ * is better), then in-order character matches, favouring consecutive
+ * characters and word starts. Null when the characters don't all appear in
+ * order. Whitespace in the query is ignored.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+	const q = query.toLowerCase().replace(/\s+/g, "");
+	const t = text.toLowerCase();
+	if (!q) return 0;
 
-	const baseURL = isOpenRouter
-		? "https://openrouter.ai/api/v1"
-		: settings.baseURL;
-	const apiKey = isOpenRouter
-		? settings.openRouterApiKey
-		: settings.apiKey;
-	const model = isOpenRouter
-		? settings.openRouterModel
-		: settings.endpoint;
+	const index = t.indexOf(q);
+	if (index !== -1) {
+		return 1000 - index;
+	}
 
-	const defaultHeaders: Record<string, string> = {};
-	if (isOpenRouter) {
-		if (settings.openRouterReferer) {
-			defaultHeaders["HTTP-Referer"] = settings.openRouterReferer;
-		}
-		if (settings.openRouterTitle) {
-			defaultHeaders["X-Title"] = settings.openRouterTitle;
+	let score = 0;
+	let previous = -2;
+	for (const ch of q) {
+		const found = t.indexOf(ch, previous + 1);
+		if (found === -1) return null;
+		score += found === previous + 1 ? 5 : 1;
+		if (found === 0 || /[\s\-_/:.]/.test(t.charAt(found - 1))) {
+			score += 3;
 		}
+		previous = found;
 	}
-
-	return {
-		baseURL,
-		apiKey: apiKey === "" ? "-" : apiKey,
-		model,
-		defaultHeaders: Object.keys(defaultHeaders).length > 0 ? defaultHeaders : undefined,
-	};
+	return score;
 }
 
 /**
- * Filter OpenAI model list to chat models only, sorted alphabetically.
+ * Fuzzy-filter models by id or name, best matches first. An empty query
+ * returns the list unchanged.
  */
-export function filterOpenAIModels(models: Array<{ id: string }>): ModelInfo[] {
-	const chatPrefixes = ["gpt-", "o1", "o3", "o4", "chatgpt-"];
-	const excludePrefixes = ["dall-e", "tts-", "whisper", "embedding", "text-embedding", "babbage", "davinci"];
+export function filterModels(models: ModelInfo[], query: string): ModelInfo[] {
+	if (!query.trim()) {
+		return models;
+	}
+	const scored: Array<{ model: ModelInfo; score: number }> = [];
+	for (const model of models) {
+		const scores = [fuzzyScore(query, model.id), model.name ? fuzzyScore(query, model.name) : null]
+			.filter((s): s is number => s !== null);
+		if (scores.length > 0) {
+			scored.push({ model, score: Math.max(...scores) });
+		}
+	}
+	// Array.prototype.sort is stable, so equal scores keep the provider's order
+	return scored.sort((a, b) => b.score - a.score).map((s) => s.model);
+}
 
-	const filtered: ModelInfo[] = models
-		.filter((m) => {
-			const id = m.id;
-			const matchesChat = chatPrefixes.some((p) => id.startsWith(p));
-			const excluded = excludePrefixes.some((p) => id.startsWith(p));
-			return matchesChat && !excluded;
-		})
-		.map((m) => ({ id: m.id }));
+export type ModelSort = "relevance" | "name" | "price" | "context";
 
-	filtered.sort((a, b) => a.id.localeCompare(b.id));
-	return filtered;
+// Combined prompt and completion price per token; unknown prices sort last
+function modelPrice(model: ModelInfo): number {
+	const prompt = parseFloat(model.pricing?.prompt ?? "");
+	const completion = parseFloat(model.pricing?.completion ?? "");
+	return isNaN(prompt) || isNaN(completion) ? Infinity : prompt + completion;
 }
 
 /**
- * Parse OpenRouter API response into ModelInfo[], sorted alphabetically.
+ * Sort a copy of models: by name, cheapest first, or largest context first.
+ * "relevance" keeps the given order (the search ranking).
  */
-export function parseOpenRouterModels(data: any): ModelInfo[] {
-	const models: ModelInfo[] = ((data && data.data) || []).map((m: any) => ({
-		id: m.id,
-		name: m.name || undefined,
-		pricing: m.pricing?.prompt && m.pricing?.completion
-			? { prompt: m.pricing.prompt, completion: m.pricing.completion }
-			: undefined,
-	}));
-	models.sort((a, b) => a.id.localeCompare(b.id));
-	return models;
+export function sortModels(models: ModelInfo[], sort: ModelSort): ModelInfo[] {
+	const sorted = [...models];
+	if (sort === "name") {
+		sorted.sort((a, b) => (a.name || a.id).localeCompare(b.name || b.id));
+	} else if (sort === "price") {
+		sorted.sort((a, b) => {
+			const pa = modelPrice(a);
+			const pb = modelPrice(b);
+			return pa === pb ? 0 : pa < pb ? -1 : 1;
+		});
+	} else if (sort === "context") {
+		sorted.sort((a, b) => (b.contextLength ?? -1) - (a.contextLength ?? -1));
+	}
+	return sorted;
 }
 
 /**
- * Parse Ollama API response into ModelInfo[], sorted alphabetically.
+ * Per-token price as USD per million tokens ("free" for 0, "—" if unknown).
  */
-export function parseOllamaModels(data: any): ModelInfo[] {
-	const models: ModelInfo[] = ((data && data.models) || []).map((m: any) => ({
-		id: m.name,
-	}));
-	models.sort((a, b) => a.id.localeCompare(b.id));
-	return models;
+export function formatPricePerMillion(price: string | undefined): string {
+	const perToken = parseFloat(price ?? "");
+	if (isNaN(perToken) || perToken < 0) return "—";
+	if (perToken === 0) return "free";
+	return `$${(perToken * 1e6).toFixed(2)}`;
 }
 
 /**
- * Strip /v1/ suffix from a URL to derive the Ollama base URL.
+ * Context length in thousands or millions of tokens, e.g. "128k".
  */
-export function deriveOllamaBaseUrl(baseURL: string): string {
-	if (!baseURL) {
-		return "http://localhost:11434";
-	}
-	return baseURL.replace(/\/v1\/?$/, "");
+export function formatContextLength(tokens: number | undefined): string {
+	if (!tokens) return "—";
+	if (tokens >= 1e6) return `${parseFloat((tokens / 1e6).toFixed(1))}M`;
+	if (tokens >= 1000) return `${Math.round(tokens / 1000)}k`;
+	return String(tokens);
 }
 
 /**
- * Filter models by search query (case-insensitive match on id or name).
+ * Key for favourite and recent models; ids are only unique per provider.
  */
-export function filterModels(models: ModelInfo[], query: string): ModelInfo[] {
-	if (!query) {
-		return models;
-	}
-	const lower = query.toLowerCase();
-	return models.filter(
-		(m) =>
-			m.id.toLowerCase().includes(lower) ||
-			(m.name && m.name.toLowerCase().includes(lower))
-	);
+export function modelKey(provider: string, id: string): string {
+	return `${provider}:${id}`;
 }
 
+export const MAX_RECENT_MODELS = 10;
+
 /**
- * Sanitize selection into a valid Obsidian filename.
+ * Move key to the front of the recently used list, capped at max entries.
  */
-export function sanitizeFileName(name: string): string {
-	// Remove forbidden characters: * " \ / < > : | ?
+export function pushRecentModel(recent: string[], key: string, max = MAX_RECENT_MODELS): string[] {
+	return [key, ...recent.filter((k) => k !== key)].slice(0, max);
+}
+
+/**
+ * Add key to the favourites, or remove it when already there.
+ */
+export function toggleFavouriteModel(favourites: string[], key: string): string[] {
+	return favourites.includes(key) ? favourites.filter((k) => k !== key) : [...favourites, key];
+}
+
+/**
+ * Build a wikilink to a note path, using the selection as the alias when
+ * it contains no characters that would break the link.
+ */
+export function buildWikiLink(path: string, alias: string): string {
+	const linkName = path.replace(/\.md$/, "");
+	const hasUnsafeAliasChars = !alias || /[|\]\n\r]/.test(alias);
+	return hasUnsafeAliasChars
+		? `[[${linkName}]]`
+		: `[[${linkName}|${alias}]]`;
+}
+
+/**
+ * Sanitize selection into a valid Obsidian filename.
+ */
+export function sanitizeFileName(name: string): string {
+	// Remove forbidden characters: * " \ / < > : | ?
 	return name
 		.replace(/[*"\\/<>:|?]/g, "")
 		.substring(0, 100) // Truncate to reasonable length
 		.trim() || "AI Explanation";
 }
+
+/**
+ * Variables of the saved-note folder, file name and body templates.
+ */
+export const SAVED_NOTE_VARIABLES = [
+	"selection", "title", "source", "source_folder", "date", "model", "answer", "metadata",
+];
+
+export type SavedNoteSettings = Pick<
+	ExplainSelectionWithAiPluginSettings,
+	"noteFolder" | "noteFileNameTemplate" | "noteMetadataFormat" | "noteTags" | "noteSourceReference" | "noteIncludeReasoning"
+>;
+
+export interface SavedNoteInput {
+	selection: string;
+	/** Vault path of the note the selection came from ("" if unknown). */
+	sourcePath: string;
+	/** Place in the source to link to, e.g. "^blockid" or "page=3". */
+	sourceSubpath?: string;
+	model: string;
+	turns: ConversationTurn[];
+	date: Date;
+}
+
+export interface SavedNote {
+	/** Vault folder; "" for the root. */
+	folder: string;
+	/** File name without the .md extension. */
+	fileName: string;
+	/** YAML block including the --- lines, or "" when there is none. */
+	frontmatter: string;
+	body: string;
+	/** Entry for the Source section, or "" when there is none. */
+	sourceEntry: string;
+}
+
+export const SOURCE_HEADING = "Source";
+
+/**
+ * Link to a file, or to a place in it when subpath ("^blockid", "page=3")
+ * is given.
+ */
+export function buildSourceLink(path: string, subpath?: string): string {
+	const linkName = path.replace(/\.md$/, "");
+	return subpath ? `[[${linkName}#${subpath}]]` : `[[${linkName}]]`;
+}
+
+// A block id at the very end of a block, e.g. "text ^abc123"
+const BLOCK_ID_RE = /(?:^|\s)\^([A-Za-z0-9-]+)$/;
+const LIST_ITEM_RE = /^\s*(?:[-*+]|\d+[.)])\s/;
+
+/**
+ * Find the block holding the end of the selection [from, to): its list
+ * item, or otherwise its paragraph. Reuses the block id already at the end
+ * of that block; otherwise returns where to insert " ^newId".
+ */
+export function locateBlockId(
+	text: string,
+	from: number,
+	to: number,
+	newId: string
+): { id: string; insert?: { offset: number; text: string } } {
+	const last = to > from ? to - 1 : to;
+	const lineStart = text.lastIndexOf("\n", last - 1) + 1;
+	const lineEnd = text.indexOf("\n", last) === -1 ? text.length : text.indexOf("\n", last);
+
+	let { start, end } = findContextRange(text, from, to, "paragraph");
+	if (LIST_ITEM_RE.test(text.substring(lineStart, lineEnd))) {
+		start = lineStart;
+		end = lineEnd;
+	}
+	while (end > start && /\s/.test(text.charAt(end - 1))) {
+		end--;
+	}
+
+	const existing = text.substring(start, end).match(BLOCK_ID_RE);
+	if (existing) {
+		return { id: existing[1] };
+	}
+	return { id: newId, insert: { offset: end, text: ` ^${newId}` } };
+}
+
+/**
+ * Offset in current to insert a block id at, for an insert locateBlockId
+ * placed at offset in earlier. When the text has changed since, the line
+ * the id goes after is searched for again; undefined when it isn't found
+ * exactly once.
+ */
+export function relocateBlockInsert(earlier: string, current: string, offset: number): number | undefined {
+	const line = earlier.substring(earlier.lastIndexOf("\n", offset - 1) + 1, offset);
+	if (!line) return undefined;
+	// A whole line that still ends where the id goes
+	const endsAt = (end: number) => {
+		const start = end - line.length;
+		return current.substring(start, end) === line &&
+			(start === 0 || current.charAt(start - 1) === "\n") &&
+			(end === current.length || /\s/.test(current.charAt(end)));
+	};
+	if (endsAt(offset)) return offset;
+
+	const matches: number[] = [];
+	for (let at = current.indexOf(line); at !== -1; at = current.indexOf(line, at + 1)) {
+		if (endsAt(at + line.length)) {
+			matches.push(at + line.length);
+		}
+	}
+	return matches.length === 1 ? matches[0] : undefined;
+}
+
+// Replace {{name}} for the given values; other placeholders are left as they are
+function fillSavedNoteTemplate(template: string, values: Record<string, string>): string {
+	return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+		Object.prototype.hasOwnProperty.call(values, name) ? values[name] : match
+	);
+}
+
+/**
+ * Drop characters Obsidian does not allow in paths, and empty segments.
+ */
+export function normalizeFolderPath(path: string): string {
+	return path
+		.split("/")
+		.map((segment) => segment.replace(/[*"\\<>:|?]/g, "").trim())
+		.filter((segment) => segment && segment !== "." && segment !== "..")
+		.join("/");
+}
+
+/**
+ * Add fields to a frontmatter block (including its --- lines), skipping keys
+ * the block already defines. Strings are quoted; arrays become YAML lists.
+ */
+export function mergeFrontmatter(
+	existing: string,
+	fields: Record<string, string | number | string[] | undefined>
+): string {
+	const lines = existing
+		.replace(/\r\n/g, "\n")
+		.split("\n")
+		.filter((line) => line.trim() !== "---" && line.trim() !== "");
+	const keys = new Set(lines.map((line) => line.match(/^([^\s:#][^:]*):/)?.[1].trim()));
+
+	for (const [key, value] of Object.entries(fields)) {
+		if (value === undefined || keys.has(key)) continue;
+		if (Array.isArray(value)) {
+			if (value.length === 0) continue;
+			lines.push(`${key}:`, ...value.map((item) => `  - ${JSON.stringify(item)}`));
+		} else {
+			lines.push(`${key}: ${typeof value === "number" ? value : JSON.stringify(value)}`);
+		}
+	}
+	return lines.length > 0 ? `---\n${lines.join("\n")}\n---\n` : "";
+}
+
+/**
+ * Lay out a saved explanation: folder and file name from their templates,
+ * the body from bodyTemplate (a vault note; {{answer}} is appended when it
+ * is missing) and the metadata as frontmatter or as a list below the answer.
+ */
+export function buildSavedNote(
+	settings: SavedNoteSettings,
+	input: SavedNoteInput,
+	bodyTemplate = ""
+): SavedNote {
+	const slash = input.sourcePath.lastIndexOf("/");
+	const sourceFolder = slash === -1 ? "" : input.sourcePath.substring(0, slash);
+	const title = input.sourcePath.substring(slash + 1).replace(/\.md$/, "");
+	const stats = input.turns.map((t) => t.stats).filter((t): t is TurnStats => t !== undefined);
+	const answer = formatConversation(input.turns, settings.noteIncludeReasoning);
+	const metadata = stats.length > 0 ? buildMetadataBlock(input.model, stats, input.date) : "";
+	const values: Record<string, string> = {
+		selection: input.selection.replace(/\s+/g, " ").trim(),
+		title,
+		source: input.sourcePath ? buildSourceLink(input.sourcePath, input.sourceSubpath) : "",
+		source_folder: sourceFolder,
+		date: formatLocalDate(input.date),
+		model: input.model,
+		answer,
+		metadata: metadata.trim(),
+	};
+
+	const folder = settings.noteFolder.trim()
+		? normalizeFolderPath(fillSavedNoteTemplate(settings.noteFolder, values))
+		: sourceFolder;
+	const fileName = sanitizeFileName(
+		fillSavedNoteTemplate(settings.noteFileNameTemplate.trim() || "{{selection}}", values)
+	);
+
+	const templateFrontmatter = fillSavedNoteTemplate(bodyTemplate.substring(0, frontmatterLength(bodyTemplate)), values);
+	const templateBody = bodyTemplate.substring(frontmatterLength(bodyTemplate));
+	let body = answer;
+	if (templateBody.trim()) {
+		body = fillSavedNoteTemplate(templateBody, values);
+		if (!/\{\{\s*answer\s*\}\}/.test(templateBody)) {
+			body = `${body.trimEnd()}\n\n${answer}`;
+		}
+	}
+	const listsMetadata = settings.noteMetadataFormat === "list";
+	if (listsMetadata && !/\{\{\s*metadata\s*\}\}/.test(templateBody)) {
+		body += metadata;
+	}
+
+	let frontmatter = templateFrontmatter ? mergeFrontmatter(templateFrontmatter, {}) : "";
+	if (!listsMetadata) {
+		const tokens = stats.reduce((sum, s) => sum + s.promptTokens + s.completionTokens, 0);
+		const costs = stats.filter((s) => s.cost !== undefined).map((s) => s.cost as number);
+		const tags = settings.noteTags
+			.split(/[\s,]+/)
+			.map((tag) => tag.replace(/^#/, ""))
+			.filter(Boolean);
+		const pad = (n: number) => String(n).padStart(2, "0");
+		const d = input.date;
+		frontmatter = mergeFrontmatter(templateFrontmatter, {
+			source: values.source || undefined,
+			model: input.model,
+			tokens: tokens > 0 ? tokens : undefined,
+			cost: costs.length > 0 ? Number(costs.reduce((a, b) => a + b, 0).toFixed(6)) : undefined,
+			created: `${formatLocalDate(d)}T${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`,
+			tags,
+		});
+	}
+
+	let sourceEntry = "";
+	if (values.source && settings.noteSourceReference === "embed") {
+		sourceEntry = `!${values.source}`;
+	} else if (values.source && settings.noteSourceReference === "link") {
+		sourceEntry = `- ${values.source}`;
+	}
+
+	return { folder, fileName, frontmatter, body, sourceEntry };
+}
+
+/**
+ * Full text of a new saved note: frontmatter, body and Source section.
+ */
+export function formatSavedNote(note: SavedNote): string {
+	const source = note.sourceEntry ? `\n\n## ${SOURCE_HEADING}\n\n${note.sourceEntry}\n` : "";
+	return note.frontmatter + note.body + source;
+}
+
+/**
+ * Add another explanation to an existing saved note: the body goes after a
+ * horizontal rule above the Source section, and the source entry is added
+ * to that section unless it is already listed.
+ */
+export function appendSavedNote(existing: string, note: SavedNote): string {
+	const lines = existing.split("\n");
+	const section = note.sourceEntry ? findHeadingSection(lines, SOURCE_HEADING) : null;
+	if (!section) {
+		return `${existing.trimEnd()}\n\n---\n\n${note.body.trim()}` +
+			(note.sourceEntry ? `\n\n## ${SOURCE_HEADING}\n\n${note.sourceEntry}` : "") + "\n";
+	}
+
+	const before = lines.slice(0, section.start).join("\n").trimEnd();
+	let rest = lines.slice(section.start).join("\n");
+	if (!lines.slice(section.start, section.end).some((line) => line.trim() === note.sourceEntry)) {
+		rest = insertUnderHeading(rest, SOURCE_HEADING, note.sourceEntry, note.sourceEntry.startsWith("- "));
+	}
+	return `${before}\n\n---\n\n${note.body.trim()}\n\n${rest}`;
+}
+
+export interface ChatMessage {
+	role: "system" | "user" | "assistant";
+	content: string;
+	/** Images sent along with a user message. */
+	images?: ChatImage[];
+}
+
+export interface ChatImage {
+	/** Vault path of the embedded image. */
+	path: string;
+	mimeType: string;
+	/** Base64 without the data: URL prefix. */
+	data: string;
+	width: number;
+	height: number;
+}
+
+export const IMAGE_MIME_TYPES: Record<string, string> = {
+	png: "image/png",
+	jpg: "image/jpeg",
+	jpeg: "image/jpeg",
+	gif: "image/gif",
+	webp: "image/webp",
+};
+
+/**
+ * Vault images embedded in text, as ![[link]] or ![alt](path), in order and
+ * without duplicates. Web and data URLs are left out.
+ */
+export function findEmbeddedImages(text: string): string[] {
+	const links: string[] = [];
+	const re = /!\[\[([^\]|#]+)(?:[#|][^\]]*)?\]\]|!\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g;
+	let match;
+	while ((match = re.exec(text)) !== null) {
+		let link = (match[1] ?? match[2]).trim();
+		if (/^[a-z][a-z0-9+.-]*:/i.test(link)) continue;
+		try {
+			link = decodeURI(link);
+		} catch {
+			// Keep malformed escapes as written
+		}
+		const extension = link.substring(link.lastIndexOf(".") + 1).toLowerCase();
+		if (IMAGE_MIME_TYPES[extension] && !links.includes(link)) {
+			links.push(link);
+		}
+	}
+	return links;
+}
+
+/**
+ * Scale width x height down so neither side exceeds maxDimension
+ * (0 = no limit); smaller images keep their size.
+ */
+export function fitImageSize(width: number, height: number, maxDimension: number): { width: number; height: number } {
+	const scale = maxDimension > 0 ? Math.min(1, maxDimension / Math.max(width, height)) : 1;
+	return {
+		width: Math.max(1, Math.round(width * scale)),
+		height: Math.max(1, Math.round(height * scale)),
+	};
+}
+
+/**
+ * Whether a model accepts images, from its listed modalities. Undefined
+ * when the provider doesn't say.
+ */
+export function supportsImageInput(model: ModelInfo | undefined): boolean | undefined {
+	if (model?.inputModalities) {
+		return model.inputModalities.includes("image");
+	}
+	if (model?.modality) {
+		return model.modality.split("->")[0].split("+").includes("image");
+	}
+	return undefined;
+}
+
+/**
+ * The messages without their images, e.g. for a text-only model or for
+ * storing in the history.
+ */
+export function withoutImages(messages: ChatMessage[]): ChatMessage[] {
+	return messages.map((m) => (m.images ? { role: m.role, content: m.content } : m));
+}
+
+/**
+ * Provider-independent piece of a streamed chat response. Usage, when
+ * present, is the running total for the whole response.
+ */
+export interface ChatStreamChunk {
+	text?: string;
+	/** Reasoning ("thinking") text, shown apart from the answer. */
+	reasoning?: string;
+	usage?: {
+		promptTokens: number;
+		completionTokens: number;
+		/** Part of completionTokens spent on reasoning, when reported. */
+		reasoningTokens?: number;
+	};
+}
+
+const THINK_OPEN = "<think>";
+const THINK_CLOSE = "</think>";
+
+/**
+ * Separate the <think>…</think> block some models (e.g. DeepSeek R1 and
+ * Qwen on Ollama) put at the start of their answer. An unclosed block is
+ * all reasoning; partly streamed tags ("<thi", "</th") are held back.
+ */
+export function splitThinkTags(text: string): { reasoning: string; answer: string } {
+	const start = text.length - text.trimStart().length;
+	const rest = text.substring(start);
+	if (rest.length < THINK_OPEN.length && THINK_OPEN.startsWith(rest)) {
+		return { reasoning: "", answer: "" };
+	}
+	if (!rest.startsWith(THINK_OPEN)) {
+		return { reasoning: "", answer: text };
+	}
+	const end = rest.indexOf(THINK_CLOSE);
+	if (end === -1) {
+		let reasoning = rest.substring(THINK_OPEN.length);
+		for (let n = Math.min(THINK_CLOSE.length - 1, reasoning.length); n > 0; n--) {
+			if (reasoning.endsWith(THINK_CLOSE.substring(0, n))) {
+				reasoning = reasoning.substring(0, reasoning.length - n);
+				break;
+			}
+		}
+		return { reasoning: reasoning.trim(), answer: "" };
+	}
+	return {
+		reasoning: rest.substring(THINK_OPEN.length, end).trim(),
+		answer: rest.substring(end + THINK_CLOSE.length).trimStart(),
+	};
+}
+
+// An indented line continuing a list item
+const LIST_INDENT_RE = /^(?: {2,}|\t)/;
+// The start of a line that may still become a list item
+const LIST_ITEM_PREFIX_RE = /^\s*(?:[-*+]|\d+[.)]?)?$/;
+const FENCE_OPEN_RE = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Split streamed Markdown into blocks separated by blank lines, so each
+ * can be rendered on its own. Blank lines inside fenced code or $$ math
+ * don't split a block, and neither do those between the items of a list.
+ * A block is only split off once the next line can no longer continue it,
+ * so while the text grows every block but the last is final.
+ */
+export function splitMarkdownBlocks(text: string): string[] {
+	const blocks: string[] = [];
+	let current: string[] = [];
+	let fence: string | null = null;
+	let inMath = false;
+	let blanks = 0;
+	const lines = text.split("\n");
+
+	lines.forEach((line, i) => {
+		if (fence !== null) {
+			current.push(line);
+			const trimmed = line.trim();
+			if (trimmed.startsWith(fence) && /^(`+|~+)$/.test(trimmed)) {
+				fence = null;
+			}
+			return;
+		}
+		if (inMath) {
+			current.push(line);
+			inMath = line.split("$$").length % 2 === 1;
+			return;
+		}
+		if (line.trim() === "") {
+			blanks++;
+			return;
+		}
+
+		if (blanks > 0 && current.length > 0) {
+			// The last line may still be growing into a list item
+			const isLast = i === lines.length - 1;
+			const continuesList = LIST_ITEM_RE.test(current[0]) && (
+				LIST_ITEM_RE.test(line) ||
+				LIST_INDENT_RE.test(line) ||
+				(isLast && LIST_ITEM_PREFIX_RE.test(line))
+			);
+			if (continuesList) {
+				for (let b = 0; b < blanks; b++) current.push("");
+			} else {
+				blocks.push(current.join("\n"));
+				current = [];
+			}
+		}
+		blanks = 0;
+		current.push(line);
+
+		const opener = line.match(FENCE_OPEN_RE);
+		if (opener) {
+			fence = opener[1];
+		} else if (line.split("$$").length % 2 === 0) {
+			inMath = true;
+		}
+	});
+
+	if (current.length > 0) {
+		blocks.push(current.join("\n"));
+	}
+	return blocks;
+}
+
+/**
+ * Usage and timing figures for a single request/response turn.
+ */
+export interface TurnStats {
+	/** Model that produced the turn, when it may differ from the conversation's. */
+	model?: string;
+	/** Model that was requested when a fallback produced the turn. */
+	fallbackFrom?: string;
+	promptTokens: number;
+	completionTokens: number;
+	/** Part of completionTokens spent on reasoning, when reported. */
+	reasoningTokens?: number;
+	cost?: number;
+	durationMs: number;
+	ttftMs: number;
+	/** True when the answer was served from the response cache. */
+	cached?: boolean;
+}
+
+export interface ConversationTurn {
+	/** The follow-up question; undefined for the initial explanation. */
+	question?: string;
+	answer: string;
+	/** The model's reasoning before the answer, if it showed any. */
+	reasoning?: string;
+	stats?: TurnStats;
+}
+
+/**
+ * Calculate the USD cost of a response from per-token pricing.
+ * Returns undefined when the model has no pricing data.
+ */
+export function calculateCost(
+	model: ModelInfo | undefined,
+	promptTokens: number,
+	completionTokens: number
+): number | undefined {
+	if (!model?.pricing) {
+		return undefined;
+	}
+	const pRate = parseFloat(model.pricing.prompt);
+	const cRate = parseFloat(model.pricing.completion);
+	if (isNaN(pRate) || isNaN(cRate)) {
+		return undefined;
+	}
+	return (promptTokens * pRate) + (completionTokens * cRate);
+}
+
+/**
+ * Render the conversation as Markdown. The initial answer is emitted as-is;
+ * each follow-up question is quoted above its answer. With
+ * includeReasoning, each answer's reasoning precedes it as a collapsed
+ * "Thinking" callout.
+ */
+export function formatConversation(turns: ConversationTurn[], includeReasoning = false): string {
+	return turns
+		.map((turn) => {
+			const answer = includeReasoning && turn.reasoning
+				? `${buildCallout("Thinking", turn.reasoning)}\n\n${turn.answer}`
+				: turn.answer;
+			if (turn.question === undefined) {
+				return answer;
+			}
+			const quoted = turn.question
+				.split("\n")
+				.map((line, i) => (i === 0 ? `> **Follow-up:** ${line}` : `> ${line}`))
+				.join("\n");
+			return `${quoted}\n\n${answer}`;
+		})
+		.join("\n\n");
+}
+
+/**
+ * Wrap body in a collapsed callout of the given type, titled with title
+ * on a single line and shortened to maxTitleLength characters.
+ */
+export function buildCallout(title: string, body: string, type = "note", maxTitleLength = 60): string {
+	let heading = title.replace(/\s+/g, " ").trim();
+	if (heading.length > maxTitleLength) {
+		heading = heading.substring(0, maxTitleLength - 1).trimEnd() + "…";
+	}
+	const lines = body.split("\n").map((line) => (line ? `> ${line}` : ">"));
+	return [`> [!${type}]- ${heading}`, ...lines].join("\n");
+}
+
+/**
+ * The next free numeric footnote label in a note ("1" when it has none).
+ */
+export function nextFootnoteLabel(text: string): string {
+	const re = /\[\^(\d+)\]/g;
+	let max = 0;
+	let match;
+	while ((match = re.exec(text)) !== null) {
+		max = Math.max(max, parseInt(match[1], 10));
+	}
+	return String(max + 1);
+}
+
+/**
+ * A footnote definition; continuation lines are indented so multi-paragraph
+ * answers stay inside the footnote.
+ */
+export function buildFootnote(label: string, body: string): string {
+	const [first, ...rest] = body.trim().split("\n");
+	return [`[^${label}]: ${first}`, ...rest.map((line) => (line ? `    ${line}` : ""))].join("\n");
+}
+
+// Line range [start, end) of the section under heading (matched
+// case-insensitively at any level), ignoring headings in fenced code
+function findHeadingSection(lines: string[], heading: string): { start: number; end: number } | null {
+	const wanted = heading.trim().toLowerCase();
+	let start = -1;
+	let level = 0;
+	let inFence = false;
+
+	for (let i = 0; i < lines.length; i++) {
+		if (/^\s*(```|~~~)/.test(lines[i])) {
+			inFence = !inFence;
+			continue;
+		}
+		const match = inFence ? null : lines[i].match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+		if (!match) continue;
+		if (start === -1 && wanted && match[2].toLowerCase() === wanted) {
+			start = i;
+			level = match[1].length;
+		} else if (start !== -1 && match[1].length <= level) {
+			return { start, end: i };
+		}
+	}
+	return start === -1 ? null : { start, end: lines.length };
+}
+
+/**
+ * Insert block at the end of the section under heading (matched
+ * case-insensitively at any level), before the next heading of the same or
+ * a higher level. A missing heading is added as a new "##" section at the
+ * end of the note; an empty heading appends to the end of the note. With
+ * tight, no blank line is left after a non-empty last line (list items).
+ */
+export function insertUnderHeading(text: string, heading: string, block: string, tight = false): string {
+	const lines = text.split("\n");
+	const section = findHeadingSection(lines, heading);
+
+	if (!section) {
+		const body = text.trimEnd();
+		const added = heading.trim() ? `## ${heading.trim()}\n\n${block}` : block;
+		return body ? `${body}\n\n${added}\n` : `${added}\n`;
+	}
+
+	let insertAt = section.end;
+	while (insertAt > section.start + 1 && lines[insertAt - 1].trim() === "") {
+		insertAt--;
+	}
+	const gap = tight && insertAt > section.start + 1 ? [] : [""];
+	const after = lines.slice(section.end);
+	return [...lines.slice(0, insertAt), ...gap, block, ...(after.length > 0 ? ["", ...after] : [""])].join("\n");
+}
+
+/**
+ * Combine the stats of an interrupted answer with those of its
+ * continuation: tokens, cost and duration add up, while the model and
+ * time to first token come from the original request.
+ */
+export function mergeTurnStats(first: TurnStats, continuation: TurnStats): TurnStats {
+	const costs = [first.cost, continuation.cost].filter((c): c is number => c !== undefined);
+	return {
+		...first,
+		promptTokens: first.promptTokens + continuation.promptTokens,
+		completionTokens: first.completionTokens + continuation.completionTokens,
+		reasoningTokens: sumReasoningTokens([first, continuation]),
+		cost: costs.length > 0 ? costs.reduce((sum, c) => sum + c, 0) : undefined,
+		durationMs: first.durationMs + continuation.durationMs,
+	};
+}
+
+// Undefined unless some turn reported reasoning tokens
+function sumReasoningTokens(turns: TurnStats[]): number | undefined {
+	const counted = turns.filter((s) => s.reasoningTokens !== undefined);
+	return counted.length > 0 ? counted.reduce((sum, s) => sum + (s.reasoningTokens as number), 0) : undefined;
+}
+
+function formatTokens(stats: TurnStats): string {
+	const reasoning = stats.reasoningTokens ? ` incl. ${stats.reasoningTokens} reasoning` : "";
+	return `${stats.promptTokens + stats.completionTokens} (${stats.promptTokens} prompt, ${stats.completionTokens} completion${reasoning})`;
+}
+
+function formatTiming(stats: TurnStats): string {
+	const tps = stats.completionTokens > 0
+		? (stats.completionTokens / (stats.durationMs / 1000)).toFixed(2)
+		: "0.00";
+	const speedInfo = stats.completionTokens > 0 ? `, Speed: ${tps} tok/s` : "";
+	return `${(stats.durationMs / 1000).toFixed(2)}s total (TTFT: ${stats.ttftMs}ms${speedInfo})`;
+}
+
+/**
+ * Build the Markdown metadata block appended to a response.
+ * A single turn keeps the flat Tokens/Cost/Timing layout; a conversation
+ * lists each turn followed by token and cost totals.
+ */
+export function buildMetadataBlock(model: string, turns: TurnStats[], date: Date): string {
+	const hasUsage = (s: TurnStats) => s.promptTokens > 0 || s.completionTokens > 0;
+	const fallbackNote = (s: TurnStats) => s.fallbackFrom ? ` (fallback for ${s.fallbackFrom})` : "";
+	let lines: string;
+
+	if (turns.length === 1) {
+		const stats = turns[0];
+		lines = `- **Model:** ${stats.fallbackFrom ? stats.model ?? model : model}${fallbackNote(stats)}`;
+		if (hasUsage(stats)) {
+			lines += `\n- **Tokens:** ${formatTokens(stats)}`;
+			if (stats.cost !== undefined) {
+				lines += `\n- **Cost:** $${stats.cost.toFixed(6)}`;
+			}
+		}
+		lines += `\n- **Timing:** ${formatTiming(stats)}`;
+		if (stats.cached) {
+			lines += "\n- **Cached:** yes";
+		}
+	} else {
+		lines = `- **Model:** ${model}`;
+		turns.forEach((stats, i) => {
+			const parts: string[] = [];
+			if (stats.model && (stats.model !== model || stats.fallbackFrom)) {
+				parts.push(stats.model + fallbackNote(stats));
+			}
+			if (hasUsage(stats)) {
+				parts.push(`${formatTokens(stats)} tokens`);
+				if (stats.cost !== undefined) {
+					parts.push(`$${stats.cost.toFixed(6)}`);
+				}
+			}
+			parts.push(formatTiming(stats));
+			if (stats.cached) {
+				parts.push("cached");
+			}
+			lines += `\n- **Turn ${i + 1}:** ${parts.join(", ")}`;
+		});
+
+		const total: TurnStats = {
+			promptTokens: turns.reduce((sum, s) => sum + s.promptTokens, 0),
+			completionTokens: turns.reduce((sum, s) => sum + s.completionTokens, 0),
+			reasoningTokens: sumReasoningTokens(turns),
+			durationMs: 0,
+			ttftMs: 0,
+		};
+		if (hasUsage(total)) {
+			lines += `\n- **Total tokens:** ${formatTokens(total)}`;
+		}
+		const costs = turns.filter((s) => s.cost !== undefined).map((s) => s.cost as number);
+		if (costs.length > 0) {
+			lines += `\n- **Total cost:** $${costs.reduce((a, b) => a + b, 0).toFixed(6)}`;
+		}
+	}
+
+	return `\n\n---\n**Metadata**\n${lines}\n- **Date:** ${date.toISOString()}`;
+}
+
+export interface CachedResponse {
+	answer: string;
+	reasoning?: string;
+	stats: TurnStats;
+	createdAt: number;
+}
+
+export interface ResponseCacheData {
+	entries: Record<string, CachedResponse>;
+	hits: number;
+	misses: number;
+}
+
+export function createResponseCache(): ResponseCacheData {
+	return { entries: {}, hits: 0, misses: 0 };
+}
+
+/**
+ * Non-cryptographic 53-bit string hash (cyrb53), as a hex string.
+ */
+export function hashString(text: string, seed = 0): string {
+	let h1 = 0xdeadbeef ^ seed;
+	let h2 = 0x41c6ce57 ^ seed;
+	for (let i = 0; i < text.length; i++) {
+		const ch = text.charCodeAt(i);
+		h1 = Math.imul(h1 ^ ch, 2654435761);
+		h2 = Math.imul(h2 ^ ch, 1597334677);
+	}
+	h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+	h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+	return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
+
+/**
+ * Cache key for a response: provider, base URL, model, system prompt, the
+ * rendered user prompt and a fingerprint of each attached image, so an
+ * image edited under the same path is not answered from the cache.
+ */
+export function buildResponseCacheKey(
+	provider: string,
+	baseURL: string,
+	model: string,
+	systemPrompt: string,
+	userPrompt: string,
+	images: ChatImage[] = []
+): string {
+	const imageKeys = images.map((image) => [image.path, hashString(image.data)]);
+	return hashString(JSON.stringify([provider, baseURL, model, systemPrompt, userPrompt, imageKeys]));
+}
+
+/**
+ * Look up a cached response, dropping it if older than ttlMs (0 = no
+ * expiry). Records a hit or miss on the cache.
+ */
+export function lookupCachedResponse(
+	cache: ResponseCacheData,
+	key: string,
+	now: number,
+	ttlMs: number
+): CachedResponse | undefined {
+	const entry = cache.entries[key];
+	if (entry && ttlMs > 0 && now - entry.createdAt > ttlMs) {
+		delete cache.entries[key];
+	}
+	const hit = cache.entries[key];
+	if (hit) {
+		cache.hits++;
+	} else {
+		cache.misses++;
+	}
+	return hit;
+}
+
+/**
+ * Store a response, evicting the oldest entries beyond maxEntries.
+ */
+export function storeCachedResponse(
+	cache: ResponseCacheData,
+	key: string,
+	entry: CachedResponse,
+	maxEntries: number
+): void {
+	cache.entries[key] = entry;
+	const keys = Object.keys(cache.entries);
+	if (maxEntries > 0 && keys.length > maxEntries) {
+		keys
+			.sort((a, b) => cache.entries[a].createdAt - cache.entries[b].createdAt)
+			.slice(0, keys.length - maxEntries)
+			.forEach((k) => delete cache.entries[k]);
+	}
+}
+
+/**
+ * A provider's model list as last fetched.
+ */
+export interface ModelCatalogEntry {
+	fetchedAt: number;
+	models: ModelInfo[];
+}
+
+export interface ModelCatalogData {
+	entries: Record<string, ModelCatalogEntry>;
+}
+
+export function createModelCatalog(): ModelCatalogData {
+	return { entries: {} };
+}
+
+/**
+ * Catalogue key: provider, base URL and a fingerprint of the API key, so a
+ * different host or account gets its own list without storing the key.
+ */
+export function buildCatalogKey(provider: string, baseURL: string, apiKey: string): string {
+	return `${provider}|${baseURL}|${apiKey ? hashString(apiKey) : ""}`;
+}
+
+/**
+ * Whether a catalogue entry is younger than ttlMs (0 = never expires).
+ */
+export function isCatalogEntryFresh(entry: ModelCatalogEntry | undefined, now: number, ttlMs: number): boolean {
+	return !!entry && (ttlMs <= 0 || now - entry.fetchedAt <= ttlMs);
+}
+
+/**
+ * One explanation conversation, as recorded in the history view.
+ */
+export interface HistoryEntry {
+	id: string;
+	timestamp: number;
+	selection: string;
+	sourcePath: string;
+	promptName: string;
+	model: string;
+	/** Full message history, so a re-opened entry can continue the conversation. */
+	messages: ChatMessage[];
+	turns: ConversationTurn[];
+}
+
+export interface HistoryFilter {
+	query?: string;
+	model?: string;
+	sourcePath?: string;
+}
+
+/**
+ * Insert or replace an entry, keeping the list newest-first and at most
+ * maxEntries long (0 = no limit).
+ */
+export function upsertHistoryEntry(
+	entries: HistoryEntry[],
+	entry: HistoryEntry,
+	maxEntries: number
+): HistoryEntry[] {
+	const updated = [entry, ...entries.filter((e) => e.id !== entry.id)];
+	return maxEntries > 0 ? updated.slice(0, maxEntries) : updated;
+}
+
+/**
+ * Filter history by model, source note and a case-insensitive query
+ * matched against the selection, prompt name, note path and response.
+ */
+export function filterHistory(entries: HistoryEntry[], filter: HistoryFilter): HistoryEntry[] {
+	const query = (filter.query || "").trim().toLowerCase();
+	return entries.filter((entry) => {
+		if (filter.model && entry.model !== filter.model) return false;
+		if (filter.sourcePath && entry.sourcePath !== filter.sourcePath) return false;
+		if (!query) return true;
+		return [entry.selection, entry.promptName, entry.sourcePath, formatConversation(entry.turns)]
+			.some((field) => field.toLowerCase().includes(query));
+	});
+}
+
+/**
+ * Spending for one day, provider and model.
+ */
+export interface LedgerRow {
+	/** Local date, YYYY-MM-DD; the 1st for rows rolled up into a month. */
+	date: string;
+	provider: string;
+	model: string;
+	requests: number;
+	promptTokens: number;
+	completionTokens: number;
+	/** USD, summed over the requests with known pricing. */
+	cost: number;
+	/** Requests whose cost could not be calculated. */
+	unpricedRequests: number;
+}
+
+export interface LedgerData {
+	rows: LedgerRow[];
+}
+
+export function createLedger(): LedgerData {
+	return { rows: [] };
+}
+
+export type SpendTotals = Pick<LedgerRow, "requests" | "promptTokens" | "completionTokens" | "cost" | "unpricedRequests">;
+
+/**
+ * Add one response to the ledger row for its day, provider and model.
+ */
+export function recordSpend(
+	ledger: LedgerData,
+	date: Date,
+	provider: string,
+	model: string,
+	stats: Pick<TurnStats, "promptTokens" | "completionTokens" | "cost">
+): void {
+	const day = formatLocalDate(date);
+	let row = ledger.rows.find((r) => r.date === day && r.provider === provider && r.model === model);
+	if (!row) {
+		row = { date: day, provider, model, requests: 0, promptTokens: 0, completionTokens: 0, cost: 0, unpricedRequests: 0 };
+		ledger.rows.push(row);
+	}
+	row.requests++;
+	row.promptTokens += stats.promptTokens;
+	row.completionTokens += stats.completionTokens;
+	if (stats.cost !== undefined) {
+		row.cost += stats.cost;
+	} else {
+		row.unpricedRequests++;
+	}
+}
+
+/**
+ * Roll the daily rows from before the current week and month up into one
+ * row per month, provider and model, so the ledger grows by month rather
+ * than by day. The report and budget periods keep their daily rows.
+ */
+export function rollUpLedger(ledger: LedgerData, now: Date): void {
+	const periods = getReportPeriods(now);
+	const cutoff = periods.week < periods.month ? periods.week : periods.month;
+	const rows: LedgerRow[] = [];
+	const monthly: Record<string, LedgerRow> = {};
+	for (const row of ledger.rows) {
+		if (row.date >= cutoff) {
+			rows.push(row);
+			continue;
+		}
+		const month = `${row.date.substring(0, 7)}-01`;
+		const key = `${month}\u0000${row.provider}\u0000${row.model}`;
+		if (!monthly[key]) {
+			monthly[key] = { ...row, date: month, ...emptyTotals() };
+			rows.push(monthly[key]);
+		}
+		addTotals(monthly[key], row);
+	}
+	ledger.rows = rows;
+}
+
+function addTotals(total: SpendTotals, row: SpendTotals): void {
+	total.requests += row.requests;
+	total.promptTokens += row.promptTokens;
+	total.completionTokens += row.completionTokens;
+	total.cost += row.cost;
+	total.unpricedRequests += row.unpricedRequests;
+}
+
+function emptyTotals(): SpendTotals {
+	return { requests: 0, promptTokens: 0, completionTokens: 0, cost: 0, unpricedRequests: 0 };
+}
+
+/**
+ * Totals of the rows dated on or after fromDate (YYYY-MM-DD).
+ */
+export function sumLedger(rows: LedgerRow[], fromDate: string): SpendTotals {
+	const total = emptyTotals();
+	rows.filter((r) => r.date >= fromDate).forEach((r) => addTotals(total, r));
+	return total;
+}
+
+/**
+ * Start dates of the report periods: today, this week (from Monday) and
+ * this month.
+ */
+export function getReportPeriods(now: Date): { today: string; week: string; month: string } {
+	const monday = new Date(now.getFullYear(), now.getMonth(), now.getDate() - ((now.getDay() + 6) % 7));
+	return {
+		today: formatLocalDate(now),
+		week: formatLocalDate(monday),
+		month: formatLocalDate(new Date(now.getFullYear(), now.getMonth(), 1)),
+	};
+}
+
+/**
+ * Per-model totals since fromDate, most expensive first (ties by tokens).
+ */
+export function topModels(
+	rows: LedgerRow[],
+	fromDate: string,
+	limit: number
+): Array<SpendTotals & { provider: string; model: string }> {
+	const byModel: Record<string, SpendTotals & { provider: string; model: string }> = {};
+	for (const row of rows.filter((r) => r.date >= fromDate)) {
+		const key = `${row.provider}\u0000${row.model}`;
+		byModel[key] = byModel[key] || { provider: row.provider, model: row.model, ...emptyTotals() };
+		addTotals(byModel[key], row);
+	}
+	return Object.keys(byModel)
+		.map((key) => byModel[key])
+		.sort((a, b) => b.cost - a.cost ||
+			(b.promptTokens + b.completionTokens) - (a.promptTokens + a.completionTokens))
+		.slice(0, limit);
+}
+
+export type BudgetSettings = Pick<ExplainSelectionWithAiPluginSettings, "dailyBudget" | "monthlyBudget" | "budgetWarnPercent">;
+
+export type BudgetLevel = "ok" | "warning" | "exceeded";
+
+export interface BudgetStatus {
+	level: BudgetLevel;
+	/** Describes the most severe budget; empty when level is "ok". */
+	message: string;
+}
+
+const BUDGET_LEVELS: BudgetLevel[] = ["ok", "warning", "exceeded"];
+
+/**
+ * Compare today's and this month's spending with the budgets. The more
+ * severe of the two decides the level.
+ */
+export function checkBudget(rows: LedgerRow[], budgets: BudgetSettings, now: Date): BudgetStatus {
+	const periods = getReportPeriods(now);
+	const checks = [
+		{ name: "daily", limit: budgets.dailyBudget, spent: sumLedger(rows, periods.today).cost },
+		{ name: "monthly", limit: budgets.monthlyBudget, spent: sumLedger(rows, periods.month).cost },
+	];
+
+	let status: BudgetStatus = { level: "ok", message: "" };
+	for (const { name, limit, spent } of checks) {
+		if (limit <= 0) continue;
+		const amounts = `$${spent.toFixed(2)} of $${limit.toFixed(2)}`;
+		let next: BudgetStatus | null = null;
+		if (spent >= limit) {
+			next = { level: "exceeded", message: `The ${name} budget is used up (${amounts}).` };
+		} else if (spent >= limit * budgets.budgetWarnPercent / 100) {
+			next = { level: "warning", message: `${Math.floor(spent / limit * 100)}% of the ${name} budget used (${amounts}).` };
+		}
+		if (next && BUDGET_LEVELS.indexOf(next.level) > BUDGET_LEVELS.indexOf(status.level)) {
+			status = next;
+		}
+	}
+	return status;
+}
+
+/**
+ * Thrown instead of sending a request once a hard budget is exceeded.
+ */
+export class BudgetExceededError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "BudgetExceededError";
+	}
+}
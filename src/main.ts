@@ -7,107 +7,1066 @@ import {
 	MarkdownRenderer,
 	requestUrl,
 	Editor,
+	Menu,
 	Notice,
+	SuggestModal,
+	FuzzySuggestModal,
+	TFile,
+	Events,
+	ItemView,
+	MarkdownView,
+	WorkspaceLeaf,
+	DropdownComponent,
+	getAllTags,
+	getLinkpath,
+	normalizePath,
+	arrayBufferToBase64,
+	setIcon,
 } from "obsidian";
-import OpenAI from "openai";
 import {
 	ExplainSelectionWithAiPluginSettings,
 	DEFAULT_SETTINGS,
+	DEFAULT_PROMPT,
+	DEFAULT_PROFILE,
+	ProviderProfile,
+	getActiveProfile,
+	switchProvider,
+	ModelTarget,
+	MIN_COMPARE_TARGETS,
+	MAX_COMPARE_TARGETS,
+	normalizeCompareTargets,
+	resolveFallbackChain,
+	CONTINUE_PROMPT,
+	PromptAction,
+	ContextScope,
+	CONTEXT_SCOPE_LABELS,
+	extractContext,
+	fitContextToTokens,
+	estimatePromptTokens,
+	RESPONSE_TOKEN_RESERVE,
+	migrateSettings,
+	NoteVariables,
+	validateTemplate,
+	findHeadingPath,
+	formatLocalDate,
+	templateUsesVariable,
+	assembleLinkedNotes,
+	LinkedNoteCandidate,
+	LinkedNoteSource,
+	TEMPLATE_VARIABLES,
+	CachedResponse,
+	ResponseCacheData,
+	createResponseCache,
+	buildResponseCacheKey,
+	lookupCachedResponse,
+	storeCachedResponse,
+	HistoryEntry,
+	upsertHistoryEntry,
+	filterHistory,
+	ModelCatalogData,
+	createModelCatalog,
+	buildCatalogKey,
+	isCatalogEntryFresh,
+	LedgerData,
+	LedgerRow,
+	createLedger,
+	recordSpend,
+	rollUpLedger,
+	sumLedger,
+	topModels,
+	getReportPeriods,
+	BudgetStatus,
+	checkBudget,
+	BudgetExceededError,
+	buildWikiLink,
+	ChatImage,
+	IMAGE_MIME_TYPES,
+	findEmbeddedImages,
+	fitImageSize,
+	supportsImageInput,
+	withoutImages,
+	splitMarkdownBlocks,
+	splitThinkTags,
+	DisplayMode,
+	DISPLAY_MODE_LABELS,
+	placePopover,
+	OutputAction,
+	OUTPUT_ACTION_LABELS,
+	EDITOR_OUTPUT_ACTIONS,
+	buildCallout,
+	buildFootnote,
+	nextFootnoteLabel,
+	insertUnderHeading,
 	ModelInfo,
 	buildPrompt,
 	buildMenuLabel,
-	getProviderConfig,
-	filterOpenAIModels,
-	parseOpenRouterModels,
-	parseOllamaModels,
-	deriveOllamaBaseUrl,
 	filterModels,
-	sanitizeFileName,
+	sortModels,
+	ModelSort,
+	formatContextLength,
+	formatPricePerMillion,
+	modelKey,
+	pushRecentModel,
+	toggleFavouriteModel,
+	buildSavedNote,
+	formatSavedNote,
+	appendSavedNote,
+	locateBlockId,
+	relocateBlockInsert,
+	NoteSourceReference,
+	NOTE_SOURCE_REFERENCE_LABELS,
+	SavedNoteInput,
+	NoteMetadataFormat,
+	NOTE_METADATA_FORMAT_LABELS,
+	SAVED_NOTE_VARIABLES,
+	ChatMessage,
+	ConversationTurn,
+	TurnStats,
+	mergeTurnStats,
+	formatConversation,
+	buildMetadataBlock,
+	NumericSettingKey,
 } from "./lib";
+import {
+	PROVIDERS,
+	ProviderHttp,
+	getProvider,
+	getProviderConfig,
+	StreamTarget,
+	streamWithFallback,
+} from "./providers";
+
+// Model listing goes through requestUrl to avoid CORS; streaming needs fetch
+const obsidianHttp: ProviderHttp = {
+	getJson: async (url, headers) => (await requestUrl({ url, method: "GET", headers })).json,
+	fetch: (url, init) => fetch(url, init),
+};
+
+// The command registry, whose removeCommand is missing from the API typings
+interface AppWithCommands extends App {
+	commands: {
+		removeCommand(id: string): void;
+	};
+}
+
+// Longest wait before a retry; a longer Retry-After moves on to the next fallback
+const MAX_RETRY_DELAY_MS = 30000;
+
+// Longest wait for a context window before sending without trimming
+const CONTEXT_LENGTH_TIMEOUT_MS = 3000;
+
+// Context windows looked up from the provider, per catalogue key and model;
+// null when the provider answered without one
+const contextLengthCache: Record<string, number | null> = {};
+
+/**
+ * Context window of a model in tokens: from the model catalogue when the
+ * list has one, otherwise asked from the provider. Undefined when unknown
+ * or when the provider takes too long; a late answer is still cached.
+ */
+async function getContextLength(
+	plugin: ExplainSelectionWithAiPlugin,
+	profile: ProviderProfile,
+	model: string
+): Promise<number | undefined> {
+	const listed = plugin.modelCatalog.cached(profile).find((m) => m.id === model)?.contextLength;
+	if (listed) return listed;
+
+	const key = `${plugin.modelCatalog.key(profile)}|${model}`;
+	if (key in contextLengthCache) return contextLengthCache[key] ?? undefined;
+
+	const lookup = lookUpContextLength(plugin, profile, model).then(
+		(length) => {
+			contextLengthCache[key] = length ?? null;
+			return length;
+		},
+		(err) => {
+			// Without a known window the context is simply not trimmed
+			console.error(`Failed to look up the context length of ${model}`, err);
+			return undefined;
+		}
+	);
+	let timer: number | undefined;
+	const timeout = new Promise<undefined>((resolve) => {
+		timer = window.setTimeout(() => resolve(undefined), CONTEXT_LENGTH_TIMEOUT_MS);
+	});
+	try {
+		return await Promise.race([lookup, timeout]);
+	} finally {
+		window.clearTimeout(timer);
+	}
+}
+
+async function lookUpContextLength(
+	plugin: ExplainSelectionWithAiPlugin,
+	profile: ProviderProfile,
+	model: string
+): Promise<number | undefined> {
+	const provider = getProvider(profile.provider);
+	if (provider.listsContextLength) {
+		// Fetch through the catalogue so the list is stored for next time
+		const models = await plugin.modelCatalog.models(profile);
+		return models.find((m) => m.id === model)?.contextLength;
+	}
+	return provider.getContextLength?.(profile, model, obsidianHttp);
+}
+
+/**
+ * A JSON file in the plugin's folder, loaded lazily on first use and
+ * written back on save().
+ */
+class PluginDataFile<T> {
+	private plugin: ExplainSelectionWithAiPlugin;
+	private fileName: string;
+	private createDefault: () => T;
+	private data: T | null = null;
+
+	constructor(plugin: ExplainSelectionWithAiPlugin, fileName: string, createDefault: () => T) {
+		this.plugin = plugin;
+		this.fileName = fileName;
+		this.createDefault = createDefault;
+	}
+
+	private get path(): string {
+		return `${this.plugin.manifest.dir}/${this.fileName}`;
+	}
+
+	async load(): Promise<T> {
+		if (this.data) return this.data;
+		const adapter = this.plugin.app.vault.adapter;
+		try {
+			if (await adapter.exists(this.path)) {
+				this.data = { ...this.createDefault(), ...JSON.parse(await adapter.read(this.path)) };
+			}
+		} catch (err) {
+			console.error(`Failed to read ${this.fileName}`, err);
+		}
+		this.data = this.data || this.createDefault();
+		return this.data;
+	}
+
+	async save() {
+		if (!this.data) return;
+		try {
+			await this.plugin.app.vault.adapter.write(this.path, JSON.stringify(this.data));
+		} catch (err) {
+			console.error(`Failed to write ${this.fileName}`, err);
+		}
+	}
+
+	async reset() {
+		this.data = this.createDefault();
+		await this.save();
+	}
+}
+
+/**
+ * Response cache persisted as response-cache.json in the plugin's folder.
+ */
+class ResponseCacheStore {
+	private plugin: ExplainSelectionWithAiPlugin;
+	private file: PluginDataFile<ResponseCacheData>;
+
+	constructor(plugin: ExplainSelectionWithAiPlugin) {
+		this.plugin = plugin;
+		this.file = new PluginDataFile(plugin, "response-cache.json", createResponseCache);
+	}
+
+	async get(key: string): Promise<CachedResponse | undefined> {
+		const data = await this.file.load();
+		const ttlMs = this.plugin.settings.responseCacheTtlDays * 24 * 60 * 60 * 1000;
+		const entry = lookupCachedResponse(data, key, Date.now(), ttlMs);
+		await this.file.save();
+		return entry;
+	}
+
+	async put(key: string, entry: CachedResponse) {
+		const data = await this.file.load();
+		storeCachedResponse(data, key, entry, this.plugin.settings.responseCacheMaxEntries);
+		await this.file.save();
+	}
+
+	async clear() {
+		await this.file.reset();
+	}
+
+	async stats(): Promise<{ entries: number; hits: number; misses: number }> {
+		const data = await this.file.load();
+		return { entries: Object.keys(data.entries).length, hits: data.hits, misses: data.misses };
+	}
+}
+
+/**
+ * Model lists persisted as model-catalog.json in the plugin's folder, keyed
+ * by provider, base URL and API key fingerprint. Lists older than the
+ * configured lifetime are fetched again when requested.
+ */
+class ModelCatalogStore {
+	private plugin: ExplainSelectionWithAiPlugin;
+	private file: PluginDataFile<ModelCatalogData>;
+	private data: ModelCatalogData = createModelCatalog();
+	// In-flight fetches, so concurrent callers share one request
+	private pending: Record<string, Promise<ModelInfo[]>> = {};
+
+	constructor(plugin: ExplainSelectionWithAiPlugin) {
+		this.plugin = plugin;
+		this.file = new PluginDataFile(plugin, "model-catalog.json", createModelCatalog);
+	}
+
+	key(profile: ProviderProfile): string {
+		const config = getProviderConfig(profile);
+		return buildCatalogKey(profile.provider, config.baseURL, config.apiKey);
+	}
+
+	async load() {
+		this.data = await this.file.load();
+	}
+
+	/**
+	 * The stored list without fetching, even when expired; empty when the
+	 * list was never fetched. Enough for pricing and context lengths.
+	 */
+	cached(profile: ProviderProfile): ModelInfo[] {
+		return this.data.entries[this.key(profile)]?.models ?? [];
+	}
+
+	fetchedAt(profile: ProviderProfile): number | undefined {
+		return this.data.entries[this.key(profile)]?.fetchedAt;
+	}
+
+	/**
+	 * The model list for a profile, fetched when missing, expired or when
+	 * refresh is set.
+	 */
+	async models(profile: ProviderProfile, refresh = false): Promise<ModelInfo[]> {
+		await this.load();
+		const key = this.key(profile);
+		const ttlMs = this.plugin.settings.modelCatalogTtlHours * 60 * 60 * 1000;
+		const entry = this.data.entries[key];
+		if (!refresh && entry && isCatalogEntryFresh(entry, Date.now(), ttlMs)) {
+			return entry.models;
+		}
+
+		if (!this.pending[key]) {
+			this.pending[key] = this.fetch(profile, key).finally(() => delete this.pending[key]);
+		}
+		return this.pending[key];
+	}
+
+	private async fetch(profile: ProviderProfile, key: string): Promise<ModelInfo[]> {
+		const provider = getProvider(profile.provider);
+		if (!provider.listModels) {
+			throw new Error(`No model fetching for provider: ${provider.id}`);
+		}
+		const models = await provider.listModels(profile, obsidianHttp);
+		this.data.entries[key] = { fetchedAt: Date.now(), models };
+		await this.file.save();
+		return models;
+	}
+
+	async clear() {
+		await this.file.reset();
+		this.data = await this.file.load();
+	}
+}
+
+/**
+ * Explanation history persisted as history.json in the plugin's folder.
+ * Triggers "changed" whenever an entry is added, updated or removed.
+ */
+class HistoryStore extends Events {
+	private plugin: ExplainSelectionWithAiPlugin;
+	private file: PluginDataFile<{ entries: HistoryEntry[] }>;
+
+	constructor(plugin: ExplainSelectionWithAiPlugin) {
+		super();
+		this.plugin = plugin;
+		this.file = new PluginDataFile(plugin, "history.json", () => ({ entries: [] as HistoryEntry[] }));
+	}
+
+	async list(): Promise<HistoryEntry[]> {
+		return (await this.file.load()).entries;
+	}
+
+	async record(entry: HistoryEntry) {
+		if (!this.plugin.settings.historyEnabled) return;
+		const data = await this.file.load();
+		data.entries = upsertHistoryEntry(data.entries, entry, this.plugin.settings.historyMaxEntries);
+		await this.file.save();
+		this.trigger("changed");
+	}
+
+	async remove(id: string) {
+		const data = await this.file.load();
+		data.entries = data.entries.filter((e) => e.id !== id);
+		await this.file.save();
+		this.trigger("changed");
+	}
+
+	async clear() {
+		await this.file.reset();
+		this.trigger("changed");
+	}
+}
+
+/**
+ * Spending ledger persisted as ledger.json in the plugin's folder: tokens
+ * and cost per day, provider and model.
+ */
+class LedgerStore {
+	private plugin: ExplainSelectionWithAiPlugin;
+	private file: PluginDataFile<LedgerData>;
+
+	constructor(plugin: ExplainSelectionWithAiPlugin) {
+		this.plugin = plugin;
+		this.file = new PluginDataFile(plugin, "ledger.json", createLedger);
+	}
+
+	async rows(): Promise<LedgerRow[]> {
+		return (await this.file.load()).rows;
+	}
+
+	async budgetStatus(): Promise<BudgetStatus> {
+		return checkBudget(await this.rows(), this.plugin.settings, new Date());
+	}
+
+	/**
+	 * Record a response and warn when it pushes spending past a budget
+	 * threshold.
+	 */
+	async record(provider: string, model: string, stats: TurnStats) {
+		const data = await this.file.load();
+		const before = checkBudget(data.rows, this.plugin.settings, new Date());
+		recordSpend(data, new Date(), provider, model, stats);
+		rollUpLedger(data, new Date());
+		await this.file.save();
+
+		const after = checkBudget(data.rows, this.plugin.settings, new Date());
+		if (after.level !== "ok" && after.message !== before.message) {
+			new Notice(after.message);
+		}
+	}
+
+	async clear() {
+		await this.file.reset();
+	}
+}
+
+/**
+ * Save an explanation as a note laid out by the saved-note settings.
+ * For an editor selection, the passage that was explained gets a block id
+ * the note's Source section points to. If that note already exists, asks
+ * inside choiceContainer whether to append or create a numbered copy.
+ * Calls onSaved with the final path.
+ */
+async function saveExplanationNote(
+	plugin: ExplainSelectionWithAiPlugin,
+	input: SavedNoteInput,
+	source: SelectionSource | null,
+	choiceContainer: HTMLElement,
+	onSaved: (path: string) => void
+) {
+	const app = plugin.app;
+
+	// The id is only written into the source once the note has been saved;
+	// block links only work in Markdown notes, not e.g. canvas cards
+	let markSource = () => {};
+	const editor = source?.editor;
+	if (source && editor && input.sourcePath.endsWith(".md") && plugin.settings.noteSourceReference !== "none") {
+		const block = locateBlockId(source.text, source.from, source.to, Math.random().toString(36).substring(2, 8));
+		input = { ...input, sourceSubpath: `^${block.id}` };
+		const insert = block.insert;
+		if (insert) {
+			// The note may have been edited since the selection was read
+			markSource = () => {
+				const offset = relocateBlockInsert(source.text, editor.getValue(), insert.offset);
+				if (offset === undefined) {
+					new Notice("The explained passage has changed, so it was not marked for the note's link.");
+					return;
+				}
+				editor.replaceRange(insert.text, editor.offsetToPos(offset));
+			};
+		}
+	}
+
+	const { noteTemplatePath } = plugin.settings;
+	let bodyTemplate = "";
+	if (noteTemplatePath.trim()) {
+		const templatePath = normalizePath(noteTemplatePath.trim().replace(/(\.md)?$/, ".md"));
+		const templateFile = app.vault.getAbstractFileByPath(templatePath);
+		if (templateFile instanceof TFile) {
+			bodyTemplate = await app.vault.read(templateFile);
+		} else {
+			new Notice(`Note template not found: ${templatePath}`);
+		}
+	}
+
+	const note = buildSavedNote(plugin.settings, input, bodyTemplate);
+	const fileName = note.fileName;
+	const parentPath = note.folder;
+	const fullText = formatSavedNote(note);
+	const fullPath = parentPath
+		? `${parentPath}/${fileName}.md`
+		: `${fileName}.md`;
+
+	try {
+		if (parentPath && !(await app.vault.adapter.exists(parentPath))) {
+			await app.vault.createFolder(parentPath);
+		}
+		const exists = await app.vault.adapter.exists(fullPath);
 
-// In-memory model cache per provider
-const modelCache: Record<string, ModelInfo[]> = {};
-
-async function fetchModelsForProvider(
-	provider: string,
-	apiKey?: string,
-	baseURL?: string
-): Promise<ModelInfo[]> {
-	if (modelCache[provider]) return modelCache[provider];
-
-	let models: ModelInfo[];
-	switch (provider) {
-		case "openrouter": {
-			const response = await requestUrl({
-				url: "https://openrouter.ai/api/v1/models",
-				method: "GET",
-			});
-			models = parseOpenRouterModels(response.json);
-			break;
-		}
-		case "openai": {
-			if (!apiKey) {
-				throw new Error("OpenAI API key is required to fetch models.");
-			}
-			const response = await requestUrl({
-				url: "https://api.openai.com/v1/models",
-				method: "GET",
-				headers: {
-					Authorization: `Bearer ${apiKey}`,
+		if (exists) {
+			// Note already exists — let the user choose
+			const choiceEl = choiceContainer.createEl("div", {
+				attr: {
+					style: "margin-top: 15px; padding: 12px; border: 1px solid var(--background-modifier-border); border-radius: 8px; background-color: var(--background-secondary);",
 				},
 			});
-			models = filterOpenAIModels(response.json.data || []);
-			break;
-		}
-		case "ollama": {
-			const ollamaUrl = deriveOllamaBaseUrl(baseURL || "");
-			const response = await requestUrl({
-				url: `${ollamaUrl}/api/tags`,
-				method: "GET",
+			choiceEl.createEl("p", {
+				text: `A note named "${fileName}.md" already exists.`,
+				attr: { style: "margin: 0 0 10px 0; font-weight: bold;" },
+			});
+			const btnRow = choiceEl.createEl("div", {
+				attr: { style: "display: flex; gap: 10px;" },
+			});
+
+			const handleChoice = async (mode: "append" | "new") => {
+				choiceEl.remove();
+				try {
+					let finalPath = fullPath;
+					if (mode === "append") {
+						const existing = await app.vault.adapter.read(fullPath);
+						await app.vault.adapter.write(fullPath, appendSavedNote(existing, note));
+						new Notice(`Appended to ${fullPath}`);
+					} else {
+						let counter = 1;
+						while (await app.vault.adapter.exists(finalPath)) {
+							finalPath = parentPath
+								? `${parentPath}/${fileName} ${counter}.md`
+								: `${fileName} ${counter}.md`;
+							counter++;
+						}
+						await app.vault.create(finalPath, fullText);
+						new Notice(`Saved to ${finalPath}`);
+					}
+					markSource();
+					onSaved(finalPath);
+				} catch (err) {
+					new Notice("Failed to save note.");
+					console.error(err);
+				}
+			};
+
+			const appendBtn = btnRow.createEl("button", {
+				text: "Append to existing",
+				cls: "mod-cta",
 			});
-			models = parseOllamaModels(response.json);
-			break;
+			appendBtn.addEventListener("click", () => handleChoice("append"));
+
+			const newBtn = btnRow.createEl("button", {
+				text: "Create numbered copy",
+			});
+			newBtn.addEventListener("click", () => handleChoice("new"));
+			return;
+		}
+
+		await app.vault.create(fullPath, fullText);
+		new Notice(`Saved to ${fullPath}`);
+		markSource();
+		onSaved(fullPath);
+	} catch (err) {
+		new Notice("Failed to save note.");
+		console.error(err);
+	}
+}
+
+/**
+ * The selection a prompt runs on: from an editor, or from the DOM in
+ * reading view, the PDF viewer or a canvas card.
+ */
+interface SelectionSource {
+	selection: string;
+	/** Text the context is taken from, and the selection's range in it. */
+	text: string;
+	from: number;
+	to: number;
+	/** Only set for editor selections; enables in-place output actions. */
+	editor: Editor | null;
+	file: TFile | null;
+	/** Place in the file to link back to, e.g. "page=3" in a PDF. */
+	subpath?: string;
+	/** Screen rectangle of the selection, where a popover is shown. */
+	anchor: DOMRect | null;
+}
+
+// Element around a DOM selection whose text is used as the context, by view type
+const SELECTION_BLOCK_SELECTORS: Record<string, string> = {
+	markdown: ".markdown-preview-section > *",
+	pdf: ".textLayer",
+	canvas: ".canvas-node-content",
+};
+
+/**
+ * Screen rectangle of a range, or null when it isn't laid out (e.g. hidden).
+ */
+function rangeRect(range: Range | null): DOMRect | null {
+	const rect = range?.getBoundingClientRect();
+	return rect && (rect.width > 0 || rect.height > 0) ? rect : null;
+}
+
+function editorSelection(editor: Editor, file: TFile | null): SelectionSource | null {
+	const selection = editor.getSelection();
+	if (!selection) return null;
+	// The editor mirrors its selection in the DOM while it has focus
+	const current = document.getSelection();
+	return {
+		selection,
+		text: editor.getValue(),
+		from: editor.posToOffset(editor.getCursor("from")),
+		to: editor.posToOffset(editor.getCursor("to")),
+		editor,
+		file,
+		anchor: current && current.rangeCount > 0 ? rangeRect(current.getRangeAt(0)) : null,
+	};
+}
+
+/**
+ * Selection for a DOM range inside view. The context text is the rendered
+ * block, PDF page or canvas card around it, or the whole view when the
+ * range spans several of them.
+ */
+function domSelection(view: ItemView, range: Range, file: TFile | null): SelectionSource | null {
+	const selection = range.toString().trim();
+	const common = range.commonAncestorContainer;
+	if (!selection || !view.containerEl.contains(common)) return null;
+
+	const commonEl = common instanceof HTMLElement ? common : common.parentElement;
+	const blockSelector = SELECTION_BLOCK_SELECTORS[view.getViewType()];
+	const block = (blockSelector && commonEl?.closest<HTMLElement>(blockSelector)) || view.contentEl;
+	const before = block.doc.createRange();
+	before.selectNodeContents(block);
+	before.setEnd(range.startContainer, range.startOffset);
+
+	// Text inside an embedded note belongs to that note, not the one embedding it
+	const embedSrc = commonEl?.closest<HTMLElement>(".internal-embed[src]")?.getAttribute("src");
+	const embedded = embedSrc && file
+		? view.app.metadataCache.getFirstLinkpathDest(getLinkpath(embedSrc), file.path)
+		: null;
+
+	const text = block.textContent ?? "";
+	const from = before.toString().length;
+	const page = commonEl?.closest<HTMLElement>(".page")?.dataset.pageNumber;
+	return {
+		selection,
+		text,
+		from,
+		to: Math.min(text.length, from + range.toString().length),
+		editor: null,
+		file: embedded ?? file,
+		subpath: view.getViewType() === "pdf" && page ? `page=${page}` : undefined,
+		anchor: rangeRect(range),
+	};
+}
+
+/**
+ * Everything a prompt template can refer to for one selection.
+ */
+interface PromptInputs {
+	context: string;
+	noteVariables: NoteVariables;
+	includedNotes: string[];
+	/** Context window (tokens) the context was trimmed to fit, if it was. */
+	trimmedToWindow?: number;
+	/** Images embedded in the selection, ready to send. */
+	images: ChatImage[];
+	/** Embedded images left out, with the reason, e.g. "a.png (not found)". */
+	skippedImages: string[];
+}
+
+/**
+ * Decode an image and downscale it so neither side exceeds maxDimension.
+ * Images that already fit are sent unchanged; scaled ones are re-encoded
+ * as JPEG (photos) or PNG.
+ */
+async function encodeImage(
+	data: ArrayBuffer,
+	mimeType: string,
+	maxDimension: number
+): Promise<Omit<ChatImage, "path">> {
+	const bitmap = await createImageBitmap(new Blob([data], { type: mimeType }));
+	try {
+		const size = fitImageSize(bitmap.width, bitmap.height, maxDimension);
+		if (size.width === bitmap.width && size.height === bitmap.height) {
+			return { mimeType, data: arrayBufferToBase64(data), ...size };
+		}
+		const canvas = document.createElement("canvas");
+		canvas.width = size.width;
+		canvas.height = size.height;
+		canvas.getContext("2d")?.drawImage(bitmap, 0, 0, size.width, size.height);
+		const outputType = mimeType === "image/jpeg" ? "image/jpeg" : "image/png";
+		const url = canvas.toDataURL(outputType, 0.9);
+		return { mimeType: outputType, data: url.substring(url.indexOf(",") + 1), ...size };
+	} finally {
+		bitmap.close();
+	}
+}
+
+/**
+ * Note the images sent with a prompt and those left out, under the
+ * modal's header. textOnlyModel names a model that can't read images.
+ */
+function renderImageNotes(containerEl: HTMLElement, inputs: Pick<PromptInputs, "images" | "skippedImages">, textOnlyModel?: string) {
+	const names = inputs.images.map((image) => image.path.substring(image.path.lastIndexOf("/") + 1));
+	if (names.length > 0 && textOnlyModel) {
+		containerEl.createEl("div", {
+			cls: "explain-selection-image-warning",
+			text: `${textOnlyModel} can't read images; not sent: ${names.join(", ")}`,
+		});
+	} else if (names.length > 0) {
+		containerEl.createEl("div", {
+			cls: "explain-selection-linked-notes",
+			text: `Images included: ${names.join(", ")}`,
+		});
+	}
+	if (inputs.skippedImages.length > 0) {
+		containerEl.createEl("div", {
+			cls: "explain-selection-image-warning",
+			text: `Images skipped: ${inputs.skippedImages.join(", ")}`,
+		});
+	}
+}
+
+interface StreamResult {
+	/** Full answer, including any text the stream continued from. */
+	text: string;
+	/** The model's reasoning, including any the stream continued from; "" when none. */
+	reasoning: string;
+	stats: TurnStats;
+	stopped: boolean;
+	/** Profile that produced the answer; differs when a fallback answered. */
+	profile: ProviderProfile;
+	/** Set when the stream failed after text arrived; text keeps the partial answer. */
+	error?: unknown;
+}
+
+interface StreamOptions {
+	/** Text already shown, when continuing an interrupted answer. */
+	initialText?: string;
+	/** Reasoning of the answer being continued. */
+	initialReasoning?: string;
+	/** Fall through the configured fallback chain when the request fails. */
+	useFallbacks?: boolean;
+}
+
+/**
+ * Renders a growing Markdown answer into containerEl one block at a time:
+ * finished blocks are rendered once and only the block still being written
+ * is rendered again, so long answers don't flicker or lose the selection.
+ */
+class StreamingMarkdownRenderer {
+	private plugin: ExplainSelectionWithAiPlugin;
+	private containerEl: HTMLElement;
+	private blocks: Array<{ text: string; el: HTMLElement }> = [];
+
+	constructor(plugin: ExplainSelectionWithAiPlugin, containerEl: HTMLElement) {
+		this.plugin = plugin;
+		this.containerEl = containerEl;
+	}
+
+	render(text: string) {
+		const texts = splitMarkdownBlocks(text);
+		let same = 0;
+		while (same < this.blocks.length && same < texts.length && this.blocks[same].text === texts[same]) {
+			same++;
+		}
+		for (const block of this.blocks.splice(same)) {
+			block.el.remove();
+		}
+		for (const blockText of texts.slice(same)) {
+			const el = this.containerEl.createEl("div");
+			MarkdownRenderer.render(this.plugin.app, blockText, el, "/", this.plugin);
+			this.blocks.push({ text: blockText, el });
+		}
+	}
+}
+
+/**
+ * Collapsible "Thinking" section for a model's reasoning, added to parentEl
+ * (before beforeEl when given). Collapsed unless open.
+ */
+function createThinkingSection(
+	plugin: ExplainSelectionWithAiPlugin,
+	parentEl: HTMLElement,
+	open = false,
+	beforeEl?: HTMLElement
+): { detailsEl: HTMLDetailsElement; renderer: StreamingMarkdownRenderer } {
+	const detailsEl = parentEl.createEl("details", { cls: "explain-selection-thinking" });
+	if (beforeEl) {
+		parentEl.insertBefore(detailsEl, beforeEl);
+	}
+	detailsEl.open = open;
+	detailsEl.createEl("summary", { text: "Thinking" });
+	const bodyEl = detailsEl.createEl("div", { cls: "explain-selection-thinking-body selectable_text" });
+	return { detailsEl, renderer: new StreamingMarkdownRenderer(plugin, bodyEl) };
+}
+
+/**
+ * Stream a chat completion into contentBox, rendering Markdown as it
+ * arrives. Reasoning, whether sent separately or in <think> tags, streams
+ * into a "Thinking" section above the answer. Transient failures are retried and, with useFallbacks, handed to
+ * the fallback chain. Aborting via signal keeps the partial text and sets
+ * stopped; a failure after text arrived keeps it and sets error.
+ */
+async function streamChatInto(
+	plugin: ExplainSelectionWithAiPlugin,
+	profile: ProviderProfile,
+	model: string,
+	messages: ChatMessage[],
+	contentBox: HTMLElement,
+	signal: AbortSignal,
+	options: StreamOptions = {}
+): Promise<StreamResult> {
+	const initialText = options.initialText ?? "";
+	let rollingText = initialText;
+	let reasoning = options.initialReasoning ?? "";
+	// This request's raw content and separately streamed reasoning
+	let content = "";
+	let reasoningDeltas = "";
+	let promptTokens = 0;
+	let completionTokens = 0;
+	let reasoningTokens: number | undefined;
+	const startTime = Date.now();
+	let firstTokenTime: number | null = null;
+	let lastRenderTime = 0;
+	const RENDER_THROTTLE_MS = 50; // Throttle rendering to avoid UI lock on long outputs
+
+	const budget = await plugin.ledger.budgetStatus();
+	if (budget.level === "exceeded" && plugin.settings.budgetHardLimit) {
+		throw new BudgetExceededError(budget.message);
+	}
+
+	const chain = options.useFallbacks
+		? resolveFallbackChain(plugin.settings, profile, model)
+		: [{ profile, model }];
+	const targets: StreamTarget[] = chain.map((c) => {
+		const targetModel = c.model || getProviderConfig(c.profile).model;
+		const modelInfo = plugin.modelCatalog.cached(c.profile).find((m) => m.id === targetModel);
+		return {
+			adapter: getProvider(c.profile.provider),
+			settings: c.profile,
+			model: targetModel,
+			// Text-only models reject requests with images
+			textOnly: supportsImageInput(modelInfo) === false,
+		};
+	});
+	let answering = 0;
+
+	contentBox.empty();
+	const answerEl = contentBox.createEl("div");
+	const renderer = new StreamingMarkdownRenderer(plugin, answerEl);
+	let thinking: ReturnType<typeof createThinkingSection> | null = null;
+	let thinkingCollapsed = false;
+
+	// Split the reasoning off what has streamed so far and show both
+	const render = () => {
+		const split = splitThinkTags(content);
+		rollingText = initialText + split.answer;
+		reasoning = [options.initialReasoning, reasoningDeltas.trim(), split.reasoning].filter(Boolean).join("\n\n");
+		if (reasoning) {
+			if (!thinking) {
+				thinking = createThinkingSection(plugin, contentBox, true, answerEl);
+			}
+			thinking.renderer.render(reasoning);
+			// Fold the reasoning away once the answer starts
+			if (rollingText && !thinkingCollapsed) {
+				thinking.detailsEl.open = false;
+				thinkingCollapsed = true;
+			}
+		} else if (thinking) {
+			thinking.detailsEl.remove();
+			thinking = null;
+		}
+		renderer.render(rollingText);
+	};
+	render();
+
+	// Status lines only appear before any new text, below the initial text.
+	// A retry starts over, so reasoning shown so far is dropped.
+	let statusEl: HTMLElement | null = null;
+	const clearStatus = () => {
+		statusEl?.remove();
+		statusEl = null;
+	};
+	const showStatus = (status: string) => {
+		clearStatus();
+		if (reasoningDeltas) {
+			reasoningDeltas = "";
+			render();
+		}
+		statusEl = contentBox.createEl("div", { cls: "explain-selection-status", text: status });
+	};
+
+	let error: unknown;
+	try {
+		const chunks = streamWithFallback(targets, messages, obsidianHttp, {
+			maxRetries: plugin.settings.maxRetries,
+			baseDelayMs: plugin.settings.retryBaseDelayMs,
+			maxDelayMs: MAX_RETRY_DELAY_MS,
+			signal,
+			onRetry: ({ target, attempt, delayMs, error }) => {
+				showStatus(
+					`${targets[target].model}: ${describeRequestError(error)}. ` +
+					`Retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt} of ${plugin.settings.maxRetries})…`
+				);
+			},
+			onFallback: ({ from, to, error }) => {
+				answering = to;
+				showStatus(
+					`${targets[from].model} failed: ${describeRequestError(error)}. ` +
+					`Trying ${chain[to].profile.name} · ${targets[to].model}…`
+				);
+			},
+		});
+
+		for await (const chunk of chunks) {
+			if (chunk.text || chunk.reasoning) {
+				if (firstTokenTime === null) {
+					firstTokenTime = Date.now();
+				}
+				content += chunk.text ?? "";
+				reasoningDeltas += chunk.reasoning ?? "";
+				clearStatus();
+
+				// Throttle rendering to avoid UI lock on long outputs
+				const now = Date.now();
+				if (now - lastRenderTime >= RENDER_THROTTLE_MS) {
+					render();
+					lastRenderTime = now;
+				}
+			}
+
+			if (chunk.usage) {
+				promptTokens = chunk.usage.promptTokens;
+				completionTokens = chunk.usage.completionTokens;
+				reasoningTokens = chunk.usage.reasoningTokens;
+			}
+		}
+	} catch (err: unknown) {
+		render();
+		if (!signal.aborted) {
+			if (!rollingText) {
+				contentBox.empty();
+				throw err;
+			}
+			error = err;
 		}
-		default:
-			throw new Error(`No model fetching for provider: ${provider}`);
 	}
-	
-	// Cache the fetched models
-	modelCache[provider] = models;
-	return models;
+
+	// Final render to ensure all content is displayed
+	clearStatus();
+	render();
+
+	const endTime = Date.now();
+	const answered = chain[answering].profile;
+	const answeredModel = targets[answering].model;
+	const cachedModels = plugin.modelCatalog.cached(answered);
+	// Without a fetched model list, providers can still price by model id
+	const modelInfo = cachedModels.find(m => m.id === answeredModel) ?? { id: answeredModel };
+	const stats: TurnStats = {
+		model: answeredModel,
+		fallbackFrom: answering > 0 ? targets[0].model : undefined,
+		promptTokens,
+		completionTokens,
+		reasoningTokens,
+		cost: targets[answering].adapter.calculateCost(modelInfo, { promptTokens, completionTokens }),
+		durationMs: endTime - startTime,
+		ttftMs: firstTokenTime ? firstTokenTime - startTime : 0,
+	};
+	// A request stopped before anything arrived has nothing to charge
+	if (!signal.aborted || content || reasoningDeltas || promptTokens) {
+		await plugin.ledger.record(answered.provider, answeredModel, stats);
+	}
+
+	return {
+		text: rollingText,
+		reasoning,
+		stopped: signal.aborted,
+		profile: answered,
+		error,
+		stats,
+	};
+}
+
+/**
+ * Short description of a request error: its message and HTTP status.
+ */
+function describeRequestError(err: unknown): string {
+	let description = err instanceof Error ? err.message : "Request failed";
+	if (err && typeof err === "object" && "status" in err) {
+		description += ` (Status: ${(err as { status: number }).status})`;
+	}
+	return description;
+}
+
+/**
+ * Replace a response box's content with a request error.
+ */
+function renderRequestError(contentBox: HTMLElement, err: unknown) {
+	contentBox.toggleClass("selectable_text", false);
+
+	const content = contentBox.createEl("p");
+	content.toggleClass("error_text", true);
+	if (err instanceof BudgetExceededError) {
+		content.setText(`${err.message} Requests are paused until the budget resets or is raised in settings.`);
+		return;
+	}
+
+	let errorMessage = "There was an issue with the request. Please ensure plugin configuration settings are correct and try again.";
+
+	if (err instanceof Error) {
+		errorMessage += `\n\nError: ${describeRequestError(err)}`;
+	}
+
+	content.setText(errorMessage);
 }
 
 class ModelPickerModal extends Modal {
-	private provider: string;
-	private apiKey?: string;
-	private baseURL?: string;
+	private plugin: ExplainSelectionWithAiPlugin;
+	private profile: ProviderProfile;
 	private onSelect: (modelId: string) => void;
 
 	constructor(
 		app: App,
-		provider: string,
-		onSelect: (modelId: string) => void,
-		apiKey?: string,
-		baseURL?: string
+		plugin: ExplainSelectionWithAiPlugin,
+		profile: ProviderProfile,
+		onSelect: (modelId: string) => void
 	) {
 		super(app);
-		this.provider = provider;
+		this.plugin = plugin;
+		this.profile = profile;
 		this.onSelect = onSelect;
-		this.apiKey = apiKey;
-		this.baseURL = baseURL;
 	}
 
 	async onOpen() {
 		const { contentEl } = this;
 		this.setTitle("Select Model");
+		this.modalEl.addClass("model-picker-modal");
 
 		// Inject styles
 		const style = document.createElement("style");
 		style.textContent = `
+			.model-picker-modal {
+				width: min(900px, 95vw);
+			}
+			.model-picker-controls {
+				display: flex;
+				gap: 8px;
+				align-items: center;
+				margin-bottom: 8px;
+			}
 			.model-picker-search {
-				width: 100%;
+				flex: 1;
 				padding: 8px 12px;
-				margin-bottom: 8px;
 				border: 1px solid var(--background-modifier-border);
 				border-radius: 6px;
 				background: var(--background-primary);
@@ -124,8 +1083,25 @@ class ModelPickerModal extends Modal {
 				border: 1px solid var(--background-modifier-border);
 				border-radius: 6px;
 			}
-			.model-picker-item {
+			.model-picker-item,
+			.model-picker-columns {
+				display: grid;
+				grid-template-columns: 24px minmax(0, 1fr) 64px 72px 72px 120px;
+				gap: 8px;
+				align-items: center;
 				padding: 8px 12px;
+			}
+			.model-picker-columns {
+				position: sticky;
+				top: 0;
+				z-index: 1;
+				padding-top: 4px;
+				padding-bottom: 4px;
+				background: var(--background-secondary);
+				font-size: 11px;
+				color: var(--text-muted);
+			}
+			.model-picker-item {
 				cursor: pointer;
 				border-bottom: 1px solid var(--background-modifier-border);
 			}
@@ -135,16 +1111,40 @@ class ModelPickerModal extends Modal {
 			.model-picker-item:hover {
 				background: var(--background-modifier-hover);
 			}
+			.model-picker-item.is-active {
+				background: var(--background-modifier-active-hover);
+			}
 			.model-picker-item-id {
 				font-weight: 500;
 				color: var(--text-normal);
 				font-size: 13px;
+				overflow-wrap: anywhere;
 			}
 			.model-picker-item-name {
 				font-size: 11px;
 				color: var(--text-muted);
 				margin-top: 2px;
 			}
+			.model-picker-item-meta {
+				font-size: 12px;
+				color: var(--text-muted);
+				text-align: right;
+				overflow-wrap: anywhere;
+			}
+			.model-picker-star {
+				color: var(--text-faint);
+				cursor: pointer;
+			}
+			.model-picker-star.is-favourite {
+				color: var(--text-accent);
+			}
+			.model-picker-section {
+				padding: 6px 12px 2px;
+				font-size: 11px;
+				font-weight: 600;
+				text-transform: uppercase;
+				color: var(--text-muted);
+			}
 			.model-picker-status {
 				padding: 16px;
 				text-align: center;
@@ -155,85 +1155,219 @@ class ModelPickerModal extends Modal {
 				text-align: center;
 				color: var(--text-error);
 			}
-			.model-picker-count {
+			.model-picker-header {
+				display: flex;
+				justify-content: space-between;
+				align-items: center;
+				margin-bottom: 4px;
+			}
+			.model-picker-count,
+			.model-picker-hint {
 				font-size: 11px;
 				color: var(--text-muted);
-				margin-bottom: 4px;
+			}
+			.model-picker-hint {
+				margin-top: 6px;
+			}
+			@media (max-width: 600px) {
+				.model-picker-item,
+				.model-picker-columns {
+					grid-template-columns: 24px minmax(0, 1fr) 64px;
+				}
+				.model-picker-item > :nth-child(n+4),
+				.model-picker-columns > :nth-child(n+4) {
+					display: none;
+				}
 			}
 		`;
 		contentEl.appendChild(style);
 
-		const searchInput = contentEl.createEl("input", {
+		const controlsEl = contentEl.createEl("div", { cls: "model-picker-controls" });
+		const searchInput = controlsEl.createEl("input", {
 			cls: "model-picker-search",
 			attr: { type: "text", placeholder: "Search models..." },
 		});
+		const sortDropdown = new DropdownComponent(controlsEl)
+			.addOption("relevance", "Best match")
+			.addOption("name", "Name")
+			.addOption("price", "Price (cheapest)")
+			.addOption("context", "Context (largest)")
+			.onChange(() => renderModels());
 
-		const countEl = contentEl.createEl("div", { cls: "model-picker-count" });
+		const headerEl = contentEl.createEl("div", { cls: "model-picker-header" });
+		const countEl = headerEl.createEl("div", { cls: "model-picker-count" });
+		const refreshButton = headerEl.createEl("button", { text: "Refresh" });
 		const listEl = contentEl.createEl("div", { cls: "model-picker-list" });
-
-		// Show loading
-		listEl.createEl("div", {
-			cls: "model-picker-status",
-			text: "Loading models...",
+		contentEl.createEl("div", {
+			cls: "model-picker-hint",
+			text: "↑↓ navigate · Enter select · Shift+Enter star/unstar · Esc close",
 		});
 
+		const settings = this.plugin.settings;
+		const keyOf = (model: ModelInfo) => modelKey(this.profile.provider, model.id);
 		let allModels: ModelInfo[] = [];
+		// Rows in display order; a model can appear in more than one section
+		let rows: Array<{ el: HTMLElement; model: ModelInfo }> = [];
+		let active = -1;
 
-		const renderModels = (filter: string) => {
-			listEl.empty();
-			const filtered = filterModels(allModels, filter);
+		const setActive = (index: number) => {
+			if (rows.length === 0) return;
+			rows[active]?.el.removeClass("is-active");
+			active = Math.max(0, Math.min(rows.length - 1, index));
+			rows[active].el.addClass("is-active");
+			rows[active].el.scrollIntoView({ block: "nearest" });
+		};
 
-			countEl.setText(`${filtered.length} of ${allModels.length} models`);
+		const choose = async (model: ModelInfo) => {
+			settings.recentModels = pushRecentModel(settings.recentModels, keyOf(model));
+			await this.plugin.saveSettings();
+			this.onSelect(model.id);
+			this.close();
+		};
 
-			if (filtered.length === 0) {
-				listEl.createEl("div", {
-					cls: "model-picker-status",
-					text: filter ? "No models match your search." : "No models found.",
-				});
-				return;
+		const toggleFavourite = async (model: ModelInfo) => {
+			settings.favouriteModels = toggleFavouriteModel(settings.favouriteModels, keyOf(model));
+			await this.plugin.saveSettings();
+			const current = rows[active]?.model;
+			renderModels();
+			// Keep the cursor on the same model where it is still listed
+			const index = rows.findIndex((r) => r.model === current);
+			if (index !== -1) setActive(index);
+		};
+
+		const renderRow = (model: ModelInfo) => {
+			const index = rows.length;
+			const favourite = settings.favouriteModels.includes(keyOf(model));
+			const item = listEl.createEl("div", { cls: "model-picker-item" });
+			const star = item.createEl("span", {
+				cls: favourite ? "model-picker-star is-favourite" : "model-picker-star",
+				text: favourite ? "★" : "☆",
+				attr: { "aria-label": favourite ? "Remove from favourites" : "Add to favourites" },
+			});
+			star.addEventListener("click", (evt) => {
+				evt.stopPropagation();
+				toggleFavourite(model);
+			});
+
+			const main = item.createEl("div");
+			main.createEl("div", { cls: "model-picker-item-id", text: model.id });
+			if (model.name && model.name !== model.id) {
+				main.createEl("div", { cls: "model-picker-item-name", text: model.name });
 			}
+			item.createEl("div", { cls: "model-picker-item-meta", text: formatContextLength(model.contextLength) });
+			item.createEl("div", { cls: "model-picker-item-meta", text: formatPricePerMillion(model.pricing?.prompt) });
+			item.createEl("div", { cls: "model-picker-item-meta", text: formatPricePerMillion(model.pricing?.completion) });
+			item.createEl("div", { cls: "model-picker-item-meta", text: model.modality ?? "—" });
 
-			for (const model of filtered) {
-				const item = listEl.createEl("div", { cls: "model-picker-item" });
-				item.createEl("div", {
-					cls: "model-picker-item-id",
-					text: model.id,
+			item.addEventListener("click", () => choose(model));
+			item.addEventListener("mousemove", () => {
+				if (active !== index) setActive(index);
+			});
+			rows.push({ el: item, model });
+		};
+
+		const renderModels = () => {
+			listEl.empty();
+			rows = [];
+			active = -1;
+			const query = searchInput.value;
+			const sort = sortDropdown.getValue() as ModelSort;
+			const filtered = sortModels(filterModels(allModels, query), sort);
+
+			const fetchedAt = this.plugin.modelCatalog.fetchedAt(this.profile);
+			countEl.setText(`${filtered.length} of ${allModels.length} models` +
+				(fetchedAt ? ` · updated ${new Date(fetchedAt).toLocaleString()}` : ""));
+
+			if (filtered.length === 0) {
+				listEl.createEl("div", {
+					cls: "model-picker-status",
+					text: query ? "No models match your search." : "No models found.",
 				});
-				if (model.name && model.name !== model.id) {
-					item.createEl("div", {
-						cls: "model-picker-item-name",
-						text: model.name,
-					});
+				return;
+			}
+
+			const columns = listEl.createEl("div", { cls: "model-picker-columns" });
+			for (const label of ["", "Model", "Context", "In $/M", "Out $/M", "Modality"]) {
+				columns.createEl("div", { text: label, cls: label === "Model" || !label ? "" : "model-picker-item-meta" });
+			}
+
+			const favourites = filtered.filter((m) => settings.favouriteModels.includes(keyOf(m)));
+			const recent = settings.recentModels
+				.map((key) => filtered.find((m) => keyOf(m) === key))
+				.filter((m): m is ModelInfo => m !== undefined && !favourites.includes(m));
+
+			const sections: Array<[string, ModelInfo[]]> = [
+				["Favourites", favourites],
+				["Recently used", recent],
+			];
+			if (favourites.length > 0 || recent.length > 0) {
+				sections.push([query ? "All matches" : "All models", filtered]);
+			} else {
+				sections.push(["", filtered]);
+			}
+			for (const [title, models] of sections) {
+				if (models.length === 0) continue;
+				if (title) {
+					listEl.createEl("div", { cls: "model-picker-section", text: title });
 				}
-				item.addEventListener("click", () => {
-					this.onSelect(model.id);
-					this.close();
-				});
+				models.forEach(renderRow);
 			}
+			setActive(0);
+			listEl.scrollTop = 0;
 		};
 
-		try {
-			allModels = await fetchModelsForProvider(
-				this.provider,
-				this.apiKey,
-				this.baseURL
-			);
-			renderModels("");
-		} catch (err: unknown) {
+		// refresh bypasses the stored list even if it has not expired yet
+		const loadModels = async (refresh: boolean) => {
 			listEl.empty();
-			const errMsg =
-				err instanceof Error ? err.message : "Failed to fetch models.";
+			rows = [];
 			listEl.createEl("div", {
-				cls: "model-picker-error",
-				text: `Error: ${errMsg}`,
+				cls: "model-picker-status",
+				text: "Loading models...",
 			});
-			countEl.setText("");
-		}
+			refreshButton.disabled = true;
+			try {
+				allModels = await this.plugin.modelCatalog.models(this.profile, refresh);
+				renderModels();
+			} catch (err: unknown) {
+				listEl.empty();
+				const errMsg =
+					err instanceof Error ? err.message : "Failed to fetch models.";
+				listEl.createEl("div", {
+					cls: "model-picker-error",
+					text: `Error: ${errMsg}`,
+				});
+				countEl.setText("");
+			} finally {
+				refreshButton.disabled = false;
+			}
+		};
 
-		searchInput.addEventListener("input", () => {
-			renderModels(searchInput.value);
+		refreshButton.addEventListener("click", () => loadModels(true));
+		searchInput.addEventListener("input", () => renderModels());
+		searchInput.addEventListener("keydown", (evt: KeyboardEvent) => {
+			const pageSize = 10;
+			if (evt.key === "ArrowDown") {
+				setActive(active + 1);
+			} else if (evt.key === "ArrowUp") {
+				setActive(active - 1);
+			} else if (evt.key === "PageDown") {
+				setActive(active + pageSize);
+			} else if (evt.key === "PageUp") {
+				setActive(active - pageSize);
+			} else if (evt.key === "Enter" && rows[active]) {
+				if (evt.shiftKey) {
+					toggleFavourite(rows[active].model);
+				} else {
+					choose(rows[active].model);
+				}
+			} else {
+				return;
+			}
+			evt.preventDefault();
 		});
 
+		loadModels(false);
+
 		// Auto-focus search
 		searchInput.focus();
 	}
@@ -243,114 +1377,665 @@ class ModelPickerModal extends Modal {
 	}
 }
 
+/**
+ * Picks the note an answer is appended to.
+ */
+class NoteSuggestModal extends FuzzySuggestModal<TFile> {
+	private onChoose: (file: TFile) => void;
+
+	constructor(app: App, onChoose: (file: TFile) => void) {
+		super(app);
+		this.onChoose = onChoose;
+		this.setPlaceholder("Append to note...");
+	}
+
+	getItems(): TFile[] {
+		return this.app.vault.getMarkdownFiles();
+	}
+
+	getItemText(file: TFile): string {
+		return file.path;
+	}
+
+	onChooseItem(file: TFile) {
+		this.onChoose(file);
+	}
+}
+
+/**
+ * Picks the heading of file to append under. Typing a heading that does
+ * not exist offers to create it; "" means the end of the note.
+ */
+class HeadingSuggestModal extends SuggestModal<string> {
+	private headings: string[];
+	private onChoose: (heading: string) => void;
+
+	constructor(app: App, file: TFile, onChoose: (heading: string) => void) {
+		super(app);
+		this.headings = (app.metadataCache.getFileCache(file)?.headings ?? []).map((h) => h.heading);
+		this.onChoose = onChoose;
+		this.setPlaceholder(`Heading in ${file.basename}, or a new one...`);
+	}
+
+	getSuggestions(query: string): string[] {
+		const lower = query.trim().toLowerCase();
+		const matches = this.headings.filter((h) => h.toLowerCase().includes(lower));
+		if (lower && !this.headings.some((h) => h.toLowerCase() === lower)) {
+			matches.push(query.trim());
+		}
+		return lower ? matches : ["", ...matches];
+	}
+
+	renderSuggestion(heading: string, el: HTMLElement) {
+		if (!heading) {
+			el.setText("End of note");
+		} else if (this.headings.includes(heading)) {
+			el.setText(heading);
+		} else {
+			el.setText(`New heading: ${heading}`);
+		}
+	}
+
+	onChooseSuggestion(heading: string) {
+		this.onChoose(heading);
+	}
+}
+
+/**
+ * Picker for the "Switch AI profile" command.
+ */
+class ProfileSuggestModal extends SuggestModal<ProviderProfile> {
+	private plugin: ExplainSelectionWithAiPlugin;
+
+	constructor(app: App, plugin: ExplainSelectionWithAiPlugin) {
+		super(app);
+		this.plugin = plugin;
+		this.setPlaceholder("Switch AI profile...");
+	}
+
+	getSuggestions(query: string): ProviderProfile[] {
+		const lower = query.toLowerCase();
+		return this.plugin.settings.profiles.filter((p) => p.name.toLowerCase().includes(lower));
+	}
+
+	renderSuggestion(profile: ProviderProfile, el: HTMLElement) {
+		const active = profile.id === this.plugin.settings.activeProfileId;
+		el.createEl("div", { text: active ? `${profile.name} (active)` : profile.name });
+		el.createEl("small", {
+			text: `${getProvider(profile.provider).label} · ${getProviderConfig(profile).model}`,
+		});
+	}
+
+	async onChooseSuggestion(profile: ProviderProfile) {
+		await this.plugin.setActiveProfile(profile.id);
+		new Notice(`AI profile: ${profile.name}`);
+	}
+}
+
 export default class ExplainSelectionWithAiPlugin extends Plugin {
 	settings: ExplainSelectionWithAiPluginSettings;
+	responseCache: ResponseCacheStore;
+	history: HistoryStore;
+	ledger: LedgerStore;
+	modelCatalog: ModelCatalogStore;
+
+	private registeredPromptCommands: string[] = [];
+	private statusBarEl: HTMLElement | null = null;
+	// Last non-empty DOM selection in a view; kept while focus moves to
+	// e.g. the command palette
+	private lastDomRange: Range | null = null;
 
 	async onload() {
 		await this.loadSettings();
+		this.responseCache = new ResponseCacheStore(this);
+		this.history = new HistoryStore(this);
+		this.ledger = new LedgerStore(this);
+		this.modelCatalog = new ModelCatalogStore(this);
+		// Fetch the active profile's models in the background so pricing is
+		// known from the first request
+		this.app.workspace.onLayoutReady(() => this.preloadModels());
+
+		this.registerView(
+			VIEW_TYPE_HISTORY,
+			(leaf) => new ExplanationHistoryView(leaf, this)
+		);
+
+		this.addCommand({
+			id: "open-explanation-history",
+			name: "Open explanation history",
+			callback: () => this.activateHistoryView(),
+		});
 
 		this.addCommand({
-			id: "explain-selection-with-ai",
-			name: "Explain selection with AI",
-			editorCallback: (editor: Editor) => {
-				const selection = editor.getSelection();
-				if (!selection) {
+			id: "compare-explanations",
+			name: "Compare explanations",
+			checkCallback: (checking: boolean) => {
+				if (!this.canReadSelection()) return false;
+				if (checking) return true;
+				const source = this.readSelection();
+				if (!source) {
 					new Notice("Select some text first");
-					return;
+					return true;
 				}
-				this.openExplainModal(editor, selection);
+				new CompareSetupModal(this.app, this, async (prompt, targets) => {
+					this.settings.compareTargets = targets;
+					await this.saveSettings();
+					const models = targets.map((target) => {
+						const profile = this.settings.profiles.find((p) => p.id === target.profileId) ?? getActiveProfile(this.settings);
+						return { profile, model: target.model || getProviderConfig(profile).model };
+					});
+					const inputs = await this.prepareInputs(source, prompt, models);
+					if (!inputs) return;
+					new CompareModal(this.app, this, source, prompt, inputs, targets).open();
+				}).open();
+				return true;
 			},
 		});
 
+		this.addCommand({
+			id: "show-spending-report",
+			name: "Show spending report",
+			callback: () => new SpendingReportModal(this.app, this).open(),
+		});
+
+		this.addCommand({
+			id: "switch-ai-profile",
+			name: "Switch AI profile",
+			callback: () => new ProfileSuggestModal(this.app, this).open(),
+		});
+
+		// Status bar picker for the active profile (desktop only)
+		this.statusBarEl = this.addStatusBarItem();
+		this.statusBarEl.addClass("mod-clickable");
+		this.statusBarEl.addEventListener("click", (evt: MouseEvent) => this.showProfileMenu(evt));
+		this.updateStatusBar();
+
+		this.registerPromptCommands();
+
 		this.registerEvent(
 			this.app.workspace.on("editor-menu", (menu, editor, view) => {
-				menu.addItem((item) => {
-					const selection = editor.getSelection();
-					if (!selection) return;
-
-					const menuLabel = buildMenuLabel(
-						this.settings.userPromptTemplate,
-						selection
-					);
-					item.setTitle(menuLabel)
-						.setIcon("document")
-						.onClick(async () => {
-							const sel = editor.getSelection();
-							if (!sel) return;
-							this.openExplainModal(editor, sel);
-						});
-				});
+				if (!editor.getSelection()) return;
+				this.addPromptMenuItems(menu, () => editorSelection(editor, view.file));
 			})
 		);
 
+		this.registerDomEvent(document, "selectionchange", () => {
+			const selection = document.getSelection();
+			const view = this.app.workspace.getActiveViewOfType(ItemView);
+			if (!selection || selection.rangeCount === 0 || !view) return;
+			const range = selection.getRangeAt(0);
+			if (view.containerEl.contains(range.commonAncestorContainer)) {
+				this.lastDomRange = selection.isCollapsed ? null : range.cloneRange();
+			}
+		});
+
+		// Reading view, PDFs and canvas cards have no editor menu; show our own
+		// when right-clicking selected text there
+		this.registerDomEvent(document, "contextmenu", (evt: MouseEvent) => {
+			const target = evt.target instanceof HTMLElement ? evt.target : null;
+			const view = this.app.workspace.getActiveViewOfType(ItemView);
+			if (!target || !view || !view.containerEl.contains(target)) return;
+			if (target.closest(".cm-editor") || !(view.getViewType() in SELECTION_BLOCK_SELECTORS)) return;
+			const source = this.readSelection();
+			if (!source || source.editor) return;
+
+			evt.preventDefault();
+			const menu = new Menu();
+			this.addPromptMenuItems(menu, () => source);
+			menu.showAtMouseEvent(evt);
+		});
+
 		this.addSettingTab(new ExplainSelectionWithAiSettingTab(this.app, this));
 	}
 
 	onunload() {}
 
-	private openExplainModal(editor: Editor, selection: string) {
-		const cursor = editor.getCursor();
-		const lineText = editor
-			.getLine(cursor.line)
-			.substring(
-				cursor.ch - 500 > 0 ? cursor.ch - 500 : 0,
-				cursor.ch + 500 <
-					editor.getLine(cursor.line).length
-					? cursor.ch + 500
-					: editor.getLine(cursor.line).length
-			);
+	/**
+	 * (Re-)register one command per prompt action. Called on load, when
+	 * prompts are added, deleted or reordered in settings and when a
+	 * prompt's name or icon field loses focus.
+	 */
+	registerPromptCommands() {
+		const { commands } = this.app as AppWithCommands;
+		for (const id of this.registeredPromptCommands) {
+			commands.removeCommand(`${this.manifest.id}:${id}`);
+		}
+		this.registeredPromptCommands = [];
+
+		for (const prompt of this.settings.prompts) {
+			this.addCommand({
+				id: prompt.id,
+				name: prompt.name || "Untitled prompt",
+				icon: prompt.icon || DEFAULT_PROMPT.icon,
+				checkCallback: (checking: boolean) => {
+					if (!this.canReadSelection()) return false;
+					if (checking) return true;
+					const source = this.readSelection();
+					if (!source) {
+						new Notice("Select some text first");
+					} else {
+						this.openExplainModal(source, prompt);
+					}
+					return true;
+				},
+			});
+			this.registeredPromptCommands.push(prompt.id);
+		}
+	}
 
-		const providerConfig = getProviderConfig(this.settings);
+	/**
+	 * Add one item per prompt to a context menu. read is called on click so
+	 * an editor selection is read as it is then.
+	 */
+	private addPromptMenuItems(menu: Menu, read: () => SelectionSource | null) {
+		const current = read();
+		if (!current) return;
+		for (const prompt of this.settings.prompts) {
+			menu.addItem((item) => {
+				item.setTitle(buildMenuLabel(prompt.userPromptTemplate, current.selection))
+					.setIcon(prompt.icon || DEFAULT_PROMPT.icon)
+					.onClick(() => {
+						const source = read();
+						if (source) this.openExplainModal(source, prompt);
+					});
+			});
+		}
+	}
 
-		const openai = new OpenAI({
-			baseURL: providerConfig.baseURL,
-			apiKey: providerConfig.apiKey,
-			dangerouslyAllowBrowser: true,
-			defaultHeaders: providerConfig.defaultHeaders,
-		});
+	/**
+	 * Whether the active view can have a selection to explain: an editor
+	 * (including canvas cards being edited), reading view, a PDF or a canvas.
+	 */
+	private canReadSelection(): boolean {
+		const view = this.app.workspace.getActiveViewOfType(ItemView);
+		return !!this.app.workspace.activeEditor?.editor ||
+			(!!view && view.getViewType() in SELECTION_BLOCK_SELECTORS);
+	}
+
+	/**
+	 * The selection in the active view, or null when nothing is selected.
+	 */
+	private readSelection(): SelectionSource | null {
+		const { workspace } = this.app;
+		const activeEditor = workspace.activeEditor;
+		const reading = workspace.getActiveViewOfType(MarkdownView)?.getMode() === "preview";
+		if (activeEditor?.editor && !reading) {
+			return editorSelection(activeEditor.editor, activeEditor.file);
+		}
+
+		const view = workspace.getActiveViewOfType(ItemView);
+		if (!view) return null;
+		const selection = view.containerEl.win.getSelection();
+		const range = selection && selection.rangeCount > 0 && !selection.isCollapsed
+			? selection.getRangeAt(0)
+			: this.lastDomRange;
+		return range ? domSelection(view, range, workspace.getActiveFile()) : null;
+	}
+
+	async setActiveProfile(id: string) {
+		this.settings.activeProfileId = id;
+		await this.saveSettings();
+		this.preloadModels();
+	}
+
+	/**
+	 * Make sure the active profile's model list is in the catalogue. Errors
+	 * are ignored: the provider may simply be offline or need a key first.
+	 */
+	private async preloadModels() {
+		await this.modelCatalog.load();
+		const profile = getActiveProfile(this.settings);
+		if (!getProvider(profile.provider).listModels) return;
+		try {
+			await this.modelCatalog.models(profile);
+		} catch {
+			// Fetched again when the list is next needed
+		}
+	}
+
+	/**
+	 * Show the active profile in the status bar; hidden while there is
+	 * only one profile to choose from.
+	 */
+	updateStatusBar() {
+		if (!this.statusBarEl) return;
+		this.statusBarEl.setText(`AI: ${getActiveProfile(this.settings).name}`);
+		this.statusBarEl.toggle(this.settings.profiles.length > 1);
+	}
+
+	private showProfileMenu(evt: MouseEvent) {
+		const menu = new Menu();
+		for (const profile of this.settings.profiles) {
+			menu.addItem((item) => {
+				item.setTitle(profile.name)
+					.setChecked(profile.id === this.settings.activeProfileId)
+					.onClick(() => this.setActiveProfile(profile.id));
+			});
+		}
+		menu.showAtMouseEvent(evt);
+	}
+
+	async activateHistoryView() {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(VIEW_TYPE_HISTORY)[0];
+		if (!leaf) {
+			const rightLeaf = workspace.getRightLeaf(false);
+			if (!rightLeaf) return;
+			leaf = rightLeaf;
+			await leaf.setViewState({ type: VIEW_TYPE_HISTORY, active: true });
+		}
+		workspace.revealLeaf(leaf);
+	}
+
+	/**
+	 * Re-open a recorded conversation in the explanation modal so it can
+	 * be continued or saved.
+	 */
+	reopenHistoryEntry(entry: HistoryEntry) {
+		const prompt = this.settings.prompts.find((p) => p.name === entry.promptName) || DEFAULT_PROMPT;
 
 		const modal = new ExplainSelectionWithAiModal(
 			this.app,
-			openai,
-			providerConfig.model,
-			selection,
-			lineText,
+			entry.model,
+			entry.selection,
+			"",
 			this,
-			editor
+			null,
+			prompt,
+			{}
 		);
+		modal.restore(entry);
 		modal.open();
 	}
 
-	async loadSettings() {
-		this.settings = Object.assign(
-			{},
-			DEFAULT_SETTINGS,
-			await this.loadData()
+	/**
+	 * Gather everything a prompt template can refer to for the current
+	 * selection: {{context}}, note variables and, when the template uses
+	 * them, linked notes. The context is trimmed to fit the smallest known
+	 * context window of the models it will be sent to.
+	 */
+	private async gatherPromptInputs(
+		source: SelectionSource,
+		prompt: PromptAction,
+		models: Array<{ profile: ProviderProfile; model: string }>
+	): Promise<PromptInputs> {
+		// Anchor the context on the selection range, not the cursor
+		const { selection, text, from, to } = source;
+		const scope = prompt.contextScope || this.settings.contextScope;
+		let context = extractContext(
+			text,
+			from,
+			to,
+			scope,
+			this.settings.contextMaxChars
+		);
+
+		const noteVariables = await this.collectNoteVariables(source);
+
+		let includedNotes: string[] = [];
+		const template = prompt.userPromptTemplate || DEFAULT_PROMPT.userPromptTemplate;
+		if (templateUsesVariable(template, "linked_notes")) {
+			const linked = await this.collectLinkedNotes(source);
+			noteVariables.linked_notes = linked.text;
+			includedNotes = linked.included.map((n) => n.title);
+		}
+
+		const { images, skippedImages } = this.settings.imagesEnabled
+			? await this.loadEmbeddedImages(selection, source.file?.path ?? "")
+			: { images: [], skippedImages: [] };
+
+		let trimmedToWindow: number | undefined;
+		if (templateUsesVariable(template, "context")) {
+			const windows = (await Promise.all(models.map((m) => getContextLength(this, m.profile, m.model))))
+				.filter((w): w is number => w !== undefined);
+			if (windows.length > 0) {
+				const window = Math.min(...windows);
+				const withoutContext = estimatePromptTokens([
+					{ role: "system", content: prompt.systemPrompt || DEFAULT_PROMPT.systemPrompt },
+					// Images take their share of the window too
+					{ role: "user", content: buildPrompt(template, selection, "", noteVariables), images },
+				]);
+				const fitted = fitContextToTokens(
+					text,
+					from,
+					to,
+					scope,
+					this.settings.contextMaxChars,
+					window - RESPONSE_TOKEN_RESERVE - withoutContext
+				);
+				if (fitted !== context) {
+					context = fitted;
+					trimmedToWindow = window;
+				}
+			}
+		}
+
+		return { context, noteVariables, includedNotes, trimmedToWindow, images, skippedImages };
+	}
+
+	/**
+	 * Read the vault images embedded in text, downscaled and encoded for
+	 * sending, within the count and size limits from the settings.
+	 */
+	private async loadEmbeddedImages(
+		text: string,
+		sourcePath: string
+	): Promise<Pick<PromptInputs, "images" | "skippedImages">> {
+		const { imageMaxCount, imageMaxDimension, imageMaxSizeKb } = this.settings;
+		const images: ChatImage[] = [];
+		const skippedImages: string[] = [];
+
+		for (const link of findEmbeddedImages(text)) {
+			if (imageMaxCount > 0 && images.length >= imageMaxCount) {
+				skippedImages.push(`${link} (more than ${imageMaxCount} images)`);
+				continue;
+			}
+			const file = this.app.metadataCache.getFirstLinkpathDest(link, sourcePath);
+			const mimeType = file ? IMAGE_MIME_TYPES[file.extension.toLowerCase()] : undefined;
+			if (!file || !mimeType) {
+				skippedImages.push(`${link} (not found)`);
+				continue;
+			}
+			try {
+				const image = await encodeImage(await this.app.vault.readBinary(file), mimeType, imageMaxDimension);
+				// Base64 is a third larger than the bytes it encodes
+				if (imageMaxSizeKb > 0 && (image.data.length * 3) / 4 > imageMaxSizeKb * 1024) {
+					skippedImages.push(`${file.name} (larger than ${imageMaxSizeKb} KB)`);
+					continue;
+				}
+				images.push({ path: file.path, ...image });
+			} catch (err) {
+				console.error(err);
+				skippedImages.push(`${file.name} (could not be read)`);
+			}
+		}
+		return { images, skippedImages };
+	}
+
+	/**
+	 * gatherPromptInputs for commands and menus, which don't await the
+	 * result: failures are reported here and give null.
+	 */
+	private async prepareInputs(
+		source: SelectionSource,
+		prompt: PromptAction,
+		models: Array<{ profile: ProviderProfile; model: string }>
+	): Promise<PromptInputs | null> {
+		try {
+			return await this.gatherPromptInputs(source, prompt, models);
+		} catch (err) {
+			console.error(err);
+			new Notice("Failed to prepare the explanation. See the console for details.");
+			return null;
+		}
+	}
+
+	private async openExplainModal(source: SelectionSource, prompt: PromptAction) {
+		const profile = getActiveProfile(this.settings);
+		const model = prompt.model || getProviderConfig(profile).model;
+		const inputs = await this.prepareInputs(source, prompt, [{ profile, model }]);
+		if (!inputs) return;
+		const { context, noteVariables, includedNotes, trimmedToWindow, images, skippedImages } = inputs;
+
+		const modal = new ExplainSelectionWithAiModal(
+			this.app,
+			model,
+			source.selection,
+			context,
+			this,
+			source.editor,
+			prompt,
+			noteVariables,
+			includedNotes
 		);
+		modal.trimmedToWindow = trimmedToWindow;
+		modal.images = images;
+		modal.skippedImages = skippedImages;
+		modal.sourcePath = source.file?.path ?? "";
+		modal.sourceSubpath = source.subpath;
+		modal.displayMode = prompt.displayMode || this.settings.displayMode;
+		modal.anchor = source.anchor;
+		modal.source = source;
+		modal.open();
+	}
+
+	/**
+	 * Gather excerpts of notes related to the selection's note for
+	 * {{linked_notes}}: the note whose title matches the selection, outgoing
+	 * links and backlinks.
+	 */
+	private async collectLinkedNotes(source: SelectionSource): Promise<{ text: string; included: LinkedNoteCandidate[] }> {
+		const { selection, file } = source;
+		if (!file) {
+			return { text: "", included: [] };
+		}
+		const { metadataCache, vault } = this.app;
+		const targets: Array<{ file: TFile; source: LinkedNoteSource }> = [];
+		const addTarget = (target: unknown, source: LinkedNoteSource) => {
+			if (target instanceof TFile && target.extension === "md" && target.path !== file.path) {
+				targets.push({ file: target, source });
+			}
+		};
+
+		addTarget(metadataCache.getFirstLinkpathDest(selection.trim(), file.path), "title");
+		for (const path of Object.keys(metadataCache.resolvedLinks[file.path] || {})) {
+			addTarget(vault.getAbstractFileByPath(path), "outgoing");
+		}
+		for (const [sourcePath, links] of Object.entries(metadataCache.resolvedLinks)) {
+			if (links[file.path]) {
+				addTarget(vault.getAbstractFileByPath(sourcePath), "backlink");
+			}
+		}
+
+		// Only read as many notes as the budget could possibly use
+		const { linkedNotesMaxChars, linkedNotesTokenBudget } = this.settings;
+		const charBudget = linkedNotesTokenBudget * 4;
+		const candidates: LinkedNoteCandidate[] = [];
+		const seen = new Set<string>();
+		let readChars = 0;
+		for (const target of targets) {
+			if (readChars >= charBudget) break;
+			if (seen.has(target.file.path)) continue;
+			seen.add(target.file.path);
+			const content = await vault.cachedRead(target.file);
+			candidates.push({
+				path: target.file.path,
+				title: target.file.basename,
+				source: target.source,
+				content,
+			});
+			readChars += Math.min(content.length, linkedNotesMaxChars);
+		}
+
+		return assembleLinkedNotes(candidates, linkedNotesMaxChars, linkedNotesTokenBudget);
+	}
+
+	/**
+	 * Gather note-level template variables for the selection's file.
+	 */
+	private async collectNoteVariables(source: SelectionSource): Promise<NoteVariables> {
+		const { file } = source;
+		const cache = file ? this.app.metadataCache.getFileCache(file) : null;
+		const tags = cache ? getAllTags(cache) ?? [] : [];
+
+		// A rendered selection has no headings around it, so look for it in
+		// the Markdown source; left empty when it was formatted there
+		let heading = "";
+		if (source.editor) {
+			heading = findHeadingPath(source.text, source.from);
+		} else if (file?.extension === "md") {
+			const markdown = await this.app.vault.cachedRead(file);
+			const offset = markdown.indexOf(source.selection);
+			heading = offset === -1 ? "" : findHeadingPath(markdown, offset);
+		}
+
+		return {
+			title: file?.basename ?? "",
+			heading,
+			tags: Array.from(new Set(tags)).join(", "),
+			date: formatLocalDate(new Date()),
+			vault: this.app.vault.getName(),
+			frontmatter: cache?.frontmatter ?? {},
+		};
+	}
+
+	async loadSettings() {
+		this.settings = migrateSettings(await this.loadData());
 	}
 
 	async saveSettings() {
 		await this.saveData(this.settings);
+		this.updateStatusBar();
 	}
 }
 
+// Popover size in pixels; it shrinks to fit small screens
+const POPOVER_WIDTH = 380;
+const POPOVER_MAX_HEIGHT = 360;
+
 export class ExplainSelectionWithAiModal extends Modal {
 	userSelection: string;
 	selectionContext: string;
-	openai: OpenAI;
 	endpoint: string;
+	/** Profile used for this conversation; can be changed from the modal. */
+	profile: ProviderProfile;
 	app: App;
 	plugin: ExplainSelectionWithAiPlugin;
-	editor: Editor;
+	editor: Editor | null;
+	prompt: PromptAction;
+	noteVariables: NoteVariables;
+	includedNotes: string[];
+	messages: ChatMessage[] = [];
+	turns: ConversationTurn[] = [];
+	sourcePath: string;
+	/** Place in the source file saved notes link to, e.g. a PDF page. */
+	sourceSubpath: string | undefined;
+	historyId: string;
+	/** Context window the context was trimmed to fit, shown with the estimate. */
+	trimmedToWindow: number | undefined;
+	/** Images sent with the first message, and those left out. */
+	images: ChatImage[] = [];
+	skippedImages: string[] = [];
+	displayMode: DisplayMode = "modal";
+	/** Selection rectangle the popover is shown at; centred when unknown. */
+	anchor: DOMRect | null = null;
+	/** Where the selection was read; unset for a restored conversation. */
+	source: SelectionSource | null = null;
+	private restoredEntry: HistoryEntry | null = null;
+	private abortController: AbortController | null = null;
+	/** Undoes the popover's outside-click handling; set while a popover. */
+	private leavePopover: (() => void) | null = null;
 
 	constructor(
 		app: App,
-		openai: OpenAI,
 		endpoint: string,
 		userSelection: string,
 		selectionContext: string,
 		plugin: ExplainSelectionWithAiPlugin,
-		editor: Editor
+		editor: Editor | null,
+		prompt: PromptAction,
+		noteVariables: NoteVariables,
+		includedNotes: string[] = []
 	) {
 		super(app);
 
@@ -358,511 +2043,2117 @@ export class ExplainSelectionWithAiModal extends Modal {
 		this.plugin = plugin;
 		this.userSelection = userSelection;
 		this.selectionContext = selectionContext;
-		this.openai = openai;
 		this.endpoint = endpoint;
+		this.profile = getActiveProfile(plugin.settings);
 		this.editor = editor;
+		this.prompt = prompt;
+		this.noteVariables = noteVariables;
+		this.includedNotes = includedNotes;
+		this.sourcePath = app.workspace.getActiveFile()?.path ?? "";
+		this.historyId = `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
 
 		this.setTitle(userSelection);
 	}
 
+	/**
+	 * Show a recorded conversation instead of sending a new request.
+	 * Must be called before open().
+	 */
+	restore(entry: HistoryEntry) {
+		this.restoredEntry = entry;
+		this.historyId = entry.id;
+		this.sourcePath = entry.sourcePath;
+		this.endpoint = entry.model;
+	}
+
 	async onOpen() {
 		const { contentEl } = this;
 
-		let rollingText = "";
-		let promptTokens = 0;
-		let completionTokens = 0;
-		const startTime = Date.now();
-		let firstTokenTime: number | null = null;
-		let lastRenderTime = 0;
-		const RENDER_THROTTLE_MS = 50; // Throttle rendering to avoid UI lock on long outputs
+		const systemPrompt = this.prompt.systemPrompt || DEFAULT_PROMPT.systemPrompt;
+		const userPromptTemplate = this.prompt.userPromptTemplate || DEFAULT_PROMPT.userPromptTemplate;
+		const userPrompt = buildPrompt(
+			userPromptTemplate,
+			this.userSelection,
+			this.selectionContext,
+			this.noteVariables
+		);
+		this.messages = this.restoredEntry
+			? [...this.restoredEntry.messages]
+			: [
+				{ role: "system", content: systemPrompt },
+				this.images.length > 0
+					? { role: "user", content: userPrompt, images: this.images }
+					: { role: "user", content: userPrompt },
+			];
+		this.turns = this.restoredEntry ? [...this.restoredEntry.turns] : [];
+
+		// Elements with this class are hidden while shown as a popover
+		const FULL_ONLY = "explain-selection-full-only";
+		const notesEl = contentEl.createEl("div", { cls: FULL_ONLY });
+		if (this.includedNotes.length > 0) {
+			notesEl.createEl("div", {
+				cls: "explain-selection-linked-notes",
+				text: `Linked notes included: ${this.includedNotes.join(", ")}`,
+			});
+		}
+		const modelInfo = this.plugin.modelCatalog.cached(this.profile).find((m) => m.id === this.endpoint);
+		renderImageNotes(
+			notesEl,
+			this,
+			supportsImageInput(modelInfo) === false ? this.endpoint : undefined
+		);
+
+		// Pre-flight estimate; large prompts wait for confirmation before sending
+		let confirmation: Promise<void> | null = null;
+		if (!this.restoredEntry) {
+			const estimateEl = contentEl.createEl("div", {
+				cls: ["explain-selection-estimate", FULL_ONLY],
+				text: this.describeEstimate(),
+			});
+			const threshold = this.plugin.settings.confirmAboveTokens;
+			if (threshold > 0 && estimatePromptTokens(this.messages) > threshold) {
+				// The popover shows the estimate too, for its Send button
+				estimateEl.removeClass(FULL_ONLY);
+				confirmation = new Promise((resolve) => {
+					const sendButton = estimateEl.createEl("button", { text: "Send", cls: "mod-cta" });
+					sendButton.addEventListener("click", () => {
+						sendButton.remove();
+						resolve();
+					});
+				});
+			}
+		}
 
-		const contentBox = contentEl.createEl("div", { cls: "selectable_text" });
+		const conversationEl = contentEl.createEl("div");
+		const metadataBox = contentEl.createEl("div", { cls: ["selectable_text", FULL_ONLY] });
 
-		// Action row starts fully hidden (display:none) so no border/padding/space
-		// is visible while the AI streams. We show it only after streaming completes.
+		// The action row stays visible while streaming so Stop is reachable;
+		// the remaining buttons are shown once a turn has finished.
 		const actionRow = contentEl.createEl("div", {
+			cls: FULL_ONLY,
 			attr: {
-				style: "display: none; gap: 10px; margin-top: 20px; padding-top: 15px; padding-bottom: 5px; border-top: 1px solid var(--background-modifier-border); align-items: center;",
+				style: "display: flex; gap: 10px; margin-top: 20px; padding-top: 15px; padding-bottom: 5px; border-top: 1px solid var(--background-modifier-border); align-items: center;",
 			},
 		});
 
+		const stopButton = actionRow.createEl("button", { text: "Stop" });
+		stopButton.addEventListener("click", () => this.abortController?.abort());
+
+		// The prompt's output action is the primary button; the others are in a menu
+		const canUse = (action: OutputAction) => this.editor !== null || !EDITOR_OUTPUT_ACTIONS.includes(action);
+		const defaultAction = canUse(this.prompt.outputAction) ? this.prompt.outputAction : "note";
+		// Without an editor (reading view, PDF, canvas) nothing can be linked in place
+		const labelOf = (action: OutputAction) =>
+			action === "note" && !this.editor ? "Save as Note" : OUTPUT_ACTION_LABELS[action];
 		const saveButton = actionRow.createEl("button", {
-			text: "Save as Note & Link",
+			text: labelOf(defaultAction),
 			cls: "mod-cta",
 		});
+		saveButton.addEventListener("click", () => this.applyOutputAction(defaultAction, contentEl));
 
-		try {
-			const systemPrompt = this.plugin.settings.systemPrompt || DEFAULT_SETTINGS.systemPrompt;
-			const userPromptTemplate = this.plugin.settings.userPromptTemplate || DEFAULT_SETTINGS.userPromptTemplate;
-			const userPrompt = buildPrompt(userPromptTemplate, this.userSelection, this.selectionContext);
-
-			const completion = await this.openai.chat.completions.create({
-				model: this.endpoint,
-				messages: [
-					{ role: "system", content: systemPrompt },
-					{ role: "user", content: userPrompt },
-				],
-				stream: true,
-				stream_options: { include_usage: true } as any,
-			});
-
-			for await (const chunk of completion) {
-				if (chunk.choices[0]?.delta?.content) {
-					if (firstTokenTime === null) {
-						firstTokenTime = Date.now();
-					}
-					rollingText += chunk.choices[0].delta.content;
-					
-					// Throttle rendering to avoid UI lock on long outputs
-					const now = Date.now();
-					if (now - lastRenderTime >= RENDER_THROTTLE_MS) {
-						contentBox.empty();
-						MarkdownRenderer.render(this.app, rollingText, contentBox, "/", this.plugin);
-						lastRenderTime = now;
-					}
-				}
-
-				if ((chunk as any).usage) {
-					promptTokens = (chunk as any).usage.prompt_tokens;
-					completionTokens = (chunk as any).usage.completion_tokens;
-				}
-			}
-			
-			// Final render to ensure all content is displayed
-			contentBox.empty();
-			MarkdownRenderer.render(this.app, rollingText, contentBox, "/", this.plugin);
-
-			const endTime = Date.now();
-			const totalDuration = endTime - startTime;
-			const ttft = firstTokenTime ? firstTokenTime - startTime : 0;
-			const tps = completionTokens > 0 ? (completionTokens / (totalDuration / 1000)).toFixed(2) : "0.00";
-
-			// Build metadata block -- always include model & timing;
-			// tokens/cost only when the provider returned usage data.
-			let tokenInfo = "";
-			let costInfo = "";
-			if (promptTokens > 0 || completionTokens > 0) {
-				tokenInfo = `\n- **Tokens:** ${promptTokens + completionTokens} (${promptTokens} prompt, ${completionTokens} completion)`;
-
-				const provider = this.plugin.settings.dropdownValue;
-				const cachedModels = modelCache[provider] || [];
-				const modelInfo = cachedModels.find(m => m.id === this.endpoint);
-				if (modelInfo?.pricing) {
-					const pRate = parseFloat(modelInfo.pricing.prompt);
-					const cRate = parseFloat(modelInfo.pricing.completion);
-					const totalCost = (promptTokens * pRate) + (completionTokens * cRate);
-					costInfo = `\n- **Cost:** $${totalCost.toFixed(6)}`;
-				}
+		const outputButton = actionRow.createEl("button", { text: "More…" });
+		outputButton.title = "Other ways to keep the answer";
+		outputButton.addEventListener("click", (evt: MouseEvent) => {
+			const menu = new Menu();
+			for (const action of Object.keys(OUTPUT_ACTION_LABELS) as OutputAction[]) {
+				if (action === defaultAction) continue;
+				menu.addItem((item) => {
+					item.setTitle(labelOf(action))
+						.setDisabled(!canUse(action))
+						.onClick(() => this.applyOutputAction(action, contentEl));
+				});
 			}
+			menu.showAtMouseEvent(evt);
+		});
 
-			const speedInfo = completionTokens > 0
-				? `, Speed: ${tps} tok/s`
-				: "";
-			const timingInfo = `\n- **Timing:** ${(totalDuration / 1000).toFixed(2)}s total (TTFT: ${ttft}ms${speedInfo})`;
-			const metadata = `\n\n---\n**Metadata**\n- **Model:** ${this.endpoint}${tokenInfo}${costInfo}${timingInfo}\n- **Date:** ${new Date().toISOString()}`;
-
-			// Re-render content with metadata visible in the modal
-			const fullText = rollingText + metadata;
-			contentBox.empty();
-			MarkdownRenderer.render(this.app, fullText, contentBox, "/", this.plugin);
-
-			// Show the entire action row (was display:none)
-			actionRow.style.display = "flex";
-			saveButton.addEventListener("click", async () => {
-				const fileName = sanitizeFileName(this.userSelection);
-				const activeFile = this.app.workspace.getActiveFile();
-				let parentPath = "";
-				if (activeFile && activeFile.parent) {
-					parentPath = activeFile.parent.path;
-					if (parentPath === "/") parentPath = "";
-				}
-
-				const fullPath = parentPath
-					? `${parentPath}/${fileName}.md`
-					: `${fileName}.md`;
+		const regenerateButton = actionRow.createEl("button", { text: "Regenerate" });
+		const retryButton = actionRow.createEl("button", { text: "Retry with…" });
 
-				try {
-					const exists = await this.app.vault.adapter.exists(fullPath);
-
-					if (exists) {
-						// Note already exists — let the user choose
-						const choiceEl = contentEl.createEl("div", {
-							attr: {
-								style: "margin-top: 15px; padding: 12px; border: 1px solid var(--background-modifier-border); border-radius: 8px; background-color: var(--background-secondary);",
-							},
-						});
-						choiceEl.createEl("p", {
-							text: `A note named "${fileName}.md" already exists.`,
-							attr: { style: "margin: 0 0 10px 0; font-weight: bold;" },
-						});
-						const btnRow = choiceEl.createEl("div", {
-							attr: { style: "display: flex; gap: 10px;" },
-						});
+		// Per-request profile choice; picking one regenerates the last answer
+		const profiles = this.plugin.settings.profiles;
+		const profileDropdown = new DropdownComponent(actionRow);
+		for (const profile of profiles) {
+			profileDropdown.addOption(profile.id, profile.name);
+		}
+		profileDropdown.setValue(this.profile.id);
+		profileDropdown.selectEl.title = "AI profile for this explanation";
+		profileDropdown.selectEl.toggle(profiles.length > 1);
 
-						const handleChoice = async (mode: "append" | "new") => {
-							choiceEl.remove();
-							try {
-								let finalPath = fullPath;
-								if (mode === "append") {
-									const existing = await this.app.vault.adapter.read(fullPath);
-									const separator = "\n\n---\n\n";
-									await this.app.vault.adapter.write(fullPath, existing + separator + fullText);
-									new Notice(`Appended to ${fullPath}`);
-								} else {
-									let counter = 1;
-									while (await this.app.vault.adapter.exists(finalPath)) {
-										finalPath = parentPath
-											? `${parentPath}/${fileName} ${counter}.md`
-											: `${fileName} ${counter}.md`;
-										counter++;
-									}
-									await this.app.vault.create(finalPath, fullText);
-									new Notice(`Saved to ${finalPath}`);
-								}
-								const linkName = finalPath.replace(/\.md$/, "");
-								const alias = this.userSelection ?? "";
-								const hasProblemChars =
-									alias.length === 0 ||
-									alias.includes("|") ||
-									alias.includes("]") ||
-									alias.includes("\n");
-								const wikiLink = hasProblemChars
-									? `[[${linkName}]]`
-									: `[[${linkName}|${alias}]]`;
-								this.editor.replaceSelection(wikiLink);
-								this.close();
-							} catch (err) {
-								new Notice("Failed to save note.");
-								console.error(err);
-							}
-						};
-
-						const appendBtn = btnRow.createEl("button", {
-							text: "Append to existing",
-							cls: "mod-cta",
-						});
-						appendBtn.addEventListener("click", () => handleChoice("append"));
+		// Follow-up chat box, shown once the first answer has completed
+		const chatRow = contentEl.createEl("div", {
+			cls: ["explain-selection-chat", FULL_ONLY],
+			attr: { style: "display: none;" },
+		});
+		const chatInput = chatRow.createEl("textarea", {
+			cls: "explain-selection-chat-input",
+			attr: { rows: "2", placeholder: "Ask a follow-up question..." },
+		});
+		const sendButton = chatRow.createEl("button", { text: "Send" });
 
-						const newBtn = btnRow.createEl("button", {
-							text: "Create numbered copy",
-						});
-						newBtn.addEventListener("click", () => handleChoice("new"));
-						return;
-					}
+		const setStreaming = (streaming: boolean) => {
+			stopButton.toggle(streaming);
+			saveButton.toggle(!streaming && this.turns.length > 0);
+			outputButton.toggle(!streaming && this.turns.length > 0);
+			regenerateButton.toggle(!streaming);
+			retryButton.toggle(!streaming);
+			profileDropdown.setDisabled(streaming);
+			chatInput.disabled = streaming;
+			sendButton.disabled = streaming;
+		};
 
-					await this.app.vault.create(fullPath, fullText);
-					new Notice(`Saved to ${fullPath}`);
+		const renderMetadata = () => {
+			metadataBox.empty();
+			MarkdownRenderer.render(
+				this.app,
+				buildMetadataBlock(this.endpoint, this.turns.map((t) => t.stats as TurnStats), new Date()),
+				metadataBox,
+				"/",
+				this.plugin
+			);
+		};
 
-					const linkName = fullPath.replace(/\.md$/, "");
-					const selectionAlias = this.userSelection;
-					const hasUnsafeAliasChars =
-						!selectionAlias || /[|\]\n\r]/.test(selectionAlias);
-					const wikiLink = hasUnsafeAliasChars
-						? `[[${linkName}]]`
-						: `[[${linkName}|${selectionAlias}]]`;
-					this.editor.replaceSelection(wikiLink);
+		// Element and question of the most recent turn, kept so it can be regenerated
+		let lastTurnEl: HTMLElement | null = null;
+		let lastQuestion: string | undefined;
+		let lastTurnFailed = false;
+		// Continue button of an interrupted answer; only valid while it is the last turn
+		let continueButton: HTMLElement | null = null;
+		// Refresh link of a cached answer; likewise only valid while it is the last turn
+		let refreshLink: HTMLElement | null = null;
 
-					this.close();
-				} catch (err) {
-					new Notice("Failed to save note.");
-					console.error(err);
-				}
+		const renderQuestion = (turnEl: HTMLElement, question: string) => {
+			const questionEl = turnEl.createEl("div", {
+				cls: "explain-selection-question selectable_text",
 			});
-		} catch (err: unknown) {
-			contentBox.toggleClass("selectable_text", false);
+			questionEl.setText(question);
+		};
 
-			const content = contentBox.createEl("p");
-			let errorMessage = "There was an issue with the request. Please ensure plugin configuration settings are correct and try again.";
+		// refresh skips the response cache (used by Regenerate / Retry)
+		const runTurn = async (question?: string, refresh = false) => {
+			const turnEl = conversationEl.createEl("div");
+			lastTurnEl = turnEl;
+			lastQuestion = question;
+			lastTurnFailed = false;
+			continueButton?.remove();
+			continueButton = null;
+			refreshLink?.remove();
+			refreshLink = null;
 
-			if (err instanceof Error) {
-				errorMessage += `\n\nError: ${err.message}`;
-			}
-			if (err && typeof err === "object" && "status" in err) {
-				errorMessage += ` (Status: ${(err as { status: number }).status})`;
+			if (question !== undefined) {
+				renderQuestion(turnEl, question);
+				this.messages.push({ role: "user", content: question });
 			}
+			const contentBox = turnEl.createEl("div", { cls: "selectable_text" });
 
-			content.setText(errorMessage);
-			content.toggleClass("error_text", true);
-		}
-	}
-
-	onClose() {
-		const { contentEl } = this;
-		contentEl.empty();
-	}
-}
-
-class ExplainSelectionWithAiSettingTab extends PluginSettingTab {
-	plugin: ExplainSelectionWithAiPlugin;
-
-	constructor(app: App, plugin: ExplainSelectionWithAiPlugin) {
-		super(app, plugin);
-		this.plugin = plugin;
-	}
+			setStreaming(true);
+			try {
+				// Only the initial explanation is cached; follow-ups depend on the conversation
+				const cacheKey = question === undefined && this.plugin.settings.responseCacheEnabled
+					? buildResponseCacheKey(
+						this.profile.provider,
+						getProviderConfig(this.profile).baseURL,
+						this.endpoint,
+						this.messages[0].content,
+						this.messages[1].content,
+						this.messages[1].images
+					)
+					: null;
+				const cached = cacheKey && !refresh
+					? await this.plugin.responseCache.get(cacheKey)
+					: undefined;
 
-	display(): void {
-		const { containerEl } = this;
-		containerEl.empty();
+				let text: string;
+				let reasoning: string;
+				let stats: TurnStats;
+				let stopped = false;
+				let error: unknown;
+				let answeredBy = this.profile;
+				if (cached) {
+					text = cached.answer;
+					reasoning = cached.reasoning ?? "";
+					stats = { ...cached.stats, cached: true };
+					if (reasoning) {
+						createThinkingSection(this.plugin, contentBox).renderer.render(reasoning);
+					}
+					MarkdownRenderer.render(this.app, text, contentBox, "/", this.plugin);
+
+					const badgeRow = turnEl.createEl("div", { cls: "explain-selection-cached" });
+					badgeRow.createEl("span", { cls: "explain-selection-cached-badge", text: "cached" });
+					badgeRow.createEl("span", {
+						text: ` ${new Date(cached.createdAt).toLocaleString()}`,
+					});
+					refreshLink = badgeRow.createEl("span", { text: " · " });
+					refreshLink.createEl("a", { text: "Refresh", href: "#" }).addEventListener("click", (evt: MouseEvent) => {
+						evt.preventDefault();
+						if (!sendButton.disabled && lastTurnEl === turnEl) regenerate();
+					});
+				} else {
+					({ text, reasoning, stats, stopped, error, profile: answeredBy } = await this.streamCompletion(contentBox));
+					if (stopped && !text) {
+						// Nothing to keep, so drop the question as a failed turn does
+						if (question !== undefined) {
+							this.messages.pop();
+						}
+						lastTurnFailed = true;
+						contentBox.createEl("div", { cls: "explain-selection-stopped", text: "Stopped." });
+						return;
+					}
+					if (stats.fallbackFrom) {
+						turnEl.createEl("div", {
+							cls: "explain-selection-fallback",
+							text: `Answered by fallback: ${answeredBy.name} · ${stats.model}`,
+						});
+					}
+					// The key is for the primary model, so a fallback's answer isn't kept
+					if (cacheKey && !stopped && !error && text && !stats.fallbackFrom) {
+						await this.plugin.responseCache.put(cacheKey, {
+							answer: text,
+							reasoning: reasoning || undefined,
+							stats,
+							createdAt: Date.now(),
+						});
+					}
+				}
+				if (stopped) {
+					turnEl.createEl("div", {
+						cls: "explain-selection-stopped",
+						text: "Stopped.",
+					});
+				}
+				this.messages.push({ role: "assistant", content: text });
+				this.turns.push({ question, answer: text, reasoning: reasoning || undefined, stats });
+				renderMetadata();
+				this.recordHistory();
+				if (error) {
+					renderInterrupted(turnEl, contentBox, error, { profile: answeredBy, model: stats.model ?? this.endpoint });
+				}
+
+				// Show the chat box (was display:none)
+				chatRow.style.display = "flex";
+			} catch (err: unknown) {
+				// Drop the failed question so the history stays consistent for a retry
+				if (question !== undefined) {
+					this.messages.pop();
+				}
+				lastTurnFailed = true;
+				renderRequestError(contentBox, err);
+			} finally {
+				setStreaming(false);
+			}
+		};
+
+		// Offer to resume an answer whose stream failed part-way, on the model that wrote it
+		const renderInterrupted = (
+			turnEl: HTMLElement,
+			contentBox: HTMLElement,
+			err: unknown,
+			answeredBy: { profile: ProviderProfile; model: string }
+		) => {
+			const noticeEl = turnEl.createEl("div", { cls: "explain-selection-interrupted" });
+			noticeEl.createEl("span", { text: `Answer interrupted: ${describeRequestError(err)}` });
+			continueButton = noticeEl.createEl("button", { text: "Continue" });
+			continueButton.addEventListener("click", async () => {
+				if (sendButton.disabled) return;
+				noticeEl.remove();
+				await continueTurn(turnEl, contentBox, answeredBy);
+			});
+		};
+
+		// Ask for the rest of the last answer and append it to the same turn
+		const continueTurn = async (
+			turnEl: HTMLElement,
+			contentBox: HTMLElement,
+			answeredBy: { profile: ProviderProfile; model: string }
+		) => {
+			const turn = this.turns[this.turns.length - 1];
+			setStreaming(true);
+			try {
+				const { text, reasoning, stats, stopped, error } = await this.streamCompletion(
+					contentBox,
+					[...this.messages, { role: "user", content: CONTINUE_PROMPT }],
+					turn.answer,
+					turn.reasoning,
+					answeredBy
+				);
+				turn.answer = text;
+				turn.reasoning = reasoning || undefined;
+				turn.stats = turn.stats ? mergeTurnStats(turn.stats, stats) : stats;
+				this.messages[this.messages.length - 1] = { role: "assistant", content: text };
+				renderMetadata();
+				this.recordHistory();
+				if (stopped) {
+					turnEl.createEl("div", {
+						cls: "explain-selection-stopped",
+						text: "Stopped.",
+					});
+				}
+				if (error) {
+					renderInterrupted(turnEl, contentBox, error, answeredBy);
+				}
+			} catch (err: unknown) {
+				renderInterrupted(turnEl, contentBox, err, answeredBy);
+			} finally {
+				setStreaming(false);
+			}
+		};
+
+		const regenerate = async () => {
+			if (!lastTurnEl) return;
+			if (!lastTurnFailed) {
+				// Remove the previous answer (and its question) from the history
+				this.turns.pop();
+				this.messages.pop();
+				if (lastQuestion !== undefined) {
+					this.messages.pop();
+				}
+			}
+			lastTurnEl.remove();
+			await runTurn(lastQuestion, true);
+		};
+
+		regenerateButton.addEventListener("click", regenerate);
+		retryButton.addEventListener("click", () => {
+			new ModelPickerModal(
+				this.app,
+				this.plugin,
+				this.profile,
+				async (modelId: string) => {
+					this.endpoint = modelId;
+					await regenerate();
+				}
+			).open();
+		});
+		profileDropdown.onChange(async (id) => {
+			const profile = profiles.find((p) => p.id === id);
+			if (!profile) return;
+			this.profile = profile;
+			this.endpoint = getProviderConfig(profile).model;
+			await regenerate();
+		});
+
+		const sendFollowUp = async () => {
+			const question = chatInput.value.trim();
+			if (!question || sendButton.disabled) return;
+			chatInput.value = "";
+			await runTurn(question);
+			chatInput.focus();
+		};
+
+		sendButton.addEventListener("click", sendFollowUp);
+		chatInput.addEventListener("keydown", (evt: KeyboardEvent) => {
+			// Enter sends, Shift+Enter inserts a newline
+			if (evt.key === "Enter" && !evt.shiftKey && !evt.isComposing) {
+				evt.preventDefault();
+				sendFollowUp();
+			}
+		});
+
+		if (this.restoredEntry) {
+			for (const turn of this.turns) {
+				const turnEl = conversationEl.createEl("div");
+				if (turn.question !== undefined) {
+					renderQuestion(turnEl, turn.question);
+				}
+				const contentBox = turnEl.createEl("div", { cls: "selectable_text" });
+				if (turn.reasoning) {
+					createThinkingSection(this.plugin, contentBox).renderer.render(turn.reasoning);
+				}
+				MarkdownRenderer.render(this.app, turn.answer, contentBox, "/", this.plugin);
+				lastTurnEl = turnEl;
+				lastQuestion = turn.question;
+			}
+			renderMetadata();
+			chatRow.style.display = "flex";
+			setStreaming(false);
+			return;
+		}
+
+		if (this.displayMode === "popover") {
+			this.showAsPopover();
+		}
+		if (confirmation) {
+			actionRow.hide();
+			await confirmation;
+			actionRow.show();
+		}
+		await runTurn();
+	}
+
+	/**
+	 * Show the modal as a small popover at the selection, without a
+	 * backdrop. Esc or a click outside closes it; Expand turns it into the
+	 * full modal, and an answer that is streaming carries on there.
+	 */
+	private showAsPopover() {
+		const { containerEl, modalEl } = this;
+		const win = containerEl.win;
+		const width = Math.min(POPOVER_WIDTH, win.innerWidth - 16);
+		const anchor = this.anchor ?? {
+			left: (win.innerWidth - width) / 2,
+			top: win.innerHeight / 3,
+			bottom: win.innerHeight / 3,
+		};
+		const placement = placePopover(anchor, width, POPOVER_MAX_HEIGHT, {
+			width: win.innerWidth,
+			height: win.innerHeight,
+		});
+
+		containerEl.addClass("explain-selection-popover");
+		modalEl.style.left = `${placement.left}px`;
+		modalEl.style.top = placement.top !== undefined ? `${placement.top}px` : "";
+		modalEl.style.bottom = placement.bottom !== undefined ? `${placement.bottom}px` : "";
+		modalEl.style.width = `${width}px`;
+		modalEl.style.maxHeight = `${placement.maxHeight}px`;
+
+		const expandButton = modalEl.createEl("div", {
+			cls: "explain-selection-popover-expand clickable-icon",
+			attr: { "aria-label": "Expand to full window" },
+		});
+		setIcon(expandButton, "maximize-2");
+		expandButton.addEventListener("click", () => {
+			this.leavePopover?.();
+			containerEl.removeClass("explain-selection-popover");
+			for (const property of ["left", "top", "bottom", "width", "max-height"]) {
+				modalEl.style.removeProperty(property);
+			}
+			expandButton.remove();
+		});
+
+		// No backdrop catches clicks outside, so watch the whole document
+		const onPointerDown = (evt: Event) => {
+			if (!evt.composedPath().includes(modalEl)) {
+				this.close();
+			}
+		};
+		containerEl.doc.addEventListener("pointerdown", onPointerDown, true);
+		this.leavePopover = () => {
+			containerEl.doc.removeEventListener("pointerdown", onPointerDown, true);
+			this.leavePopover = null;
+		};
+	}
+
+	/**
+	 * Estimated prompt tokens and cost of the first request, noting when the
+	 * context was trimmed to fit the model.
+	 */
+	private describeEstimate(): string {
+		const promptTokens = estimatePromptTokens(this.messages);
+		const modelInfo = this.plugin.modelCatalog.cached(this.profile).find((m) => m.id === this.endpoint);
+		const cost = getProvider(this.profile.provider)
+			.calculateCost(modelInfo ?? { id: this.endpoint }, { promptTokens, completionTokens: 0 });
+
+		let text = `Estimated prompt: ~${promptTokens.toLocaleString()} tokens`;
+		if (this.images.length > 0) {
+			text += ` including ${this.images.length} image${this.images.length === 1 ? "" : "s"}`;
+		}
+		if (cost !== undefined) {
+			text += ` (~$${cost.toFixed(4)} before the answer)`;
+		}
+		if (this.trimmedToWindow) {
+			text += ` · context trimmed to fit the ${this.trimmedToWindow.toLocaleString()}-token window`;
+		}
+		return text;
+	}
+
+	/**
+	 * Record the conversation so far in the explanation history.
+	 */
+	private recordHistory() {
+		this.plugin.history.record({
+			id: this.historyId,
+			timestamp: Date.now(),
+			selection: this.userSelection,
+			sourcePath: this.sourcePath,
+			promptName: this.prompt.name,
+			model: this.endpoint,
+			// Images are read from the vault again rather than stored
+			messages: withoutImages(this.messages),
+			turns: [...this.turns],
+		});
+	}
+
+	/**
+	 * Stream a completion for the message history into contentBox, using the
+	 * fallback chain. Stopping via abortController keeps the partial text and
+	 * sets stopped; initialText and initialReasoning are shown first when
+	 * continuing an answer, which resumeOn keeps on the model that wrote it.
+	 */
+	private async streamCompletion(
+		contentBox: HTMLElement,
+		messages: ChatMessage[] = this.messages,
+		initialText?: string,
+		initialReasoning?: string,
+		resumeOn?: { profile: ProviderProfile; model: string }
+	): Promise<StreamResult> {
+		const controller = new AbortController();
+		this.abortController = controller;
+		try {
+			return await streamChatInto(
+				this.plugin,
+				resumeOn?.profile ?? this.profile,
+				resumeOn?.model ?? this.endpoint,
+				messages,
+				contentBox,
+				controller.signal,
+				{ initialText, initialReasoning, useFallbacks: !resumeOn }
+			);
+		} finally {
+			if (this.abortController === controller) {
+				this.abortController = null;
+			}
+		}
+	}
+
+	/**
+	 * Keep the answer as chosen: a linked note, text in the source note, or
+	 * the clipboard. Closes the modal once the answer is in the vault.
+	 */
+	private async applyOutputAction(action: OutputAction, choiceContainer: HTMLElement) {
+		const answer = formatConversation(this.turns);
+		const editor = this.editor;
+
+		if (action === "note") {
+			saveExplanationNote(
+				this.plugin,
+				{
+					selection: this.userSelection,
+					sourcePath: this.sourcePath,
+					sourceSubpath: this.sourceSubpath,
+					model: this.endpoint,
+					turns: this.turns,
+					date: new Date(),
+				},
+				this.source,
+				choiceContainer,
+				(path) => {
+					editor?.replaceSelection(buildWikiLink(path, this.userSelection));
+					this.close();
+				}
+			);
+			return;
+		}
+
+		if (action === "copy") {
+			try {
+				await navigator.clipboard.writeText(answer);
+				new Notice("Copied to clipboard");
+			} catch (err) {
+				new Notice("Failed to copy to clipboard.");
+				console.error(err);
+			}
+			return;
+		}
+
+		if (action === "append") {
+			const block = buildCallout(this.userSelection, answer);
+			new NoteSuggestModal(this.app, (file) => {
+				new HeadingSuggestModal(this.app, file, async (heading) => {
+					try {
+						await this.app.vault.process(file, (text) => insertUnderHeading(text, heading, block));
+						new Notice(`Appended to ${file.path}`);
+						this.close();
+					} catch (err) {
+						new Notice("Failed to append to note.");
+						console.error(err);
+					}
+				}).open();
+			}).open();
+			return;
+		}
+
+		if (!editor) return;
+		const to = editor.getCursor("to");
+		if (action === "replace") {
+			editor.replaceSelection(answer);
+		} else if (action === "callout") {
+			const lineEnd = { line: to.line, ch: editor.getLine(to.line).length };
+			editor.replaceRange(`\n\n${buildCallout(this.userSelection, answer)}\n`, lineEnd);
+		} else if (action === "footnote") {
+			const label = nextFootnoteLabel(editor.getValue());
+			editor.replaceRange(`[^${label}]`, to);
+			const lastLine = editor.lastLine();
+			const separator = editor.getLine(lastLine) === "" ? "\n" : "\n\n";
+			editor.replaceRange(`${separator}${buildFootnote(label, answer)}\n`, {
+				line: lastLine,
+				ch: editor.getLine(lastLine).length,
+			});
+		}
+		this.close();
+	}
+
+	onClose() {
+		// Cancel any in-flight request so it doesn't keep streaming in the background
+		this.abortController?.abort();
+		this.leavePopover?.();
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+/**
+ * Choose the prompt and the two to four profiles or models to compare.
+ */
+class CompareSetupModal extends Modal {
+	private plugin: ExplainSelectionWithAiPlugin;
+	private onSubmit: (prompt: PromptAction, targets: ModelTarget[]) => void;
+	private targets: ModelTarget[];
+	private promptId: string;
+
+	constructor(
+		app: App,
+		plugin: ExplainSelectionWithAiPlugin,
+		onSubmit: (prompt: PromptAction, targets: ModelTarget[]) => void
+	) {
+		super(app);
+		this.plugin = plugin;
+		this.onSubmit = onSubmit;
+		this.targets = normalizeCompareTargets(plugin.settings);
+		this.promptId = plugin.settings.prompts[0].id;
+	}
+
+	onOpen() {
+		this.setTitle("Compare explanations");
+		this.render();
+	}
+
+	private render() {
+		const { contentEl } = this;
+		contentEl.empty();
+		const settings = this.plugin.settings;
+
+		new Setting(contentEl)
+			.setName("Prompt")
+			.addDropdown((dropdown) => {
+				for (const prompt of settings.prompts) {
+					dropdown.addOption(prompt.id, prompt.name || "Untitled prompt");
+				}
+				dropdown
+					.setValue(this.promptId)
+					.onChange((value) => (this.promptId = value));
+			});
+
+		this.targets.forEach((target, index) => {
+			const profile = settings.profiles.find((p) => p.id === target.profileId) ?? settings.profiles[0];
+			const setting = new Setting(contentEl)
+				.setName(`Column ${index + 1}`)
+				.setDesc("Profile, and a model to use instead of the profile's model (optional).")
+				.addDropdown((dropdown) => {
+					for (const p of settings.profiles) {
+						dropdown.addOption(p.id, p.name || "Untitled profile");
+					}
+					dropdown
+						.setValue(profile.id)
+						.onChange((value) => {
+							target.profileId = value;
+							target.model = "";
+							this.render();
+						});
+				});
+
+			let modelInput: HTMLInputElement;
+			setting.addText((text) => {
+				text
+					.setPlaceholder(getProviderConfig(profile).model)
+					.setValue(target.model)
+					.onChange((value) => (target.model = value.trim()));
+				modelInput = text.inputEl;
+			});
+
+			if (getProvider(profile.provider).listModels) {
+				setting.addExtraButton((button) => {
+					button
+						.setIcon("list")
+						.setTooltip("Browse models")
+						.onClick(() => {
+							new ModelPickerModal(this.app, this.plugin, profile, (modelId: string) => {
+								target.model = modelId;
+								modelInput.value = modelId;
+							}).open();
+						});
+				});
+			}
+
+			setting.addExtraButton((button) => {
+				button
+					.setIcon("trash")
+					.setTooltip("Remove column")
+					.setDisabled(this.targets.length <= MIN_COMPARE_TARGETS)
+					.onClick(() => {
+						if (this.targets.length <= MIN_COMPARE_TARGETS) return;
+						this.targets.splice(index, 1);
+						this.render();
+					});
+			});
+		});
+
+		new Setting(contentEl)
+			.addButton((button) => {
+				button
+					.setButtonText("Add column")
+					.setDisabled(this.targets.length >= MAX_COMPARE_TARGETS)
+					.onClick(() => {
+						if (this.targets.length >= MAX_COMPARE_TARGETS) return;
+						this.targets.push({ profileId: getActiveProfile(settings).id, model: "" });
+						this.render();
+					});
+			})
+			.addButton((button) => {
+				button
+					.setButtonText("Compare")
+					.setCta()
+					.onClick(() => {
+						const prompt = settings.prompts.find((p) => p.id === this.promptId) ?? settings.prompts[0];
+						this.close();
+						this.onSubmit(prompt, this.targets);
+					});
+			});
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+/**
+ * Streams the same rendered prompt to several profiles or models and shows
+ * the answers side by side, each with its own metadata and save button.
+ */
+class CompareModal extends Modal {
+	private plugin: ExplainSelectionWithAiPlugin;
+	private source: SelectionSource;
+	private editor: Editor | null;
+	private selection: string;
+	private prompt: PromptAction;
+	private inputs: PromptInputs;
+	private targets: ModelTarget[];
+	private sourcePath: string;
+	private sourceSubpath: string | undefined;
+	private controllers: AbortController[] = [];
+
+	constructor(
+		app: App,
+		plugin: ExplainSelectionWithAiPlugin,
+		source: SelectionSource,
+		prompt: PromptAction,
+		inputs: PromptInputs,
+		targets: ModelTarget[]
+	) {
+		super(app);
+		this.plugin = plugin;
+		this.source = source;
+		this.editor = source.editor;
+		this.selection = source.selection;
+		this.prompt = prompt;
+		this.inputs = inputs;
+		this.targets = targets;
+		this.sourcePath = source.file?.path ?? "";
+		this.sourceSubpath = source.subpath;
+		this.setTitle(source.selection);
+	}
+
+	async onOpen() {
+		const { contentEl, modalEl } = this;
+		modalEl.addClass("explain-selection-compare-modal");
+
+		const messages: ChatMessage[] = [
+			{ role: "system", content: this.prompt.systemPrompt || DEFAULT_PROMPT.systemPrompt },
+			{
+				role: "user",
+				content: buildPrompt(
+					this.prompt.userPromptTemplate || DEFAULT_PROMPT.userPromptTemplate,
+					this.selection,
+					this.inputs.context,
+					this.inputs.noteVariables
+				),
+				...(this.inputs.images.length > 0 ? { images: this.inputs.images } : {}),
+			},
+		];
+
+		if (this.inputs.includedNotes.length > 0) {
+			contentEl.createEl("div", {
+				cls: "explain-selection-linked-notes",
+				text: `Linked notes included: ${this.inputs.includedNotes.join(", ")}`,
+			});
+		}
+		renderImageNotes(contentEl, this.inputs);
+
+		const grid = contentEl.createEl("div", {
+			cls: "explain-selection-compare",
+			attr: { style: `--compare-columns: ${this.targets.length};` },
+		});
+
+		const actionRow = contentEl.createEl("div", {
+			attr: {
+				style: "display: flex; gap: 10px; margin-top: 20px; padding-top: 15px; padding-bottom: 5px; border-top: 1px solid var(--background-modifier-border); align-items: center;",
+			},
+		});
+		const stopButton = actionRow.createEl("button", { text: "Stop" });
+		stopButton.addEventListener("click", () => this.abortAll());
+
+		await Promise.all(this.targets.map((target) =>
+			this.runColumn(grid.createEl("div", { cls: "explain-selection-compare-column" }), target, messages)
+		));
+		actionRow.remove();
+	}
+
+	private async runColumn(columnEl: HTMLElement, target: ModelTarget, messages: ChatMessage[]) {
+		const settings = this.plugin.settings;
+		const profile = settings.profiles.find((p) => p.id === target.profileId) ?? getActiveProfile(settings);
+		const model = target.model || getProviderConfig(profile).model;
+
+		columnEl.createEl("div", {
+			cls: "explain-selection-compare-header",
+			text: `${profile.name} · ${model}`,
+		});
+		const contentBox = columnEl.createEl("div", { cls: "selectable_text" });
+		const metadataBox = columnEl.createEl("div", { cls: "selectable_text" });
+
+		const controller = new AbortController();
+		this.controllers.push(controller);
+
+		try {
+			// No fallbacks here: each column must show the model it is labelled with
+			const { text, reasoning, stats, stopped, error } = await streamChatInto(
+				this.plugin,
+				profile,
+				model,
+				[...messages],
+				contentBox,
+				controller.signal
+			);
+			if (stopped) {
+				metadataBox.createEl("div", { cls: "explain-selection-stopped", text: "Stopped." });
+			}
+			if (error) {
+				metadataBox.createEl("div", {
+					cls: "explain-selection-interrupted",
+					text: `Answer interrupted: ${describeRequestError(error)}`,
+				});
+			}
+			MarkdownRenderer.render(
+				this.app,
+				buildMetadataBlock(model, [stats], new Date()),
+				metadataBox,
+				"/",
+				this.plugin
+			);
+			if (!text) return;
+
+			const saveButton = columnEl.createEl("button", {
+				text: this.editor ? "Save as Note & Link" : "Save as Note",
+				cls: "mod-cta",
+			});
+			saveButton.addEventListener("click", () => {
+				saveExplanationNote(
+					this.plugin,
+					{
+						selection: this.selection,
+						sourcePath: this.sourcePath,
+						sourceSubpath: this.sourceSubpath,
+						model,
+						turns: [{ answer: text, reasoning: reasoning || undefined, stats }],
+						date: new Date(),
+					},
+					this.source,
+					columnEl,
+					(path) => {
+						this.editor?.replaceSelection(buildWikiLink(path, this.selection));
+						this.close();
+					}
+				);
+			});
+		} catch (err: unknown) {
+			renderRequestError(contentBox, err);
+		}
+	}
+
+	private abortAll() {
+		for (const controller of this.controllers) {
+			controller.abort();
+		}
+	}
+
+	onClose() {
+		// Cancel any in-flight requests so they don't keep streaming in the background
+		this.abortAll();
+		this.contentEl.empty();
+	}
+}
+
+/**
+ * Spending report from the ledger: totals for today, this week and this
+ * month, budget use and the most expensive models this month.
+ */
+class SpendingReportModal extends Modal {
+	private plugin: ExplainSelectionWithAiPlugin;
+
+	constructor(app: App, plugin: ExplainSelectionWithAiPlugin) {
+		super(app);
+		this.plugin = plugin;
+		this.setTitle("Spending report");
+	}
+
+	async onOpen() {
+		const { contentEl } = this;
+		const rows = await this.plugin.ledger.rows();
+		const periods = getReportPeriods(new Date());
+		const formatCost = (cost: number) => `$${cost.toFixed(4)}`;
+
+		const totalsTable = contentEl.createEl("table", { cls: "explain-selection-report" });
+		const header = totalsTable.createEl("tr");
+		for (const title of ["", "Requests", "Tokens", "Cost"]) {
+			header.createEl("th", { text: title });
+		}
+		for (const [label, from] of [["Today", periods.today], ["This week", periods.week], ["This month", periods.month]]) {
+			const totals = sumLedger(rows, from);
+			const row = totalsTable.createEl("tr");
+			row.createEl("td", { text: label });
+			row.createEl("td", { text: String(totals.requests) });
+			row.createEl("td", { text: String(totals.promptTokens + totals.completionTokens) });
+			row.createEl("td", { text: formatCost(totals.cost) });
+		}
+		const unpriced = sumLedger(rows, periods.month).unpricedRequests;
+		if (unpriced > 0) {
+			contentEl.createEl("p", {
+				cls: "explain-selection-report-note",
+				text: `${unpriced} requests this month had no pricing and are not included in the cost.`,
+			});
+		}
+
+		const settings = this.plugin.settings;
+		const budgets = [
+			{ label: "Daily budget", limit: settings.dailyBudget, spent: sumLedger(rows, periods.today).cost },
+			{ label: "Monthly budget", limit: settings.monthlyBudget, spent: sumLedger(rows, periods.month).cost },
+		].filter((b) => b.limit > 0);
+		for (const budget of budgets) {
+			contentEl.createEl("p", {
+				text: `${budget.label}: ${formatCost(budget.spent)} of ${formatCost(budget.limit)} ` +
+					`(${Math.floor(budget.spent / budget.limit * 100)}%)`,
+			});
+		}
+
+		contentEl.createEl("h4", { text: "Top models this month" });
+		const models = topModels(rows, periods.month, 10);
+		if (models.length === 0) {
+			contentEl.createEl("p", { cls: "explain-selection-report-note", text: "No requests recorded this month." });
+			return;
+		}
+		const modelsTable = contentEl.createEl("table", { cls: "explain-selection-report" });
+		const modelsHeader = modelsTable.createEl("tr");
+		for (const title of ["Model", "Provider", "Requests", "Tokens", "Cost"]) {
+			modelsHeader.createEl("th", { text: title });
+		}
+		for (const model of models) {
+			const row = modelsTable.createEl("tr");
+			row.createEl("td", { text: model.model });
+			row.createEl("td", { text: getProvider(model.provider).label });
+			row.createEl("td", { text: String(model.requests) });
+			row.createEl("td", { text: String(model.promptTokens + model.completionTokens) });
+			row.createEl("td", { text: formatCost(model.cost) });
+		}
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+export const VIEW_TYPE_HISTORY = "explain-selection-history";
+
+/**
+ * Sidebar view listing recorded explanations, with search, model and
+ * note filters, and per-entry actions.
+ */
+export class ExplanationHistoryView extends ItemView {
+	plugin: ExplainSelectionWithAiPlugin;
+	private query = "";
+	private modelFilter = "";
+	private noteFilter = "";
+	private modelDropdown: DropdownComponent;
+	private noteDropdown: DropdownComponent;
+	private listEl: HTMLElement;
+
+	constructor(leaf: WorkspaceLeaf, plugin: ExplainSelectionWithAiPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_HISTORY;
+	}
+
+	getDisplayText(): string {
+		return "Explanation history";
+	}
+
+	getIcon(): string {
+		return "history";
+	}
+
+	async onOpen() {
+		const container = this.contentEl;
+		container.empty();
+		container.addClass("explain-selection-history");
+
+		const controls = container.createEl("div", { cls: "explain-selection-history-controls" });
+		const searchInput = controls.createEl("input", {
+			attr: { type: "search", placeholder: "Search history..." },
+		});
+		searchInput.addEventListener("input", () => {
+			this.query = searchInput.value;
+			this.renderList();
+		});
+
+		this.modelDropdown = new DropdownComponent(controls).onChange((value) => {
+			this.modelFilter = value;
+			this.renderList();
+		});
+		this.noteDropdown = new DropdownComponent(controls).onChange((value) => {
+			this.noteFilter = value;
+			this.renderList();
+		});
+
+		this.listEl = container.createEl("div", { cls: "explain-selection-history-list" });
+
+		this.registerEvent(this.plugin.history.on("changed", () => this.renderList()));
+		await this.renderList();
+	}
+
+	private fillDropdown(dropdown: DropdownComponent, allLabel: string, values: string[], current: string) {
+		dropdown.selectEl.empty();
+		dropdown.addOption("", allLabel);
+		for (const value of values) {
+			dropdown.addOption(value, value);
+		}
+		dropdown.setValue(values.includes(current) ? current : "");
+	}
+
+	private async renderList() {
+		const entries = await this.plugin.history.list();
+
+		const models = Array.from(new Set(entries.map((e) => e.model))).sort();
+		const notes = Array.from(new Set(entries.map((e) => e.sourcePath).filter((p) => p))).sort();
+		this.fillDropdown(this.modelDropdown, "All models", models, this.modelFilter);
+		this.fillDropdown(this.noteDropdown, "All notes", notes, this.noteFilter);
+		this.modelFilter = this.modelDropdown.getValue();
+		this.noteFilter = this.noteDropdown.getValue();
+
+		const filtered = filterHistory(entries, {
+			query: this.query,
+			model: this.modelFilter,
+			sourcePath: this.noteFilter,
+		});
+
+		this.listEl.empty();
+		if (filtered.length === 0) {
+			this.listEl.createEl("div", {
+				cls: "explain-selection-history-empty",
+				text: entries.length === 0 ? "No explanations yet." : "No explanations match.",
+			});
+			return;
+		}
+
+		for (const entry of filtered) {
+			this.renderEntry(entry);
+		}
+	}
+
+	private renderEntry(entry: HistoryEntry) {
+		const itemEl = this.listEl.createEl("div", { cls: "explain-selection-history-item" });
+		const headerEl = itemEl.createEl("div", { cls: "explain-selection-history-header" });
+		headerEl.createEl("div", {
+			cls: "explain-selection-history-selection",
+			text: entry.selection,
+		});
+		const noteName = entry.sourcePath.split("/").pop()?.replace(/\.md$/, "") || "—";
+		headerEl.createEl("div", {
+			cls: "explain-selection-history-meta",
+			text: `${entry.promptName} · ${entry.model} · ${noteName} · ${new Date(entry.timestamp).toLocaleString()}`,
+		});
+
+		const bodyEl = itemEl.createEl("div", { cls: "explain-selection-history-body" });
+		bodyEl.hide();
+		let rendered = false;
+		headerEl.addEventListener("click", () => {
+			if (!rendered) {
+				rendered = true;
+				MarkdownRenderer.render(this.app, this.fullText(entry), bodyEl, entry.sourcePath, this);
+			}
+			bodyEl.toggle(!bodyEl.isShown());
+		});
+
+		const actions = itemEl.createEl("div", { cls: "explain-selection-history-actions" });
+		const addAction = (text: string, onClick: () => void) => {
+			actions.createEl("button", { text }).addEventListener("click", onClick);
+		};
+
+		addAction("Re-open", () => this.plugin.reopenHistoryEntry(entry));
+		addAction("Re-insert", () => {
+			const editor = this.app.workspace.activeEditor?.editor;
+			if (!editor) {
+				new Notice("Open a note to insert the explanation into");
+				return;
+			}
+			editor.replaceSelection(formatConversation(entry.turns));
+		});
+		addAction("Save as note", async () => {
+			try {
+				await saveExplanationNote(
+					this.plugin,
+					{
+						selection: entry.selection,
+						sourcePath: entry.sourcePath,
+						model: entry.model,
+						turns: entry.turns,
+						date: new Date(entry.timestamp),
+					},
+					null,
+					itemEl,
+					(path) => this.showSavedNote(itemEl, path)
+				);
+			} catch (err) {
+				new Notice("Failed to save note.");
+				console.error(err);
+			}
+		});
+		addAction("Delete", () => this.plugin.history.remove(entry.id));
+	}
+
+	/**
+	 * Link an entry to the note it was saved as, below its actions.
+	 */
+	private showSavedNote(itemEl: HTMLElement, path: string) {
+		itemEl.querySelector(".explain-selection-history-saved")?.remove();
+		const savedEl = itemEl.createEl("div", { cls: "explain-selection-history-saved", text: "Saved to " });
+		savedEl.createEl("a", { text: path.replace(/\.md$/, ""), href: "#" }).addEventListener("click", (evt) => {
+			evt.preventDefault();
+			this.app.workspace.openLinkText(path, "");
+		});
+	}
+
+	private fullText(entry: HistoryEntry): string {
+		return formatConversation(entry.turns) +
+			buildMetadataBlock(entry.model, entry.turns.map((t) => t.stats as TurnStats), new Date(entry.timestamp));
+	}
+}
+
+class ExplainSelectionWithAiSettingTab extends PluginSettingTab {
+	plugin: ExplainSelectionWithAiPlugin;
+
+	constructor(app: App, plugin: ExplainSelectionWithAiPlugin) {
+		super(app, plugin);
+		this.plugin = plugin;
+	}
+
+	display(): void {
+		const { containerEl } = this;
+		containerEl.empty();
+
+		// AI profiles and the active profile's provider settings
+		const profileEl = containerEl.createDiv();
+		this.displayProfileSettings(profileEl);
 
 		new Setting(containerEl)
-			.setName("LLM provider")
-			.setDesc(
-				"Select the LLM provider you want to use."
-			)
+			.setName("Show explanations in")
+			.setDesc("The popover is a small window at the selection for quick definitions; it can be expanded into the full window. Prompts can override this.")
+			.addDropdown((dropdown) => {
+				for (const [value, label] of Object.entries(DISPLAY_MODE_LABELS)) {
+					dropdown.addOption(value, label);
+				}
+				dropdown
+					.setValue(this.plugin.settings.displayMode)
+					.onChange(async (value) => {
+						this.plugin.settings.displayMode = value as DisplayMode;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		// Context settings
+		new Setting(containerEl)
+			.setName("Context scope")
+			.setDesc("How much of the note around the selection is sent as {{context}}. Prompts can override this.")
+			.addDropdown((dropdown) => {
+				for (const [value, label] of Object.entries(CONTEXT_SCOPE_LABELS)) {
+					dropdown.addOption(value, label);
+				}
+				dropdown
+					.setValue(this.plugin.settings.contextScope)
+					.onChange(async (value) => {
+						this.plugin.settings.contextScope = value as ContextScope;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		this.addNumberSetting(
+			containerEl,
+			"Context character budget",
+			"Maximum characters of context. Text nearest the selection is kept; cuts are marked with [...]. Use 0 for no limit.",
+			"contextMaxChars"
+		);
+
+		this.addNumberSetting(
+			containerEl,
+			"Confirm prompts above (tokens)",
+			"Prompts estimated above this size wait for a click on Send. The context is also trimmed to fit the model's context window when it is known. Use 0 to always send right away.",
+			"confirmAboveTokens"
+		);
+
+		this.addNumberSetting(
+			containerEl,
+			"Linked notes: characters per note",
+			"Used by {{linked_notes}}: how much of each linked, backlinked or title-matching note to include.",
+			"linkedNotesMaxChars"
+		);
+
+		this.addNumberSetting(
+			containerEl,
+			"Linked notes: token budget",
+			"Used by {{linked_notes}}: approximate token limit for all included notes together.",
+			"linkedNotesTokenBudget"
+		);
+
+		// Images
+		new Setting(containerEl)
+			.setName("Images")
+			.setDesc("Images embedded in the selection (![[diagram.png]] or ![](photo.jpg)) are sent to models that can read them.")
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName("Send embedded images")
+			.setDesc("When off, only the text of the selection is sent.")
+			.addToggle((toggle) => {
+				toggle
+					.setValue(this.plugin.settings.imagesEnabled)
+					.onChange(async (value) => {
+						this.plugin.settings.imagesEnabled = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		this.addNumberSetting(
+			containerEl,
+			"Maximum images",
+			"Images beyond this many are left out. Use 0 for no limit.",
+			"imageMaxCount"
+		);
+
+		this.addNumberSetting(
+			containerEl,
+			"Maximum image dimension (pixels)",
+			"Larger images are scaled down so neither side exceeds this before sending. Use 0 to send them at full size.",
+			"imageMaxDimension"
+		);
+
+		this.addNumberSetting(
+			containerEl,
+			"Maximum image size (KB)",
+			"Images still larger than this after scaling are left out. Use 0 for no limit.",
+			"imageMaxSizeKb"
+		);
+
+		// Saved notes
+		const noteVariables = SAVED_NOTE_VARIABLES.map((v) => `{{${v}}}`).join(", ");
+		new Setting(containerEl)
+			.setName("Saved notes")
+			.setDesc(`Where Save as Note & Link puts explanations and what they contain. Variables: ${noteVariables}.`)
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName("Folder")
+			.setDesc("Created when missing, e.g. Glossary or Explanations/{{title}}. Leave empty to save next to the note.")
+			.addText((text) => {
+				text
+					.setPlaceholder("Same folder as the note")
+					.setValue(this.plugin.settings.noteFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.noteFolder = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("File name")
+			.setDesc("Template for the note name, e.g. {{selection}} - {{date}}.")
+			.addText((text) => {
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.noteFileNameTemplate)
+					.setValue(this.plugin.settings.noteFileNameTemplate)
+					.onChange(async (value) => {
+						this.plugin.settings.noteFileNameTemplate = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("Template note")
+			.setDesc("Optional note used for the body. {{answer}} marks where the conversation goes; without it the conversation is added at the end.")
+			.addText((text) => {
+				text
+					.setPlaceholder("Templates/Explanation")
+					.setValue(this.plugin.settings.noteTemplatePath)
+					.onChange(async (value) => {
+						this.plugin.settings.noteTemplatePath = value.trim();
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("Metadata")
+			.setDesc("Frontmatter holds source, model, tokens, cost, created and tags as properties.")
 			.addDropdown((dropdown) => {
+				for (const [value, label] of Object.entries(NOTE_METADATA_FORMAT_LABELS)) {
+					dropdown.addOption(value, label);
+				}
 				dropdown
-					.addOption("openai", "OpenAI (remote)")
-					.addOption("openrouter", "OpenRouter")
-					.addOption("ollama", "Ollama (local)")
-					.addOption("custom", "Custom")
-					.setValue(this.plugin.settings.dropdownValue)
+					.setValue(this.plugin.settings.noteMetadataFormat)
+					.onChange(async (value) => {
+						this.plugin.settings.noteMetadataFormat = value as NoteMetadataFormat;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("Source reference")
+			.setDesc("Adds a Source section pointing to the explained passage, which gets a block id (an existing one is reused). Appending to a note adds another source.")
+			.addDropdown((dropdown) => {
+				for (const [value, label] of Object.entries(NOTE_SOURCE_REFERENCE_LABELS)) {
+					dropdown.addOption(value, label);
+				}
+				dropdown
+					.setValue(this.plugin.settings.noteSourceReference)
+					.onChange(async (value) => {
+						this.plugin.settings.noteSourceReference = value as NoteSourceReference;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("Include reasoning")
+			.setDesc("Keep the model's reasoning (the Thinking section) in saved notes, as a collapsed callout above each answer.")
+			.addToggle((toggle) => {
+				toggle
+					.setValue(this.plugin.settings.noteIncludeReasoning)
 					.onChange(async (value) => {
-						this.plugin.settings.dropdownValue = value;
-						if (value === "custom") {
-							this.plugin.settings.baseURL = "";
-							this.plugin.settings.endpoint = "";
-							this.plugin.settings.apiKey = "";
-						} else if (value === "openai") {
-							this.plugin.settings.baseURL = "https://api.openai.com/v1/";
-							this.plugin.settings.endpoint = "gpt-4o-mini";
-							this.plugin.settings.apiKey = "";
-						} else if (value === "ollama") {
-							this.plugin.settings.baseURL = "http://localhost:11434/v1/";
-							this.plugin.settings.endpoint = "llama3";
-							this.plugin.settings.apiKey = "";
-						} else if (value === "openrouter") {
-							this.plugin.settings.baseURL = "https://openrouter.ai/api/v1";
-						}
+						this.plugin.settings.noteIncludeReasoning = value;
 						await this.plugin.saveSettings();
-						this.displayConditionalSettings(containerEl);
 					});
 			});
 
-		// Prompt settings
 		new Setting(containerEl)
-			.setName("System prompt")
-			.setDesc("The system prompt sent to the LLM.")
-			.addTextArea((text) => {
+			.setName("Tags")
+			.setDesc("Comma-separated tags added to the frontmatter.")
+			.addText((text) => {
 				text
-					.setPlaceholder("You are a helpful assistant.")
-					.setValue(this.plugin.settings.systemPrompt)
+					.setPlaceholder("explanation, ai")
+					.setValue(this.plugin.settings.noteTags)
 					.onChange(async (value) => {
-						this.plugin.settings.systemPrompt = value;
+						this.plugin.settings.noteTags = value;
 						await this.plugin.saveSettings();
 					});
-				text.inputEl.rows = 3;
-				text.inputEl.cols = 50;
 			});
 
+		// Retries and fallbacks
 		new Setting(containerEl)
-			.setName("User prompt template")
-			.setDesc("Template for the user prompt. Use {{selection}} and {{context}} as placeholders.")
-			.addTextArea((text) => {
-				text
-					.setPlaceholder(DEFAULT_SETTINGS.userPromptTemplate)
-					.setValue(this.plugin.settings.userPromptTemplate)
+			.setName("Retries and fallbacks")
+			.setDesc("Rate limits, server errors and dropped connections are retried with growing delays; if the request still fails, the fallbacks are tried in order.")
+			.setHeading();
+
+		this.addNumberSetting(
+			containerEl,
+			"Retries",
+			"How often a failed request is retried per model. Use 0 to disable retrying.",
+			"maxRetries"
+		);
+
+		this.addNumberSetting(
+			containerEl,
+			"Initial retry delay (ms)",
+			"Doubled on each retry. A Retry-After header from the provider takes precedence.",
+			"retryBaseDelayMs"
+		);
+
+		const fallbacksEl = containerEl.createDiv();
+		this.displayFallbacks(fallbacksEl);
+
+		// Spending
+		new Setting(containerEl)
+			.setName("Spending")
+			.setDesc("Tokens and cost of every response are recorded per day, provider and model (command: Show spending report).")
+			.setHeading();
+
+		this.addNumberSetting(
+			containerEl,
+			"Daily budget (USD)",
+			"Use 0 for no daily budget.",
+			"dailyBudget",
+			true
+		);
+
+		this.addNumberSetting(
+			containerEl,
+			"Monthly budget (USD)",
+			"Use 0 for no monthly budget.",
+			"monthlyBudget",
+			true
+		);
+
+		this.addNumberSetting(
+			containerEl,
+			"Warning threshold (%)",
+			"Show a notice once this share of a budget has been spent.",
+			"budgetWarnPercent"
+		);
+
+		new Setting(containerEl)
+			.setName("Block requests over budget")
+			.setDesc("When off, a used-up budget only shows a warning.")
+			.addToggle((toggle) => {
+				toggle
+					.setValue(this.plugin.settings.budgetHardLimit)
 					.onChange(async (value) => {
-						this.plugin.settings.userPromptTemplate = value;
+						this.plugin.settings.budgetHardLimit = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("Spending ledger")
+			.addButton((button) => {
+				button.setButtonText("View report").onClick(() => {
+					new SpendingReportModal(this.app, this.plugin).open();
+				});
+			})
+			.addButton((button) => {
+				button.setButtonText("Clear ledger").setWarning().onClick(async () => {
+					await this.plugin.ledger.clear();
+					new Notice("Spending ledger cleared");
+				});
+			});
+
+		// Model catalogue
+		new Setting(containerEl)
+			.setName("Model lists")
+			.setDesc("Fetched model lists, with pricing and context lengths, are kept in the plugin's folder per provider, URL and API key.")
+			.setHeading();
+
+		this.addNumberSetting(
+			containerEl,
+			"Model list lifetime (hours)",
+			"Older lists are fetched again when needed. Use 0 to keep them until refreshed from the model picker.",
+			"modelCatalogTtlHours"
+		);
+
+		new Setting(containerEl)
+			.setName("Clear model lists")
+			.addButton((button) => {
+				button.setButtonText("Clear").onClick(async () => {
+					await this.plugin.modelCatalog.clear();
+					new Notice("Model lists cleared");
+				});
+			});
+
+		// Response cache
+		new Setting(containerEl)
+			.setName("Response cache")
+			.setDesc("Show a stored answer instantly when the same prompt is sent to the same model again.")
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName("Cache responses")
+			.addToggle((toggle) => {
+				toggle
+					.setValue(this.plugin.settings.responseCacheEnabled)
+					.onChange(async (value) => {
+						this.plugin.settings.responseCacheEnabled = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		this.addNumberSetting(
+			containerEl,
+			"Cache lifetime (days)",
+			"Cached answers older than this are fetched again. Use 0 to keep them forever.",
+			"responseCacheTtlDays"
+		);
+
+		this.addNumberSetting(
+			containerEl,
+			"Maximum cached responses",
+			"Oldest answers are dropped beyond this number. Use 0 for no limit.",
+			"responseCacheMaxEntries"
+		);
+
+		const cacheStatsSetting = new Setting(containerEl)
+			.setName("Cache statistics")
+			.setDesc("Loading...")
+			.addButton((button) => {
+				button.setButtonText("Clear cache").onClick(async () => {
+					await this.plugin.responseCache.clear();
+					new Notice("Response cache cleared");
+					await showCacheStats();
+				});
+			});
+		const showCacheStats = async () => {
+			const stats = await this.plugin.responseCache.stats();
+			cacheStatsSetting.setDesc(
+				`${stats.entries} cached responses · ${stats.hits} hits · ${stats.misses} misses`
+			);
+		};
+		showCacheStats();
+
+		// History
+		new Setting(containerEl)
+			.setName("History")
+			.setDesc("Explanations are recorded in the history sidebar (command: Open explanation history).")
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName("Record history")
+			.addToggle((toggle) => {
+				toggle
+					.setValue(this.plugin.settings.historyEnabled)
+					.onChange(async (value) => {
+						this.plugin.settings.historyEnabled = value;
 						await this.plugin.saveSettings();
 					});
-				text.inputEl.rows = 3;
-				text.inputEl.cols = 50;
 			});
 
-		this.displayConditionalSettings(containerEl);
+		this.addNumberSetting(
+			containerEl,
+			"Maximum history entries",
+			"Oldest entries are dropped beyond this number. Use 0 for no limit.",
+			"historyMaxEntries"
+		);
+
+		new Setting(containerEl)
+			.setName("Clear history")
+			.addButton((button) => {
+				button.setButtonText("Clear history").setWarning().onClick(async () => {
+					await this.plugin.history.clear();
+					new Notice("Explanation history cleared");
+				});
+			});
+
+		// Prompt library
+		new Setting(containerEl)
+			.setName("Prompt library")
+			.setDesc("Each prompt becomes its own command and context-menu entry. Templates support " +
+				`${TEMPLATE_VARIABLES.map((v) => `{{${v}}}`).join(", ")} and {{frontmatter.<key>}}, ` +
+				"and {{#if name}}...{{else}}...{{/if}} blocks that depend on whether a variable is empty.")
+			.setHeading();
+
+		const promptsEl = containerEl.createDiv();
+		this.displayPromptLibrary(promptsEl);
 	}
 
-	private createModelSettingWithBrowse(
+	private addNumberSetting(
 		containerEl: HTMLElement,
 		name: string,
 		desc: string,
-		placeholder: string,
-		getValue: () => string,
-		setValue: (v: string) => Promise<void>,
-		provider: string,
-		getApiKey?: () => string,
-		getBaseURL?: () => string
-	) {
-		const setting = new Setting(containerEl)
+		key: NumericSettingKey,
+		allowDecimals = false
+	): Setting {
+		return new Setting(containerEl)
 			.setName(name)
 			.setDesc(desc)
-			.setClass("conditional-setting");
-
-		let textInputEl: HTMLInputElement;
-
-		setting.addText((text) => {
-			text
-				.setPlaceholder(placeholder)
-				.setValue(getValue())
-				.onChange(async (value) => {
-					await setValue(value);
-				});
-			textInputEl = text.inputEl;
-		});
-
-		setting.addButton((button) => {
-			button.setButtonText("Browse Models").onClick(() => {
-				const modal = new ModelPickerModal(
-					this.app,
-					provider,
-					async (modelId: string) => {
-						textInputEl.value = modelId;
-						textInputEl.dispatchEvent(new Event("input"));
-						await setValue(modelId);
-					},
-					getApiKey ? getApiKey() : undefined,
-					getBaseURL ? getBaseURL() : undefined
-				);
-				modal.open();
+			.addText((text) => {
+				text
+					.setPlaceholder(String(DEFAULT_SETTINGS[key]))
+					.setValue(String(this.plugin.settings[key]))
+					.onChange(async (value) => {
+						const parsed = allowDecimals ? parseFloat(value) : parseInt(value, 10);
+						this.plugin.settings[key] = isNaN(parsed) || parsed < 0
+							? DEFAULT_SETTINGS[key]
+							: parsed;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.type = "number";
 			});
-		});
-
-		return setting;
 	}
 
-	displayConditionalSettings(containerEl: HTMLElement) {
-		const existingConditionalSettings = containerEl.querySelectorAll('.conditional-setting');
-		existingConditionalSettings.forEach(setting => setting.remove());
+	private displayPromptLibrary(promptsEl: HTMLElement) {
+		promptsEl.empty();
+		const prompts = this.plugin.settings.prompts;
 
-		if (this.plugin.settings.dropdownValue === 'openai') {
-			new Setting(containerEl)
-				.setName('API Key')
-				.setDesc('Enter your OpenAI API key. (required)')
-				.addText(text => {
+		// After adding, deleting or reordering prompts
+		const savePrompts = async () => {
+			await this.plugin.saveSettings();
+			this.plugin.registerPromptCommands();
+			this.displayPromptLibrary(promptsEl);
+		};
+
+		prompts.forEach((prompt, index) => {
+			const promptEl = promptsEl.createDiv({ cls: "explain-selection-prompt" });
+
+			new Setting(promptEl)
+				.setName("Name")
+				.setDesc("Shown as the command name.")
+				.addText((text) => {
 					text
-						.setPlaceholder("sk-...")
-						.setValue(this.plugin.settings.apiKey)
+						.setValue(prompt.name)
 						.onChange(async (value) => {
-							this.plugin.settings.apiKey = value;
+							prompt.name = value;
 							await this.plugin.saveSettings();
 						});
+					// Re-registering on every keystroke would churn the command list
+					text.inputEl.addEventListener("blur", () => this.plugin.registerPromptCommands());
 				})
-				.setClass('conditional-setting');
-
-			this.createModelSettingWithBrowse(
-				containerEl,
-				"OpenAI model",
-				"Select or type the OpenAI model you want to use.",
-				"gpt-4o-mini",
-				() => this.plugin.settings.endpoint,
-				async (v) => {
-					this.plugin.settings.endpoint = v;
-					await this.plugin.saveSettings();
-				},
-				"openai",
-				() => this.plugin.settings.apiKey
-			);
+				.addExtraButton((button) => {
+					button
+						.setIcon("arrow-up")
+						.setTooltip("Move up")
+						.setDisabled(index === 0)
+						.onClick(async () => {
+							if (index === 0) return;
+							[prompts[index - 1], prompts[index]] = [prompts[index], prompts[index - 1]];
+							await savePrompts();
+						});
+				})
+				.addExtraButton((button) => {
+					button
+						.setIcon("arrow-down")
+						.setTooltip("Move down")
+						.setDisabled(index === prompts.length - 1)
+						.onClick(async () => {
+							if (index === prompts.length - 1) return;
+							[prompts[index + 1], prompts[index]] = [prompts[index], prompts[index + 1]];
+							await savePrompts();
+						});
+				})
+				.addExtraButton((button) => {
+					button
+						.setIcon("trash")
+						.setTooltip("Delete prompt")
+						.setDisabled(prompts.length === 1)
+						.onClick(async () => {
+							if (prompts.length === 1) return;
+							prompts.splice(index, 1);
+							await savePrompts();
+						});
+				});
 
-		} else if (this.plugin.settings.dropdownValue === 'openrouter') {
-			new Setting(containerEl)
-				.setName('OpenRouter API Key')
-				.setDesc('Enter your OpenRouter API key. (required)')
-				.addText(text => {
+			new Setting(promptEl)
+				.setName("System prompt")
+				.setDesc("The system prompt sent to the LLM.")
+				.addTextArea((text) => {
 					text
-						.setPlaceholder("sk-or-...")
-						.setValue(this.plugin.settings.openRouterApiKey)
+						.setPlaceholder(DEFAULT_PROMPT.systemPrompt)
+						.setValue(prompt.systemPrompt)
 						.onChange(async (value) => {
-							this.plugin.settings.openRouterApiKey = value;
+							prompt.systemPrompt = value;
 							await this.plugin.saveSettings();
 						});
-				})
-				.setClass('conditional-setting');
-
-			this.createModelSettingWithBrowse(
-				containerEl,
-				"Model",
-				"Select or type the OpenRouter model name.",
-				"anthropic/claude-sonnet-4",
-				() => this.plugin.settings.openRouterModel,
-				async (v) => {
-					this.plugin.settings.openRouterModel = v;
-					await this.plugin.saveSettings();
-				},
-				"openrouter"
-			);
+					text.inputEl.rows = 3;
+					text.inputEl.cols = 50;
+				});
+
+			const templateSetting = new Setting(promptEl)
+				.setName("User prompt template")
+				.setDesc("Template for the user prompt. Also used for the context-menu label. " +
+					`Variables: ${TEMPLATE_VARIABLES.map((v) => `{{${v}}}`).join(", ")}. ` +
+					"Conditionals: {{#if context}}...{{else}}...{{/if}}.");
+			const templateWarningEl = templateSetting.descEl.createDiv({
+				cls: "explain-selection-template-warning",
+			});
+			const showTemplateProblems = (template: string) => {
+				templateWarningEl.empty();
+				for (const problem of validateTemplate(template)) {
+					templateWarningEl.createDiv({ text: problem });
+				}
+			};
+			showTemplateProblems(prompt.userPromptTemplate);
+			templateSetting.addTextArea((text) => {
+				text
+					.setPlaceholder(DEFAULT_PROMPT.userPromptTemplate)
+					.setValue(prompt.userPromptTemplate)
+					.onChange(async (value) => {
+						prompt.userPromptTemplate = value;
+						showTemplateProblems(value);
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.rows = 3;
+				text.inputEl.cols = 50;
+			});
 
-			new Setting(containerEl)
-				.setName('HTTP-Referer (optional)')
-				.setDesc('Your site URL for OpenRouter app attribution and rankings.')
-				.addText(text => {
+			new Setting(promptEl)
+				.setName("Model override")
+				.setDesc("Optional. Leave empty to use the provider's configured model.")
+				.addText((text) => {
 					text
-						.setPlaceholder("https://your-site.com")
-						.setValue(this.plugin.settings.openRouterReferer)
+						.setValue(prompt.model)
 						.onChange(async (value) => {
-							this.plugin.settings.openRouterReferer = value;
+							prompt.model = value.trim();
 							await this.plugin.saveSettings();
 						});
-				})
-				.setClass('conditional-setting');
-			new Setting(containerEl)
-				.setName('X-Title (optional)')
-				.setDesc('Your app name for OpenRouter attribution.')
-				.addText(text => {
-					text
-						.setPlaceholder("Obsidian Explain Selection")
-						.setValue(this.plugin.settings.openRouterTitle)
+				});
+
+			new Setting(promptEl)
+				.setName("Context scope")
+				.setDesc("Optional override of the global context scope.")
+				.addDropdown((dropdown) => {
+					dropdown.addOption("", "Default");
+					for (const [value, label] of Object.entries(CONTEXT_SCOPE_LABELS)) {
+						dropdown.addOption(value, label);
+					}
+					dropdown
+						.setValue(prompt.contextScope)
 						.onChange(async (value) => {
-							this.plugin.settings.openRouterTitle = value;
+							prompt.contextScope = value as ContextScope | "";
 							await this.plugin.saveSettings();
 						});
-				})
-				.setClass('conditional-setting');
-
-		} else if (this.plugin.settings.dropdownValue === 'ollama') {
-			this.createModelSettingWithBrowse(
-				containerEl,
-				"Ollama model",
-				"Select or type the Ollama model you want to use. Make sure Ollama is running.",
-				"llama3",
-				() => this.plugin.settings.endpoint,
-				async (v) => {
-					this.plugin.settings.endpoint = v;
-					await this.plugin.saveSettings();
-				},
-				"ollama",
-				undefined,
-				() => this.plugin.settings.baseURL
-			);
+				});
 
-		} else if (this.plugin.settings.dropdownValue === 'custom') {
-			new Setting(containerEl)
-				.setName('Base URL')
-				.setDesc('Enter your custom base URL.')
-				.addText(text => {
-					text
-						.setValue(this.plugin.settings.baseURL)
+			new Setting(promptEl)
+				.setName("Output")
+				.setDesc("What the main button in the answer window does. The others stay available under More….")
+				.addDropdown((dropdown) => {
+					for (const [value, label] of Object.entries(OUTPUT_ACTION_LABELS)) {
+						dropdown.addOption(value, label);
+					}
+					dropdown
+						.setValue(prompt.outputAction)
 						.onChange(async (value) => {
-							this.plugin.settings.baseURL = value;
+							prompt.outputAction = value as OutputAction;
 							await this.plugin.saveSettings();
 						});
-				})
-				.setClass('conditional-setting');
+				});
 
-			new Setting(containerEl)
-				.setName('Endpoint')
-				.setDesc('Enter your custom endpoint / model name.')
-				.addText(text => {
-					text
-						.setValue(this.plugin.settings.endpoint)
+			new Setting(promptEl)
+				.setName("Show in")
+				.setDesc("Optional override of where the answer is shown.")
+				.addDropdown((dropdown) => {
+					dropdown.addOption("", "Default");
+					for (const [value, label] of Object.entries(DISPLAY_MODE_LABELS)) {
+						dropdown.addOption(value, label);
+					}
+					dropdown
+						.setValue(prompt.displayMode)
 						.onChange(async (value) => {
-							this.plugin.settings.endpoint = value;
+							prompt.displayMode = value as DisplayMode | "";
 							await this.plugin.saveSettings();
 						});
-				})
-				.setClass('conditional-setting');
+				});
 
-			new Setting(containerEl)
-				.setName('API Key')
-				.setDesc('Enter your custom API key. (Optional)')
-				.addText(text => {
+			new Setting(promptEl)
+				.setName("Icon")
+				.setDesc("Lucide icon name for the command and menu item.")
+				.addText((text) => {
 					text
-						.setValue(this.plugin.settings.apiKey)
+						.setPlaceholder(DEFAULT_PROMPT.icon)
+						.setValue(prompt.icon)
 						.onChange(async (value) => {
-							this.plugin.settings.apiKey = value;
+							prompt.icon = value.trim();
 							await this.plugin.saveSettings();
 						});
+					text.inputEl.addEventListener("blur", () => this.plugin.registerPromptCommands());
+				});
+		});
+
+		new Setting(promptsEl).addButton((button) => {
+			button.setButtonText("Add prompt").onClick(async () => {
+				let id = `prompt-${Date.now().toString(36)}`;
+				while (prompts.some((p) => p.id === id)) {
+					id += "-1";
+				}
+				prompts.push({
+					...DEFAULT_PROMPT,
+					id,
+					name: "New prompt",
+				});
+				await savePrompts();
+			});
+		});
+	}
+
+	/**
+	 * Render the ordered fallback chain: a profile and optional model per row.
+	 */
+	private displayFallbacks(fallbacksEl: HTMLElement) {
+		fallbacksEl.empty();
+		const settings = this.plugin.settings;
+		const fallbacks = settings.fallbackTargets;
+
+		const saveFallbacks = async (rerender = false) => {
+			await this.plugin.saveSettings();
+			if (rerender) {
+				this.displayFallbacks(fallbacksEl);
+			}
+		};
+
+		fallbacks.forEach((target, index) => {
+			new Setting(fallbacksEl)
+				.setName(`Fallback ${index + 1}`)
+				.addDropdown((dropdown) => {
+					for (const profile of settings.profiles) {
+						dropdown.addOption(profile.id, profile.name);
+					}
+					dropdown
+						.setValue(target.profileId)
+						.onChange(async (value) => {
+							target.profileId = value;
+							await saveFallbacks();
+						});
+				})
+				.addText((text) => {
+					text
+						.setPlaceholder("Profile's model")
+						.setValue(target.model)
+						.onChange(async (value) => {
+							target.model = value.trim();
+							await saveFallbacks();
+						});
+				})
+				.addExtraButton((button) => {
+					button
+						.setIcon("arrow-up")
+						.setTooltip("Move up")
+						.setDisabled(index === 0)
+						.onClick(async () => {
+							if (index === 0) return;
+							[fallbacks[index - 1], fallbacks[index]] = [fallbacks[index], fallbacks[index - 1]];
+							await saveFallbacks(true);
+						});
 				})
-				.setClass('conditional-setting');
+				.addExtraButton((button) => {
+					button
+						.setIcon("arrow-down")
+						.setTooltip("Move down")
+						.setDisabled(index === fallbacks.length - 1)
+						.onClick(async () => {
+							if (index === fallbacks.length - 1) return;
+							[fallbacks[index + 1], fallbacks[index]] = [fallbacks[index], fallbacks[index + 1]];
+							await saveFallbacks(true);
+						});
+				})
+				.addExtraButton((button) => {
+					button
+						.setIcon("trash")
+						.setTooltip("Remove fallback")
+						.onClick(async () => {
+							fallbacks.splice(index, 1);
+							await saveFallbacks(true);
+						});
+				});
+		});
+
+		new Setting(fallbacksEl).addButton((button) => {
+			button.setButtonText("Add fallback").onClick(async () => {
+				fallbacks.push({ profileId: getActiveProfile(settings).id, model: "" });
+				await saveFallbacks(true);
+			});
+		});
+	}
+
+	/**
+	 * Render the profile picker and the active profile's provider settings.
+	 * Re-rendered whenever the profile or its provider changes.
+	 */
+	private displayProfileSettings(profileEl: HTMLElement) {
+		profileEl.empty();
+		const settings = this.plugin.settings;
+		const profile = getActiveProfile(settings);
+		const provider = getProvider(profile.provider);
+
+		const saveProfile = async (rerender = false) => {
+			await this.plugin.saveSettings();
+			if (rerender) {
+				this.displayProfileSettings(profileEl);
+			}
+		};
+
+		const addProfile = async (base: ProviderProfile, name: string) => {
+			let id = `profile-${Date.now().toString(36)}`;
+			while (settings.profiles.some((p) => p.id === id)) {
+				id += "-1";
+			}
+			settings.profiles.push({ ...base, id, name });
+			settings.activeProfileId = id;
+			await saveProfile(true);
+		};
+
+		let profileDropdown: DropdownComponent;
+		new Setting(profileEl)
+			.setName("AI profile")
+			.setDesc("Saved provider configurations. The selected profile is used for new explanations; " +
+				"switch it with the \"Switch AI profile\" command, the status bar or the explanation window.")
+			.addDropdown((dropdown) => {
+				profileDropdown = dropdown;
+				for (const p of settings.profiles) {
+					dropdown.addOption(p.id, p.name || "Untitled profile");
+				}
+				dropdown
+					.setValue(profile.id)
+					.onChange(async (id) => {
+						settings.activeProfileId = id;
+						await saveProfile(true);
+					});
+			})
+			.addExtraButton((button) => {
+				button
+					.setIcon("plus")
+					.setTooltip("Add profile")
+					.onClick(() => addProfile(DEFAULT_PROFILE, "New profile"));
+			})
+			.addExtraButton((button) => {
+				button
+					.setIcon("copy")
+					.setTooltip("Duplicate profile")
+					.onClick(() => addProfile(profile, `${profile.name} copy`));
+			})
+			.addExtraButton((button) => {
+				button
+					.setIcon("trash")
+					.setTooltip("Delete profile")
+					.setDisabled(settings.profiles.length === 1)
+					.onClick(async () => {
+						if (settings.profiles.length === 1) return;
+						settings.profiles = settings.profiles.filter((p) => p.id !== profile.id);
+						settings.activeProfileId = settings.profiles[0].id;
+						settings.fallbackTargets = settings.fallbackTargets.filter((t) => t.profileId !== profile.id);
+						await this.plugin.saveSettings();
+						// Re-render everything so the fallback list drops the profile too
+						this.display();
+					});
+			});
+
+		new Setting(profileEl)
+			.setName("Profile name")
+			.addText((text) => {
+				text
+					.setValue(profile.name)
+					.onChange(async (value) => {
+						profile.name = value;
+						// Keep the picker in sync without re-rendering (which would steal focus)
+						const option = profileDropdown.selectEl.options[profileDropdown.selectEl.selectedIndex];
+						if (option) option.text = value || "Untitled profile";
+						await saveProfile();
+					});
+			});
+
+		new Setting(profileEl)
+			.setName("LLM provider")
+			.setDesc(
+				"Select the LLM provider you want to use."
+			)
+			.addDropdown((dropdown) => {
+				for (const p of PROVIDERS) {
+					dropdown.addOption(p.id, p.label);
+				}
+				dropdown
+					.setValue(profile.provider)
+					.onChange(async (value) => {
+						switchProvider(profile, value, getProvider(value).defaults);
+						await saveProfile(true);
+					});
+			});
+
+		for (const field of provider.settingFields) {
+			if (field.type === "number") {
+				new Setting(profileEl)
+					.setName(field.name)
+					.setDesc(field.desc)
+					.addText((text) => {
+						text
+							.setPlaceholder(String(DEFAULT_PROFILE[field.key]))
+							.setValue(String(profile[field.key]))
+							.onChange(async (value) => {
+								const parsed = parseInt(value, 10);
+								profile[field.key] = isNaN(parsed) || parsed < 1
+									? DEFAULT_PROFILE[field.key]
+									: parsed;
+								await saveProfile();
+							});
+						text.inputEl.type = "number";
+					});
+			} else if (field.type === "model") {
+				this.createModelSettingWithBrowse(
+					profileEl,
+					field.name,
+					field.desc,
+					field.placeholder ?? "",
+					() => profile[field.key],
+					async (v) => {
+						profile[field.key] = v;
+						await saveProfile();
+					},
+					profile
+				);
+			} else {
+				new Setting(profileEl)
+					.setName(field.name)
+					.setDesc(field.desc)
+					.addText(text => {
+						text
+							.setPlaceholder(field.placeholder ?? "")
+							.setValue(profile[field.key])
+							.onChange(async (value) => {
+								profile[field.key] = value || field.fallback || "";
+								await saveProfile();
+							});
+					});
+			}
+		}
+
+		new Setting(profileEl)
+			.setName("Temperature")
+			.setDesc("Sampling temperature sent with each request. Leave empty to use the provider's default.")
+			.addText((text) => {
+				text
+					.setPlaceholder("Provider default")
+					.setValue(profile.temperature === undefined ? "" : String(profile.temperature))
+					.onChange(async (value) => {
+						const parsed = parseFloat(value);
+						profile.temperature = isNaN(parsed) || parsed < 0 ? undefined : parsed;
+						await saveProfile();
+					});
+				text.inputEl.type = "number";
+				text.inputEl.step = "0.1";
+			});
+	}
+
+	private createModelSettingWithBrowse(
+		containerEl: HTMLElement,
+		name: string,
+		desc: string,
+		placeholder: string,
+		getValue: () => string,
+		setValue: (v: string) => Promise<void>,
+		profile: ProviderProfile
+	) {
+		const setting = new Setting(containerEl)
+			.setName(name)
+			.setDesc(desc);
+
+		let textInputEl: HTMLInputElement;
+
+		setting.addText((text) => {
+			text
+				.setPlaceholder(placeholder)
+				.setValue(getValue())
+				.onChange(async (value) => {
+					await setValue(value);
+				});
+			textInputEl = text.inputEl;
+		});
+
+		if (getProvider(profile.provider).listModels) {
+			setting.addButton((button) => {
+				button.setButtonText("Browse Models").onClick(() => {
+					const modal = new ModelPickerModal(
+						this.app,
+						this.plugin,
+						profile,
+						async (modelId: string) => {
+							textInputEl.value = modelId;
+							textInputEl.dispatchEvent(new Event("input"));
+							await setValue(modelId);
+						}
+					);
+					modal.open();
+				});
+			});
 		}
+
+		return setting;
 	}
 }
@@ -0,0 +1,338 @@
+// anthropic.ts — Native Anthropic Messages API adapter (no Obsidian imports)
+
+import { ChatMessage, ChatStreamChunk, DEFAULT_PROFILE, ModelInfo, calculateCost } from "../lib";
+import { FetchLike, ProviderAdapter, TokenUsage } from "./types";
+
+export const ANTHROPIC_API_VERSION = "2023-06-01";
+
+// Smallest extended thinking budget the API accepts
+const MIN_THINKING_BUDGET = 1024;
+
+/**
+ * Error returned by the Anthropic API, carrying the HTTP status so the
+ * modal can report it like OpenAI SDK errors.
+ */
+export class AnthropicError extends Error {
+	status: number;
+	/** Response headers, read for Retry-After when retrying. */
+	headers?: Headers;
+
+	constructor(message: string, status: number, headers?: Headers) {
+		super(message);
+		this.name = "AnthropicError";
+		this.status = status;
+		this.headers = headers;
+	}
+}
+
+// HTTP statuses the API uses for the error types that can also arrive mid-stream
+const STREAM_ERROR_STATUS: Record<string, number> = {
+	api_error: 500,
+	overloaded_error: 529,
+	rate_limit_error: 429,
+};
+
+export interface AnthropicStreamOptions {
+	baseURL: string;
+	apiKey: string;
+	model: string;
+	messages: ChatMessage[];
+	maxTokens: number;
+	temperature?: number;
+	/** Extended thinking budget in tokens; 0 or undefined leaves it off. */
+	thinkingBudget?: number;
+	fetch: FetchLike;
+	signal?: AbortSignal;
+}
+
+export interface SSEEvent {
+	event?: string;
+	data: string;
+}
+
+/**
+ * Strip trailing slashes and an optional /v1 suffix from a base URL.
+ */
+export function normalizeAnthropicBaseUrl(baseURL: string): string {
+	return (baseURL || "https://api.anthropic.com").replace(/\/+$/, "").replace(/\/v1$/, "");
+}
+
+export function buildAnthropicHeaders(apiKey: string): Record<string, string> {
+	return {
+		"content-type": "application/json",
+		"x-api-key": apiKey,
+		"anthropic-version": ANTHROPIC_API_VERSION,
+		// Required for requests made from a browser context such as Obsidian
+		"anthropic-dangerous-direct-browser-access": "true",
+	};
+}
+
+/**
+ * Message content for the Messages API: plain text, or base64 image blocks
+ * followed by the text (images first, as Anthropic recommends).
+ */
+function toAnthropicContent(message: ChatMessage): string | Array<Record<string, unknown>> {
+	if (!message.images?.length) {
+		return message.content;
+	}
+	return [
+		...message.images.map((image) => ({
+			type: "image",
+			source: { type: "base64", media_type: image.mimeType, data: image.data },
+		})),
+		{ type: "text", text: message.content },
+	];
+}
+
+/**
+ * Build a streaming /v1/messages request body. System messages are moved
+ * to the top-level system field, as the Messages API requires. With a
+ * thinking budget, max_tokens grows by the budget so the answer keeps its
+ * limit, and the temperature is left out since thinking doesn't allow one.
+ */
+export function buildAnthropicRequest(
+	model: string,
+	messages: ChatMessage[],
+	maxTokens: number,
+	temperature?: number,
+	thinkingBudget = 0
+): Record<string, unknown> {
+	const system = messages
+		.filter((m) => m.role === "system")
+		.map((m) => m.content)
+		.join("\n\n");
+	const body: Record<string, unknown> = {
+		model,
+		max_tokens: maxTokens,
+		stream: true,
+		messages: messages
+			.filter((m) => m.role !== "system")
+			.map((m) => ({ role: m.role, content: toAnthropicContent(m) })),
+	};
+	if (system) {
+		body.system = system;
+	}
+	if (thinkingBudget > 0) {
+		const budget = Math.max(MIN_THINKING_BUDGET, thinkingBudget);
+		body.thinking = { type: "enabled", budget_tokens: budget };
+		body.max_tokens = maxTokens + budget;
+	} else if (temperature !== undefined) {
+		body.temperature = temperature;
+	}
+	return body;
+}
+
+/**
+ * Split buffered SSE text into complete events. Returns the events and the
+ * trailing, not yet complete, remainder.
+ */
+export function parseSSEEvents(buffer: string): { events: SSEEvent[]; rest: string } {
+	const blocks = buffer.split(/\r?\n\r?\n/);
+	const rest = blocks.pop() ?? "";
+	const events: SSEEvent[] = [];
+
+	for (const block of blocks) {
+		let event: string | undefined;
+		const data: string[] = [];
+		for (const line of block.split(/\r?\n/)) {
+			if (line.startsWith(":")) continue;
+			const colon = line.indexOf(":");
+			const field = colon === -1 ? line : line.substring(0, colon);
+			const value = colon === -1 ? "" : line.substring(colon + 1).replace(/^ /, "");
+			if (field === "event") event = value;
+			else if (field === "data") data.push(value);
+		}
+		if (data.length > 0) {
+			events.push({ event, data: data.join("\n") });
+		}
+	}
+
+	return { events, rest };
+}
+
+/**
+ * Read an Anthropic usage object. Cached input tokens are counted as
+ * prompt tokens.
+ */
+export function extractAnthropicUsage(raw: any): TokenUsage | undefined {
+	if (!raw || typeof raw !== "object") {
+		return undefined;
+	}
+	return {
+		promptTokens:
+			(raw.input_tokens || 0) +
+			(raw.cache_creation_input_tokens || 0) +
+			(raw.cache_read_input_tokens || 0),
+		completionTokens: raw.output_tokens || 0,
+	};
+}
+
+/**
+ * Map one Anthropic stream event onto a chunk, updating the running usage
+ * totals. Throws on "error" events, with the matching HTTP status for
+ * transient ones so they can be retried.
+ */
+export function applyAnthropicEvent(
+	data: any,
+	usage: TokenUsage
+): ChatStreamChunk | null {
+	switch (data?.type) {
+		case "message_start": {
+			const start = extractAnthropicUsage(data.message?.usage || {}) as TokenUsage;
+			usage.promptTokens = start.promptTokens;
+			usage.completionTokens = start.completionTokens;
+			return { usage: { ...usage } };
+		}
+		case "content_block_delta":
+			if (data.delta?.type === "text_delta" && data.delta.text) {
+				return { text: data.delta.text };
+			}
+			if (data.delta?.type === "thinking_delta" && data.delta.thinking) {
+				return { reasoning: data.delta.thinking };
+			}
+			return null;
+		case "message_delta":
+			if (data.usage?.output_tokens !== undefined) {
+				usage.completionTokens = data.usage.output_tokens;
+				return { usage: { ...usage } };
+			}
+			return null;
+		case "error": {
+			const message = data.error?.message || "Anthropic stream error";
+			const status = STREAM_ERROR_STATUS[data.error?.type];
+			throw status ? new AnthropicError(message, status) : new Error(message);
+		}
+		default:
+			return null;
+	}
+}
+
+/**
+ * Stream a chat completion from the Anthropic Messages API.
+ */
+export async function* streamAnthropicMessages(options: AnthropicStreamOptions): AsyncGenerator<ChatStreamChunk> {
+	const response = await options.fetch(`${normalizeAnthropicBaseUrl(options.baseURL)}/v1/messages`, {
+		method: "POST",
+		headers: buildAnthropicHeaders(options.apiKey),
+		body: JSON.stringify(buildAnthropicRequest(
+			options.model,
+			options.messages,
+			options.maxTokens,
+			options.temperature,
+			options.thinkingBudget
+		)),
+		signal: options.signal,
+	});
+
+	if (!response.ok || !response.body) {
+		const body = await response.text();
+		let message = body || response.statusText;
+		try {
+			message = JSON.parse(body).error?.message || message;
+		} catch {
+			// Not JSON; use the raw body
+		}
+		throw new AnthropicError(message, response.status, response.headers);
+	}
+
+	const reader = response.body.getReader();
+	const decoder = new TextDecoder();
+	const usage = { promptTokens: 0, completionTokens: 0 };
+	let buffer = "";
+
+	for (;;) {
+		const { done, value } = await reader.read();
+		buffer += done ? decoder.decode() + "\n\n" : decoder.decode(value, { stream: true });
+
+		const parsed = parseSSEEvents(buffer);
+		buffer = parsed.rest;
+		for (const event of parsed.events) {
+			const chunk = applyAnthropicEvent(JSON.parse(event.data), usage);
+			if (chunk) yield chunk;
+		}
+
+		if (done) break;
+	}
+}
+
+/**
+ * Parse the Anthropic /v1/models response into ModelInfo[], sorted alphabetically.
+ */
+export function parseAnthropicModels(data: any): ModelInfo[] {
+	const models: ModelInfo[] = ((data && data.data) || []).map((m: any) => ({
+		id: m.id,
+		name: m.display_name || undefined,
+	}));
+	models.sort((a, b) => a.id.localeCompare(b.id));
+	return models;
+}
+
+export const anthropicProvider: ProviderAdapter = {
+	id: "anthropic",
+	label: "Anthropic",
+	settingFields: [
+		{
+			type: "text",
+			key: "anthropicApiKey",
+			name: "Anthropic API Key",
+			desc: "Enter your Anthropic API key. (required)",
+			placeholder: "sk-ant-...",
+		},
+		{
+			type: "model",
+			key: "anthropicModel",
+			name: "Anthropic model",
+			desc: "Select or type the Claude model you want to use.",
+			placeholder: DEFAULT_PROFILE.anthropicModel,
+		},
+		{
+			type: "text",
+			key: "anthropicBaseURL",
+			name: "Base URL",
+			desc: "Anthropic API base URL. Change only for proxies or local test servers.",
+			placeholder: DEFAULT_PROFILE.anthropicBaseURL,
+			fallback: DEFAULT_PROFILE.anthropicBaseURL,
+		},
+		{
+			type: "number",
+			key: "anthropicMaxTokens",
+			name: "Max output tokens",
+			desc: "Upper limit for the length of each answer (required by the Anthropic API).",
+		},
+		{
+			type: "number",
+			key: "anthropicThinkingBudget",
+			name: "Thinking budget",
+			desc: "Tokens Claude may spend reasoning before it answers, shown as Thinking (at least 1024; 0 turns it off). Ignores the temperature.",
+		},
+	],
+	getConfig: (settings) => ({
+		baseURL: settings.anthropicBaseURL,
+		apiKey: settings.anthropicApiKey,
+		model: settings.anthropicModel,
+	}),
+	async listModels(settings, http) {
+		if (!settings.anthropicApiKey) {
+			throw new Error("Anthropic API key is required to fetch models.");
+		}
+		const data = await http.getJson(
+			`${normalizeAnthropicBaseUrl(settings.anthropicBaseURL)}/v1/models?limit=1000`,
+			buildAnthropicHeaders(settings.anthropicApiKey)
+		);
+		return parseAnthropicModels(data);
+	},
+	streamChat: (request, http) =>
+		streamAnthropicMessages({
+			baseURL: request.settings.anthropicBaseURL,
+			apiKey: request.settings.anthropicApiKey,
+			model: request.model,
+			messages: request.messages,
+			maxTokens: request.settings.anthropicMaxTokens,
+			temperature: request.settings.temperature,
+			thinkingBudget: request.settings.anthropicThinkingBudget,
+			fetch: http.fetch,
+			signal: request.signal,
+		}),
+	extractUsage: extractAnthropicUsage,
+	calculateCost: (model, usage) => calculateCost(model, usage.promptTokens, usage.completionTokens),
+};
@@ -0,0 +1,35 @@
+// custom.ts — Adapter for any OpenAI-compatible endpoint (no Obsidian imports)
+
+import { buildOpenAICompatibleConfig, createOpenAICompatibleProvider } from "./openaiCompatible";
+
+export const customProvider = createOpenAICompatibleProvider({
+	id: "custom",
+	label: "Custom",
+	settingFields: [
+		{
+			type: "text",
+			key: "baseURL",
+			name: "Base URL",
+			desc: "Enter your custom base URL.",
+		},
+		{
+			type: "text",
+			key: "endpoint",
+			name: "Endpoint",
+			desc: "Enter your custom endpoint / model name.",
+		},
+		{
+			type: "text",
+			key: "apiKey",
+			name: "API Key",
+			desc: "Enter your custom API key. (Optional)",
+		},
+	],
+	defaults: {
+		baseURL: "",
+		endpoint: "",
+		apiKey: "",
+	},
+	getConfig: (settings) =>
+		buildOpenAICompatibleConfig(settings.baseURL, settings.apiKey, settings.endpoint),
+});
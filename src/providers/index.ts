@@ -0,0 +1,38 @@
+// index.ts — Provider registry (no Obsidian imports)
+
+import { ProviderSettings } from "../lib";
+import { ProviderAdapter, ProviderConfig } from "./types";
+import { openaiProvider } from "./openai";
+import { openRouterProvider } from "./openrouter";
+import { anthropicProvider } from "./anthropic";
+import { ollamaProvider } from "./ollama";
+import { customProvider } from "./custom";
+
+export * from "./types";
+export * from "./retry";
+
+/**
+ * All providers, in the order they are offered in settings.
+ */
+export const PROVIDERS: ProviderAdapter[] = [
+	openaiProvider,
+	openRouterProvider,
+	anthropicProvider,
+	ollamaProvider,
+	customProvider,
+];
+
+/**
+ * Look up a provider by id. Unknown ids fall back to the custom provider,
+ * which reads the generic base URL, endpoint and API key settings.
+ */
+export function getProvider(id: string): ProviderAdapter {
+	return PROVIDERS.find((p) => p.id === id) ?? customProvider;
+}
+
+/**
+ * Determine baseURL, apiKey, model, and optional headers based on provider selection.
+ */
+export function getProviderConfig(settings: ProviderSettings): ProviderConfig {
+	return getProvider(settings.provider).getConfig(settings);
+}
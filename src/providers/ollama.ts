@@ -0,0 +1,76 @@
+// ollama.ts — Ollama provider adapter (no Obsidian imports)
+
+import { ModelInfo } from "../lib";
+import { buildOpenAICompatibleConfig, createOpenAICompatibleProvider } from "./openaiCompatible";
+
+/**
+ * Parse Ollama API response into ModelInfo[], sorted alphabetically.
+ */
+export function parseOllamaModels(data: any): ModelInfo[] {
+	const models: ModelInfo[] = ((data && data.models) || []).map((m: any) => ({
+		id: m.name,
+	}));
+	models.sort((a, b) => a.id.localeCompare(b.id));
+	return models;
+}
+
+/**
+ * Strip /v1/ suffix from a URL to derive the Ollama base URL.
+ */
+export function deriveOllamaBaseUrl(baseURL: string): string {
+	if (!baseURL) {
+		return "http://localhost:11434";
+	}
+	return baseURL.replace(/\/v1\/?$/, "");
+}
+
+/**
+ * Context window from an Ollama /api/show response. A num_ctx parameter in
+ * the Modelfile is what Ollama actually uses, so it wins over the model's
+ * trained context_length.
+ */
+export function parseOllamaContextLength(data: any): number | undefined {
+	const numCtx = String(data?.parameters || "").match(/^num_ctx\s+(\d+)/m);
+	if (numCtx) {
+		return parseInt(numCtx[1], 10);
+	}
+	const info = data?.model_info || {};
+	const key = Object.keys(info).find((k) => k.endsWith(".context_length"));
+	return key && typeof info[key] === "number" ? info[key] : undefined;
+}
+
+export const ollamaProvider = createOpenAICompatibleProvider({
+	id: "ollama",
+	label: "Ollama (local)",
+	settingFields: [
+		{
+			type: "model",
+			key: "endpoint",
+			name: "Ollama model",
+			desc: "Select or type the Ollama model you want to use. Make sure Ollama is running.",
+			placeholder: "llama3",
+		},
+	],
+	defaults: {
+		baseURL: "http://localhost:11434/v1/",
+		endpoint: "llama3",
+		apiKey: "",
+	},
+	getConfig: (settings) =>
+		buildOpenAICompatibleConfig(settings.baseURL, settings.apiKey, settings.endpoint),
+	async listModels(settings, http) {
+		const data = await http.getJson(`${deriveOllamaBaseUrl(settings.baseURL)}/api/tags`);
+		return parseOllamaModels(data);
+	},
+	async getContextLength(settings, model, http) {
+		const response = await http.fetch(`${deriveOllamaBaseUrl(settings.baseURL)}/api/show`, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ model }),
+		});
+		if (!response.ok) {
+			return undefined;
+		}
+		return parseOllamaContextLength(await response.json());
+	},
+});
@@ -0,0 +1,113 @@
+// openai.ts — OpenAI provider adapter (no Obsidian imports)
+
+import { ModelInfo, calculateCost } from "../lib";
+import { buildOpenAICompatibleConfig, createOpenAICompatibleProvider } from "./openaiCompatible";
+
+/**
+ * Filter OpenAI model list to chat models only, sorted alphabetically.
+ */
+export function filterOpenAIModels(models: Array<{ id: string }>): ModelInfo[] {
+	const chatPrefixes = ["gpt-", "o1", "o3", "o4", "chatgpt-"];
+	const excludePrefixes = ["dall-e", "tts-", "whisper", "embedding", "text-embedding", "babbage", "davinci"];
+
+	const filtered: ModelInfo[] = models
+		.filter((m) => {
+			const id = m.id;
+			const matchesChat = chatPrefixes.some((p) => id.startsWith(p));
+			const excluded = excludePrefixes.some((p) => id.startsWith(p));
+			return matchesChat && !excluded;
+		})
+		.map((m) => ({ id: m.id }));
+
+	filtered.sort((a, b) => a.id.localeCompare(b.id));
+	return filtered;
+}
+
+/**
+ * USD per million tokens for OpenAI chat models, since the models endpoint
+ * returns no pricing. Update when OpenAI changes its price list.
+ */
+export const OPENAI_PRICING: Record<string, { prompt: number; completion: number }> = {
+	"gpt-5": { prompt: 1.25, completion: 10 },
+	"gpt-5-mini": { prompt: 0.25, completion: 2 },
+	"gpt-5-nano": { prompt: 0.05, completion: 0.4 },
+	"gpt-4.1": { prompt: 2, completion: 8 },
+	"gpt-4.1-mini": { prompt: 0.4, completion: 1.6 },
+	"gpt-4.1-nano": { prompt: 0.1, completion: 0.4 },
+	"gpt-4o": { prompt: 2.5, completion: 10 },
+	"gpt-4o-mini": { prompt: 0.15, completion: 0.6 },
+	"chatgpt-4o-latest": { prompt: 5, completion: 15 },
+	"gpt-4-turbo": { prompt: 10, completion: 30 },
+	"gpt-4": { prompt: 30, completion: 60 },
+	"gpt-3.5-turbo": { prompt: 0.5, completion: 1.5 },
+	"o1": { prompt: 15, completion: 60 },
+	"o1-mini": { prompt: 1.1, completion: 4.4 },
+	"o3": { prompt: 2, completion: 8 },
+	"o3-mini": { prompt: 1.1, completion: 4.4 },
+	"o4-mini": { prompt: 1.1, completion: 4.4 },
+};
+
+/**
+ * Per-token pricing for an OpenAI model from OPENAI_PRICING. Dated
+ * snapshots such as "gpt-4o-2024-08-06" match their base model; the
+ * longest matching name wins, so "gpt-4o-mini-…" is not priced as "gpt-4o".
+ */
+export function lookupOpenAIPricing(modelId: string): ModelInfo["pricing"] | undefined {
+	let match: string | undefined;
+	for (const name of Object.keys(OPENAI_PRICING)) {
+		if ((modelId === name || modelId.startsWith(`${name}-`)) && (!match || name.length > match.length)) {
+			match = name;
+		}
+	}
+	if (!match) {
+		return undefined;
+	}
+	const price = OPENAI_PRICING[match];
+	return {
+		prompt: String(price.prompt / 1e6),
+		completion: String(price.completion / 1e6),
+	};
+}
+
+export const openaiProvider = createOpenAICompatibleProvider({
+	id: "openai",
+	label: "OpenAI (remote)",
+	settingFields: [
+		{
+			type: "text",
+			key: "apiKey",
+			name: "API Key",
+			desc: "Enter your OpenAI API key. (required)",
+			placeholder: "sk-...",
+		},
+		{
+			type: "model",
+			key: "endpoint",
+			name: "OpenAI model",
+			desc: "Select or type the OpenAI model you want to use.",
+			placeholder: "gpt-4o-mini",
+		},
+	],
+	defaults: {
+		baseURL: "https://api.openai.com/v1/",
+		endpoint: "gpt-4o-mini",
+		apiKey: "",
+	},
+	getConfig: (settings) =>
+		buildOpenAICompatibleConfig(settings.baseURL, settings.apiKey, settings.endpoint),
+	async listModels(settings, http) {
+		if (!settings.apiKey) {
+			throw new Error("OpenAI API key is required to fetch models.");
+		}
+		const data = await http.getJson("https://api.openai.com/v1/models", {
+			Authorization: `Bearer ${settings.apiKey}`,
+		});
+		return filterOpenAIModels(data?.data || [])
+			.map((m) => ({ ...m, pricing: lookupOpenAIPricing(m.id) }));
+	},
+	calculateCost: (model, usage) => calculateCost(
+		model && { ...model, pricing: model.pricing ?? lookupOpenAIPricing(model.id) },
+		usage.promptTokens,
+		usage.completionTokens
+	),
+});
@@ -0,0 +1,124 @@
+// openaiCompatible.ts — Shared adapter pieces for OpenAI-compatible endpoints (no Obsidian imports)
+
+import OpenAI from "openai";
+import { ChatMessage, ChatStreamChunk, calculateCost } from "../lib";
+import { ChatRequest, ProviderAdapter, ProviderConfig, ProviderHttp, TokenUsage } from "./types";
+
+type OpenAICompatibleDefinition =
+	Omit<ProviderAdapter, "streamChat" | "extractUsage" | "calculateCost"> &
+	Partial<Pick<ProviderAdapter, "streamChat" | "extractUsage" | "calculateCost">>;
+
+/**
+ * Build a config, substituting "-" for an empty API key since the OpenAI
+ * SDK refuses to send requests without one (Ollama and many custom
+ * endpoints need no key).
+ */
+export function buildOpenAICompatibleConfig(
+	baseURL: string,
+	apiKey: string,
+	model: string,
+	defaultHeaders?: Record<string, string>
+): ProviderConfig {
+	return {
+		baseURL,
+		apiKey: apiKey === "" ? "-" : apiKey,
+		model,
+		defaultHeaders: defaultHeaders && Object.keys(defaultHeaders).length > 0 ? defaultHeaders : undefined,
+	};
+}
+
+/**
+ * Read the usage object of a chat completion (chunk), including reasoning
+ * tokens when the server breaks them out.
+ */
+export function extractOpenAIUsage(raw: any): TokenUsage | undefined {
+	if (!raw || typeof raw.prompt_tokens !== "number") {
+		return undefined;
+	}
+	const reasoningTokens = raw.completion_tokens_details?.reasoning_tokens;
+	return {
+		promptTokens: raw.prompt_tokens,
+		completionTokens: raw.completion_tokens || 0,
+		...(typeof reasoningTokens === "number" ? { reasoningTokens } : {}),
+	};
+}
+
+/**
+ * Convert chat messages to the Chat Completions format; messages with
+ * images become text plus image_url parts with data URLs.
+ */
+export function toOpenAIMessages(messages: ChatMessage[]): OpenAI.Chat.ChatCompletionMessageParam[] {
+	return messages.map((m): OpenAI.Chat.ChatCompletionMessageParam => {
+		if (m.role !== "user" || !m.images?.length) {
+			return { role: m.role, content: m.content };
+		}
+		return {
+			role: "user",
+			content: [
+				{ type: "text", text: m.content },
+				...m.images.map((image) => ({
+					type: "image_url" as const,
+					image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+				})),
+			],
+		};
+	});
+}
+
+/**
+ * Stream a chat completion through the OpenAI SDK, using the adapter's
+ * config and usage extraction.
+ */
+export async function* streamOpenAICompatible(
+	adapter: ProviderAdapter,
+	request: ChatRequest,
+	http: ProviderHttp
+): AsyncGenerator<ChatStreamChunk> {
+	const config = adapter.getConfig(request.settings);
+	const openai = new OpenAI({
+		baseURL: config.baseURL,
+		apiKey: config.apiKey,
+		dangerouslyAllowBrowser: true,
+		defaultHeaders: config.defaultHeaders,
+		fetch: http.fetch as any,
+		// Retries are handled by streamWithFallback for all providers alike
+		maxRetries: 0,
+	});
+
+	const completion = await openai.chat.completions.create(
+		{
+			model: request.model,
+			messages: toOpenAIMessages(request.messages),
+			temperature: request.settings.temperature,
+			stream: true,
+			stream_options: { include_usage: true } as any,
+		},
+		{ signal: request.signal }
+	);
+
+	for await (const chunk of completion) {
+		const delta: any = chunk.choices[0]?.delta;
+		// OpenRouter sends reasoning, DeepSeek-style servers reasoning_content
+		const reasoning = delta?.reasoning || delta?.reasoning_content;
+		yield {
+			text: delta?.content || undefined,
+			reasoning: typeof reasoning === "string" && reasoning ? reasoning : undefined,
+			usage: adapter.extractUsage((chunk as any).usage),
+		};
+	}
+}
+
+/**
+ * Create an adapter for an OpenAI-compatible provider. Streaming, usage
+ * extraction and pricing (from the model's listed pricing) default to the
+ * shared implementations.
+ */
+export function createOpenAICompatibleProvider(definition: OpenAICompatibleDefinition): ProviderAdapter {
+	const adapter: ProviderAdapter = {
+		streamChat: (request, http) => streamOpenAICompatible(adapter, request, http),
+		extractUsage: extractOpenAIUsage,
+		calculateCost: (model, usage) => calculateCost(model, usage.promptTokens, usage.completionTokens),
+		...definition,
+	};
+	return adapter;
+}
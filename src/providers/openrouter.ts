@@ -0,0 +1,82 @@
+// openrouter.ts — OpenRouter provider adapter (no Obsidian imports)
+
+import { ModelInfo } from "../lib";
+import { buildOpenAICompatibleConfig, createOpenAICompatibleProvider } from "./openaiCompatible";
+
+const OPENROUTER_BASE_URL = "https://openrouter.ai/api/v1";
+
+/**
+ * Parse OpenRouter API response into ModelInfo[], sorted alphabetically.
+ */
+export function parseOpenRouterModels(data: any): ModelInfo[] {
+	const models: ModelInfo[] = ((data && data.data) || []).map((m: any) => ({
+		id: m.id,
+		name: m.name || undefined,
+		contextLength: typeof m.context_length === "number" ? m.context_length : undefined,
+		modality: m.architecture?.modality || undefined,
+		inputModalities: Array.isArray(m.architecture?.input_modalities) ? m.architecture.input_modalities : undefined,
+		pricing: m.pricing?.prompt && m.pricing?.completion
+			? { prompt: m.pricing.prompt, completion: m.pricing.completion }
+			: undefined,
+	}));
+	models.sort((a, b) => a.id.localeCompare(b.id));
+	return models;
+}
+
+export const openRouterProvider = createOpenAICompatibleProvider({
+	id: "openrouter",
+	label: "OpenRouter",
+	settingFields: [
+		{
+			type: "text",
+			key: "openRouterApiKey",
+			name: "OpenRouter API Key",
+			desc: "Enter your OpenRouter API key. (required)",
+			placeholder: "sk-or-...",
+		},
+		{
+			type: "model",
+			key: "openRouterModel",
+			name: "Model",
+			desc: "Select or type the OpenRouter model name.",
+			placeholder: "anthropic/claude-sonnet-4",
+		},
+		{
+			type: "text",
+			key: "openRouterReferer",
+			name: "HTTP-Referer (optional)",
+			desc: "Your site URL for OpenRouter app attribution and rankings.",
+			placeholder: "https://your-site.com",
+		},
+		{
+			type: "text",
+			key: "openRouterTitle",
+			name: "X-Title (optional)",
+			desc: "Your app name for OpenRouter attribution.",
+			placeholder: "Obsidian Explain Selection",
+		},
+	],
+	defaults: {
+		baseURL: OPENROUTER_BASE_URL,
+	},
+	getConfig(settings) {
+		const defaultHeaders: Record<string, string> = {};
+		if (settings.openRouterReferer) {
+			defaultHeaders["HTTP-Referer"] = settings.openRouterReferer;
+		}
+		if (settings.openRouterTitle) {
+			defaultHeaders["X-Title"] = settings.openRouterTitle;
+		}
+		return buildOpenAICompatibleConfig(
+			OPENROUTER_BASE_URL,
+			settings.openRouterApiKey,
+			settings.openRouterModel,
+			defaultHeaders
+		);
+	},
+	// The model list is public, so no API key is needed
+	async listModels(settings, http) {
+		return parseOpenRouterModels(await http.getJson(`${OPENROUTER_BASE_URL}/models`));
+	},
+	listsContextLength: true,
+});
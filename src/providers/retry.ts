@@ -0,0 +1,181 @@
+// retry.ts — Retry with backoff and fallback across providers (no Obsidian imports)
+
+import { ChatMessage, ChatStreamChunk, ProviderSettings, withoutImages } from "../lib";
+import { ProviderAdapter, ProviderHttp } from "./types";
+
+/**
+ * One entry of the fallback chain: a provider with its settings and model.
+ */
+export interface StreamTarget {
+	adapter: ProviderAdapter;
+	settings: ProviderSettings;
+	model: string;
+	/** Set for models that reject images; their messages are sent without them. */
+	textOnly?: boolean;
+}
+
+export interface RetryOptions {
+	/** Retries per target after the first attempt; 0 disables retrying. */
+	maxRetries: number;
+	baseDelayMs: number;
+	/** Upper bound for a single wait; longer Retry-After values skip to the next target. */
+	maxDelayMs: number;
+	signal?: AbortSignal;
+	onRetry?: (event: { target: number; attempt: number; delayMs: number; error: unknown }) => void;
+	onFallback?: (event: { from: number; to: number; error: unknown }) => void;
+	/** Injectable for tests. */
+	sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+	random?: () => number;
+}
+
+// Messages of network-level failures across browsers, Node and the OpenAI SDK
+const NETWORK_ERROR_RE = /network|failed to fetch|fetch failed|load failed|connection|ECONNRESET|ETIMEDOUT|socket hang up|timed out/i;
+
+function errorStatus(err: unknown): number | undefined {
+	if (err && typeof err === "object" && "status" in err) {
+		const status = (err as { status: unknown }).status;
+		return typeof status === "number" ? status : undefined;
+	}
+	return undefined;
+}
+
+/**
+ * Whether an error is worth retrying: rate limits (429), timeouts (408),
+ * server errors (5xx) and network failures.
+ */
+export function isRetryableError(err: unknown): boolean {
+	if (!err || (err as { name?: string }).name === "AbortError") {
+		return false;
+	}
+	const status = errorStatus(err);
+	if (status !== undefined) {
+		return status === 408 || status === 429 || status >= 500;
+	}
+	return err instanceof Error && NETWORK_ERROR_RE.test(err.message);
+}
+
+/**
+ * Read a Retry-After (seconds or HTTP date) or retry-after-ms header from an
+ * error's headers, which may be a Headers object or a plain record.
+ */
+export function getRetryAfterMs(err: unknown, now = Date.now()): number | undefined {
+	const headers = err && typeof err === "object" ? (err as { headers?: any }).headers : undefined;
+	if (!headers) {
+		return undefined;
+	}
+	const read = (name: string): string | undefined =>
+		(typeof headers.get === "function" ? headers.get(name) : headers[name]) ?? undefined;
+
+	const ms = parseFloat(read("retry-after-ms") ?? "");
+	if (!isNaN(ms)) {
+		return Math.max(0, ms);
+	}
+	const value = read("retry-after");
+	if (!value) {
+		return undefined;
+	}
+	const seconds = parseFloat(value);
+	if (!isNaN(seconds)) {
+		return Math.max(0, seconds * 1000);
+	}
+	const date = Date.parse(value);
+	return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Delay before retry number `attempt` (0-based): the server's Retry-After
+ * when given, otherwise exponential backoff with jitter, capped at maxDelayMs.
+ */
+export function computeBackoffDelay(
+	attempt: number,
+	options: Pick<RetryOptions, "baseDelayMs" | "maxDelayMs">,
+	retryAfterMs?: number,
+	random: () => number = Math.random
+): number {
+	if (retryAfterMs !== undefined) {
+		return retryAfterMs;
+	}
+	const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * Math.pow(2, attempt));
+	// Full jitter in the upper half spreads out retries from parallel requests
+	return Math.round(exponential * (0.5 + random() * 0.5));
+}
+
+function abortError(): Error {
+	const err = new Error("Request aborted");
+	err.name = "AbortError";
+	return err;
+}
+
+function defaultSleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(abortError());
+			return;
+		}
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(abortError());
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+}
+
+/**
+ * Stream a chat completion from the first target, retrying transient
+ * failures with backoff and then falling through the remaining targets.
+ * Only failures before any text arrived are retried; once text has been
+ * streamed the error is rethrown so the caller can keep the partial answer.
+ */
+export async function* streamWithFallback(
+	targets: StreamTarget[],
+	messages: ChatMessage[],
+	http: ProviderHttp,
+	options: RetryOptions
+): AsyncGenerator<ChatStreamChunk> {
+	const sleep = options.sleep ?? defaultSleep;
+	let lastError: unknown;
+
+	for (let index = 0; index < targets.length; index++) {
+		const target = targets[index];
+		if (index > 0) {
+			options.onFallback?.({ from: index - 1, to: index, error: lastError });
+		}
+
+		const targetMessages = target.textOnly ? withoutImages(messages) : messages;
+		for (let attempt = 0; ; attempt++) {
+			let receivedText = false;
+			try {
+				const chunks = target.adapter.streamChat(
+					{ settings: target.settings, model: target.model, messages: targetMessages, signal: options.signal },
+					http
+				);
+				for await (const chunk of chunks) {
+					if (chunk.text) receivedText = true;
+					yield chunk;
+				}
+				return;
+			} catch (err: unknown) {
+				if (receivedText || options.signal?.aborted) {
+					throw err;
+				}
+				lastError = err;
+
+				const retryAfterMs = getRetryAfterMs(err);
+				const canRetry = attempt < options.maxRetries &&
+					isRetryableError(err) &&
+					(retryAfterMs === undefined || retryAfterMs <= options.maxDelayMs);
+				if (!canRetry) break;
+
+				const delayMs = computeBackoffDelay(attempt, options, retryAfterMs, options.random);
+				options.onRetry?.({ target: index, attempt: attempt + 1, delayMs, error: err });
+				await sleep(delayMs, options.signal);
+			}
+		}
+	}
+
+	throw lastError;
+}
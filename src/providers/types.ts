@@ -0,0 +1,92 @@
+// types.ts — Provider adapter interface (no Obsidian imports)
+
+import {
+	ChatMessage,
+	ChatStreamChunk,
+	ModelInfo,
+	NumericKey,
+	ProviderSettings,
+	StringKey,
+} from "../lib";
+
+export interface TokenUsage {
+	promptTokens: number;
+	completionTokens: number;
+	/** Part of completionTokens spent on reasoning, when reported. */
+	reasoningTokens?: number;
+}
+
+export type FetchLike = (url: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * HTTP access handed to adapters, so they can be exercised against fake
+ * responses in tests. In Obsidian, getJson goes through requestUrl (no
+ * CORS restrictions) and fetch is the browser fetch used for streaming.
+ */
+export interface ProviderHttp {
+	getJson(url: string, headers?: Record<string, string>): Promise<any>;
+	fetch: FetchLike;
+}
+
+/**
+ * Connection details resolved from a profile's provider settings.
+ */
+export interface ProviderConfig {
+	baseURL: string;
+	apiKey: string;
+	model: string;
+	defaultHeaders?: Record<string, string>;
+}
+
+export interface ChatRequest {
+	settings: ProviderSettings;
+	model: string;
+	messages: ChatMessage[];
+	signal?: AbortSignal;
+}
+
+/**
+ * A provider setting rendered in the profile settings. "model" fields get
+ * a Browse Models button when the provider can list models.
+ */
+export type ProviderSettingField =
+	| {
+		type: "text" | "model";
+		key: StringKey<ProviderSettings>;
+		name: string;
+		desc: string;
+		placeholder?: string;
+		/** Value stored when the field is cleared. */
+		fallback?: string;
+	}
+	| {
+		type: "number";
+		key: NumericKey<ProviderSettings>;
+		name: string;
+		desc: string;
+	};
+
+/**
+ * Everything provider-specific: config, settings UI, model listing, the
+ * streaming chat call, usage extraction and pricing. Adding a provider
+ * means implementing this interface and listing it in providers/index.ts.
+ */
+export interface ProviderAdapter {
+	id: string;
+	label: string;
+	settingFields: ProviderSettingField[];
+	/** Settings applied when the provider is selected for a profile. */
+	defaults?: Partial<ProviderSettings>;
+	getConfig(settings: ProviderSettings): ProviderConfig;
+	/** Omitted when the provider has no model listing endpoint. */
+	listModels?(settings: ProviderSettings, http: ProviderHttp): Promise<ModelInfo[]>;
+	/** Set when listModels reports each model's contextLength. */
+	listsContextLength?: boolean;
+	/** Context window of a model in tokens, or undefined when unknown. */
+	getContextLength?(settings: ProviderSettings, model: string, http: ProviderHttp): Promise<number | undefined>;
+	streamChat(request: ChatRequest, http: ProviderHttp): AsyncGenerator<ChatStreamChunk>;
+	/** Read token usage from a raw usage object in the provider's format. */
+	extractUsage(raw: any): TokenUsage | undefined;
+	/** Cost in USD, or undefined when the provider has no pricing for the model. */
+	calculateCost(model: ModelInfo | undefined, usage: TokenUsage): number | undefined;
+}
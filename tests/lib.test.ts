@@ -1,22 +1,242 @@
 import {
-  ExplainSelectionWithAiPluginSettings,
   DEFAULT_SETTINGS,
+  DEFAULT_PROMPT,
+  DEFAULT_PROFILE,
+  getActiveProfile,
+  switchProvider,
+  normalizeCompareTargets,
+  resolveFallbackChain,
+  MAX_COMPARE_TARGETS,
+  migrateSettings,
   buildPrompt,
+  validateTemplate,
+  findHeadingPath,
+  formatLocalDate,
+  templateUsesVariable,
+  estimateTokens,
+  countTokens,
+  estimatePromptTokens,
+  fitContextToTokens,
+  assembleLinkedNotes,
+  frontmatterLength,
+  LinkedNoteCandidate,
   buildMenuLabel,
-  getProviderConfig,
-  filterOpenAIModels,
-  parseOpenRouterModels,
-  parseOllamaModels,
-  deriveOllamaBaseUrl,
+  placePopover,
+  findContextRange,
+  extractContext,
+  TRUNCATION_MARKER,
   filterModels,
+  locateBlockId,
+  relocateBlockInsert,
+  formatSavedNote,
+  appendSavedNote,
+  SavedNote,
+  normalizeFolderPath,
+  mergeFrontmatter,
+  buildSavedNote,
+  SavedNoteSettings,
+  buildCallout,
+  buildFootnote,
+  nextFootnoteLabel,
+  insertUnderHeading,
+  fuzzyScore,
+  sortModels,
+  formatPricePerMillion,
+  formatContextLength,
+  modelKey,
+  pushRecentModel,
+  toggleFavouriteModel,
   sanitizeFileName,
+  calculateCost,
+  formatConversation,
+  splitMarkdownBlocks,
+  splitThinkTags,
+  buildMetadataBlock,
+  mergeTurnStats,
   ModelInfo,
+  TurnStats,
+  createResponseCache,
+  hashString,
+  buildResponseCacheKey,
+  lookupCachedResponse,
+  storeCachedResponse,
+  buildWikiLink,
+  upsertHistoryEntry,
+  filterHistory,
+  HistoryEntry,
+  buildCatalogKey,
+  isCatalogEntryFresh,
+  createLedger,
+  recordSpend,
+  rollUpLedger,
+  sumLedger,
+  getReportPeriods,
+  topModels,
+  checkBudget,
+  ChatMessage,
+  ChatImage,
+  findEmbeddedImages,
+  fitImageSize,
+  supportsImageInput,
+  withoutImages,
 } from "../src/lib";
 
-// Helper to create settings with overrides
-function makeSettings(overrides: Partial<ExplainSelectionWithAiPluginSettings> = {}): ExplainSelectionWithAiPluginSettings {
-  return { ...DEFAULT_SETTINGS, ...overrides };
-}
+// ─── migrateSettings ───────────────────────────────────────────
+
+describe("switchProvider", () => {
+  const ollamaDefaults = { baseURL: "http://localhost:11434/v1/", endpoint: "llama3", apiKey: "" };
+
+  it("applies the defaults of a provider used for the first time", () => {
+    const profile = { ...DEFAULT_PROFILE, apiKey: "sk-1", endpoint: "gpt-4o" };
+    switchProvider(profile, "ollama", ollamaDefaults);
+    expect(profile).toMatchObject({ provider: "ollama", ...ollamaDefaults });
+  });
+
+  it("restores the fields last used with a provider", () => {
+    const profile = { ...DEFAULT_PROFILE, apiKey: "sk-1", endpoint: "gpt-4o" };
+    switchProvider(profile, "ollama", ollamaDefaults);
+    profile.endpoint = "qwen2";
+    switchProvider(profile, "openai", { baseURL: "https://api.openai.com/v1/", endpoint: "gpt-4o-mini", apiKey: "" });
+    expect(profile).toMatchObject({ provider: "openai", apiKey: "sk-1", endpoint: "gpt-4o" });
+    switchProvider(profile, "ollama", ollamaDefaults);
+    expect(profile.endpoint).toBe("qwen2");
+  });
+});
+
+describe("migrateSettings", () => {
+  it("returns defaults for empty data", () => {
+    expect(migrateSettings(null)).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it("converts legacy systemPrompt/userPromptTemplate into the first prompt", () => {
+    const settings = migrateSettings({
+      dropdownValue: "ollama",
+      systemPrompt: "Be brief.",
+      userPromptTemplate: "Define {{selection}}",
+    });
+    expect(settings.profiles[0].provider).toBe("ollama");
+    expect(settings.prompts).toEqual([
+      { ...DEFAULT_PROMPT, systemPrompt: "Be brief.", userPromptTemplate: "Define {{selection}}" },
+    ]);
+    expect("systemPrompt" in settings).toBe(false);
+    expect("userPromptTemplate" in settings).toBe(false);
+  });
+
+  it("keeps saved prompts and fills in missing fields", () => {
+    const settings = migrateSettings({
+      prompts: [{ id: "eli5", name: "ELI5", systemPrompt: "s", userPromptTemplate: "t" }],
+    });
+    expect(settings.prompts).toEqual([
+      { ...DEFAULT_PROMPT, id: "eli5", name: "ELI5", systemPrompt: "s", userPromptTemplate: "t" },
+    ]);
+  });
+
+  it("moves legacy flat provider settings into the first profile", () => {
+    const settings = migrateSettings({
+      dropdownValue: "ollama",
+      baseURL: "http://localhost:11434/v1/",
+      endpoint: "llama3",
+      apiKey: "",
+      anthropicMaxTokens: 1024,
+      contextMaxChars: 500,
+    });
+    expect(settings.profiles).toEqual([{
+      ...DEFAULT_PROFILE,
+      provider: "ollama",
+      baseURL: "http://localhost:11434/v1/",
+      endpoint: "llama3",
+      apiKey: "",
+      anthropicMaxTokens: 1024,
+    }]);
+    expect(settings.activeProfileId).toBe(DEFAULT_PROFILE.id);
+    expect(settings.contextMaxChars).toBe(500);
+    expect("dropdownValue" in settings).toBe(false);
+    expect("baseURL" in settings).toBe(false);
+  });
+
+  it("keeps saved profiles and repairs a missing active profile", () => {
+    const settings = migrateSettings({
+      profiles: [
+        { id: "work", name: "Work", provider: "openai", apiKey: "sk-work" },
+        { id: "local", name: "Local", provider: "ollama" },
+      ],
+      activeProfileId: "deleted",
+    });
+    expect(settings.profiles[0]).toEqual({ ...DEFAULT_PROFILE, id: "work", name: "Work", apiKey: "sk-work" });
+    expect(settings.profiles[1].provider).toBe("ollama");
+    expect(settings.activeProfileId).toBe("work");
+  });
+});
+
+describe("getActiveProfile", () => {
+  it("returns the active profile, or the first one", () => {
+    const local = { ...DEFAULT_PROFILE, id: "local", name: "Local" };
+    const settings = { ...DEFAULT_SETTINGS, profiles: [DEFAULT_PROFILE, local], activeProfileId: "local" };
+    expect(getActiveProfile(settings)).toBe(local);
+    expect(getActiveProfile({ ...settings, activeProfileId: "missing" })).toBe(DEFAULT_PROFILE);
+  });
+});
+
+describe("normalizeCompareTargets", () => {
+  const local = { ...DEFAULT_PROFILE, id: "local", name: "Local" };
+
+  it("pads with the active profile up to two columns", () => {
+    const settings = { ...DEFAULT_SETTINGS, profiles: [DEFAULT_PROFILE, local], activeProfileId: "local" };
+    expect(normalizeCompareTargets(settings)).toEqual([
+      { profileId: "local", model: "" },
+      { profileId: "local", model: "" },
+    ]);
+  });
+
+  it("drops targets of deleted profiles and caps the number of columns", () => {
+    const settings = {
+      ...DEFAULT_SETTINGS,
+      profiles: [DEFAULT_PROFILE, local],
+      compareTargets: [
+        { profileId: "gone", model: "x" },
+        { profileId: "local", model: "llama3" },
+        { profileId: "default", model: "gpt-4o" },
+        { profileId: "default", model: "gpt-4o-mini" },
+        { profileId: "local", model: "mistral" },
+        { profileId: "local", model: "phi3" },
+      ],
+    };
+    const targets = normalizeCompareTargets(settings);
+    expect(targets).toHaveLength(MAX_COMPARE_TARGETS);
+    expect(targets.map((t) => t.model)).toEqual(["llama3", "gpt-4o", "gpt-4o-mini", "mistral"]);
+    // Copies, so edits in the setup modal don't leak into the settings
+    targets[0].model = "changed";
+    expect(settings.compareTargets[1].model).toBe("llama3");
+  });
+});
+
+describe("resolveFallbackChain", () => {
+  const local = { ...DEFAULT_PROFILE, id: "local", name: "Local", provider: "ollama" };
+
+  it("puts the requested profile first and skips missing or repeated fallbacks", () => {
+    const settings = {
+      ...DEFAULT_SETTINGS,
+      profiles: [DEFAULT_PROFILE, local],
+      fallbackTargets: [
+        { profileId: "gone", model: "" },
+        { profileId: "default", model: "gpt-4o" },
+        { profileId: "local", model: "" },
+        { profileId: "local", model: "" },
+      ],
+    };
+    const chain = resolveFallbackChain(settings, DEFAULT_PROFILE, "gpt-4o");
+    expect(chain.map((c) => [c.profile.id, c.model])).toEqual([
+      ["default", "gpt-4o"],
+      ["local", ""],
+    ]);
+  });
+
+  it("returns only the requested profile without fallbacks", () => {
+    expect(resolveFallbackChain(DEFAULT_SETTINGS, DEFAULT_PROFILE, "")).toEqual([
+      { profile: DEFAULT_PROFILE, model: "" },
+    ]);
+  });
+});
 
 // ─── buildPrompt ────────────────────────────────────────────────
 
@@ -46,6 +266,352 @@ describe("buildPrompt", () => {
     const result = buildPrompt("{{selection}} | {{context}}", sel, ctx);
     expect(result).toBe(`${sel} | ${ctx}`);
   });
+
+  it("does not interpret placeholders inside the selection", () => {
+    expect(buildPrompt("{{selection}}/{{context}}", "{{context}}", "C")).toBe("{{context}}/C");
+  });
+
+  it("replaces note variables and selection_length", () => {
+    const result = buildPrompt(
+      "{{title}}|{{heading}}|{{tags}}|{{date}}|{{vault}}|{{selection_length}}",
+      "abc",
+      "",
+      { title: "Note", heading: "A > B", tags: "#x, #y", date: "2026-01-02", vault: "V" }
+    );
+    expect(result).toBe("Note|A > B|#x, #y|2026-01-02|V|3");
+  });
+
+  it("replaces frontmatter keys, joining lists", () => {
+    const result = buildPrompt("{{frontmatter.author}} / {{frontmatter.aliases}} / {{frontmatter.missing}}", "", "", {
+      frontmatter: { author: "Ada", aliases: ["a", "b"] },
+    });
+    expect(result).toBe("Ada / a, b / ");
+  });
+
+  it("keeps {{#if}} bodies only when the variable is non-empty", () => {
+    const template = "Explain {{selection}}{{#if context}} in {{context}}{{/if}}.";
+    expect(buildPrompt(template, "X", "Y")).toBe("Explain X in Y.");
+    expect(buildPrompt(template, "X", "  ")).toBe("Explain X.");
+  });
+
+  it("supports {{else}} and nested conditionals", () => {
+    const template = "{{#if title}}[{{title}}{{#if heading}}: {{heading}}{{/if}}]{{else}}untitled{{/if}}";
+    expect(buildPrompt(template, "", "", { title: "T", heading: "H" })).toBe("[T: H]");
+    expect(buildPrompt(template, "", "", { title: "T" })).toBe("[T]");
+    expect(buildPrompt(template, "", "", {})).toBe("untitled");
+  });
+
+  it("leaves unknown variables untouched", () => {
+    expect(buildPrompt("{{nope}} {{selection}}", "s", "")).toBe("{{nope}} s");
+  });
+});
+
+// ─── validateTemplate ──────────────────────────────────────────
+
+describe("validateTemplate", () => {
+  it("accepts known variables and balanced conditionals", () => {
+    expect(validateTemplate("{{selection}} {{frontmatter.author}} {{#if context}}{{context}}{{else}}-{{/if}}")).toEqual([]);
+  });
+
+  it("reports unknown variables once each", () => {
+    expect(validateTemplate("{{selecton}} {{selecton}} {{#if foo}}x{{/if}}")).toEqual([
+      "Unknown variable: {{selecton}}",
+      "Unknown variable: {{foo}}",
+    ]);
+  });
+
+  it("reports unbalanced blocks", () => {
+    expect(validateTemplate("{{#if context}}x")).toEqual(["1 unclosed {{#if}} block"]);
+    expect(validateTemplate("x{{/if}}")).toEqual(["{{/if}} without a matching {{#if}}"]);
+    expect(validateTemplate("{{else}}")).toEqual(["{{else}} outside an {{#if}} block"]);
+  });
+
+  it("rejects a bare frontmatter. prefix", () => {
+    expect(validateTemplate("{{frontmatter.}}")).toEqual(["Unknown variable: {{frontmatter.}}"]);
+  });
+});
+
+// ─── findHeadingPath ───────────────────────────────────────────
+
+describe("findHeadingPath", () => {
+  const doc = "# A\ntext\n## B\n```\n# not a heading\n```\n### C\nhere\n## D\nthere";
+
+  it("builds the path of enclosing headings", () => {
+    expect(findHeadingPath(doc, doc.indexOf("here"))).toBe("A > B > C");
+  });
+
+  it("pops headings of the same or deeper level", () => {
+    expect(findHeadingPath(doc, doc.indexOf("there"))).toBe("A > D");
+  });
+
+  it("returns empty string before any heading", () => {
+    expect(findHeadingPath("plain\n# Later", 0)).toBe("");
+  });
+});
+
+// ─── linked notes ──────────────────────────────────────────────
+
+describe("templateUsesVariable", () => {
+  it("detects placeholders and #if blocks", () => {
+    expect(templateUsesVariable("x {{ linked_notes }}", "linked_notes")).toBe(true);
+    expect(templateUsesVariable("{{#if linked_notes}}y{{/if}}", "linked_notes")).toBe(true);
+    expect(templateUsesVariable("{{linked_notes_x}}", "linked_notes")).toBe(false);
+  });
+});
+
+describe("frontmatterLength", () => {
+  it("measures the leading frontmatter block", () => {
+    expect(frontmatterLength("---\na: 1\n---\nbody")).toBe(13);
+    expect(frontmatterLength("body\n---\n")).toBe(0);
+  });
+});
+
+describe("estimateTokens", () => {
+  it("estimates four characters per token", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("abcde")).toBe(2);
+  });
+});
+
+describe("countTokens", () => {
+  it("counts tokens with a BPE tokenizer", () => {
+    expect(countTokens("")).toBe(0);
+    expect(countTokens("Hello world")).toBe(2);
+    expect(countTokens("internationalization")).toBe(2);
+    expect(countTokens("12345")).toBe(2);
+    expect(countTokens("## Notes")).toBe(2);
+  });
+
+  it("counts non-Latin text", () => {
+    expect(countTokens("東京タワー")).toBe(4);
+  });
+});
+
+describe("estimatePromptTokens", () => {
+  it("adds per-message framing", () => {
+    expect(estimatePromptTokens([])).toBe(3);
+    expect(estimatePromptTokens([
+      { role: "system", content: "Be brief." },
+      { role: "user", content: "Hello world" },
+    ])).toBe(3 + (3 + 4) + (2 + 4));
+  });
+
+  it("counts images by their pixel size", () => {
+    const image = { path: "a.png", mimeType: "image/png", data: "", width: 750, height: 100 };
+    expect(estimatePromptTokens([{ role: "user", content: "", images: [image] }])).toBe(3 + 100 + 4);
+  });
+});
+
+describe("findEmbeddedImages", () => {
+  it("finds wiki and Markdown embeds in order", () => {
+    const text = "See ![[Diagram.png|300]] and ![photo](assets/My%20photo.JPG \"title\") then ![[Other.webp#x]].";
+    expect(findEmbeddedImages(text)).toEqual(["Diagram.png", "assets/My photo.JPG", "Other.webp"]);
+  });
+
+  it("skips web URLs, non-images, plain links and duplicates", () => {
+    const text = "![](https://x.com/a.png) ![[Note]] ![[doc.pdf]] [[a.png]] ![[b.gif]] ![](<b.gif>)";
+    expect(findEmbeddedImages(text)).toEqual(["b.gif"]);
+  });
+});
+
+describe("fitImageSize", () => {
+  it("scales the longer side down to the limit", () => {
+    expect(fitImageSize(4000, 2000, 1000)).toEqual({ width: 1000, height: 500 });
+    expect(fitImageSize(300, 900, 600)).toEqual({ width: 200, height: 600 });
+  });
+
+  it("keeps small images and ignores a zero limit", () => {
+    expect(fitImageSize(800, 600, 1568)).toEqual({ width: 800, height: 600 });
+    expect(fitImageSize(4000, 3000, 0)).toEqual({ width: 4000, height: 3000 });
+  });
+});
+
+describe("supportsImageInput", () => {
+  it("reads input modalities, then the modality string", () => {
+    expect(supportsImageInput({ id: "a", inputModalities: ["text", "image"] })).toBe(true);
+    expect(supportsImageInput({ id: "b", inputModalities: ["text"], modality: "text+image->text" })).toBe(false);
+    expect(supportsImageInput({ id: "c", modality: "text+image->text" })).toBe(true);
+    expect(supportsImageInput({ id: "d", modality: "text->image" })).toBe(false);
+  });
+
+  it("is undefined when unknown", () => {
+    expect(supportsImageInput({ id: "e" })).toBeUndefined();
+    expect(supportsImageInput(undefined)).toBeUndefined();
+  });
+});
+
+describe("withoutImages", () => {
+  it("drops images and keeps the text", () => {
+    const image = { path: "a.png", mimeType: "image/png", data: "AAAA", width: 1, height: 1 };
+    const messages: ChatMessage[] = [
+      { role: "system", content: "Be brief." },
+      { role: "user", content: "Explain", images: [image] },
+    ];
+    expect(withoutImages(messages)).toEqual([
+      { role: "system", content: "Be brief." },
+      { role: "user", content: "Explain" },
+    ]);
+    expect(messages[1].images).toHaveLength(1);
+  });
+});
+
+describe("assembleLinkedNotes", () => {
+  const note = (path: string, source: LinkedNoteCandidate["source"], content: string): LinkedNoteCandidate => ({
+    path,
+    title: path.replace(/\.md$/, ""),
+    source,
+    content,
+  });
+
+  it("orders title matches, then outgoing links, then backlinks", () => {
+    const result = assembleLinkedNotes(
+      [note("B.md", "backlink", "b"), note("O.md", "outgoing", "o"), note("T.md", "title", "t")],
+      100,
+      1000
+    );
+    expect(result.included.map((n) => n.path)).toEqual(["T.md", "O.md", "B.md"]);
+    expect(result.text).toBe("## T\nt\n\n## O\no\n\n## B\nb");
+  });
+
+  it("skips duplicates, empty notes and frontmatter", () => {
+    const result = assembleLinkedNotes(
+      [note("A.md", "outgoing", "---\nx: 1\n---\nbody"), note("A.md", "backlink", "again"), note("E.md", "outgoing", "  ")],
+      100,
+      1000
+    );
+    expect(result.text).toBe("## A\nbody");
+    expect(result.included).toHaveLength(1);
+  });
+
+  it("cuts each note to the per-note limit", () => {
+    const result = assembleLinkedNotes([note("A.md", "outgoing", "x".repeat(50))], 10, 1000);
+    expect(result.text).toBe("## A\n" + "x".repeat(10) + " [...]");
+  });
+
+  it("stops once the token budget is used up", () => {
+    const result = assembleLinkedNotes(
+      [note("A.md", "outgoing", "a".repeat(200)), note("B.md", "outgoing", "b".repeat(200))],
+      1000,
+      60
+    );
+    expect(result.included.map((n) => n.path)).toEqual(["A.md"]);
+    expect(estimateTokens(result.text)).toBeLessThanOrEqual(60);
+  });
+});
+
+describe("formatLocalDate", () => {
+  it("formats as YYYY-MM-DD", () => {
+    expect(formatLocalDate(new Date(2026, 0, 5))).toBe("2026-01-05");
+  });
+});
+
+// ─── findContextRange / extractContext ─────────────────────────
+
+describe("findContextRange", () => {
+  const doc = [
+    "---",
+    "tags: [a]",
+    "---",
+    "# Intro",
+    "First sentence. Second sentence here! Third?",
+    "",
+    "Another paragraph.",
+    "## Details",
+    "Detail text.",
+    "# Next",
+    "Tail.",
+  ].join("\n");
+  const sel = (term: string) => {
+    const from = doc.indexOf(term);
+    return [from, from + term.length] as const;
+  };
+  const slice = (r: { start: number; end: number }) => doc.slice(r.start, r.end);
+
+  it("expands to the enclosing sentence", () => {
+    const [from, to] = sel("sentence here");
+    expect(slice(findContextRange(doc, from, to, "sentence"))).toBe("Second sentence here!");
+  });
+
+  it("expands to the paragraph between blank lines", () => {
+    const [from, to] = sel("Second");
+    expect(slice(findContextRange(doc, from, to, "paragraph"))).toBe(
+      "# Intro\nFirst sentence. Second sentence here! Third?"
+    );
+  });
+
+  it("covers every line of a multi-line selection", () => {
+    const from = doc.indexOf("Third");
+    const to = doc.indexOf("Another") + 3;
+    expect(slice(findContextRange(doc, from, to, "paragraph"))).toContain("# Intro");
+    expect(slice(findContextRange(doc, from, to, "paragraph"))).toContain("## Details");
+  });
+
+  it("expands to the heading section including subsections", () => {
+    const [from, to] = sel("Another");
+    const section = slice(findContextRange(doc, from, to, "section"));
+    expect(section.startsWith("# Intro")).toBe(true);
+    expect(section).toContain("Detail text.");
+    expect(section).not.toContain("# Next");
+  });
+
+  it("ends a subsection at the next heading of the same or higher level", () => {
+    const [from, to] = sel("Detail");
+    expect(slice(findContextRange(doc, from, to, "section"))).toBe("## Details\nDetail text.\n");
+  });
+
+  it("returns the whole note without frontmatter", () => {
+    const [from, to] = sel("Tail");
+    const note = slice(findContextRange(doc, from, to, "note"));
+    expect(note.startsWith("# Intro")).toBe(true);
+    expect(note.endsWith("Tail.")).toBe(true);
+  });
+});
+
+describe("extractContext", () => {
+  it("returns the trimmed scope when it fits the budget", () => {
+    const text = "One.\n\nTwo words here.\n\nThree.";
+    const from = text.indexOf("words");
+    expect(extractContext(text, from, from + 5, "paragraph", 100)).toBe("Two words here.");
+  });
+
+  it("keeps text nearest the selection and marks both cuts", () => {
+    const text = "a".repeat(100) + "TERM" + "b".repeat(100);
+    const result = extractContext(text, 100, 104, "note", 24);
+    expect(result).toBe(`${TRUNCATION_MARKER} ${"a".repeat(10)}TERM${"b".repeat(10)} ${TRUNCATION_MARKER}`);
+  });
+
+  it("gives unused budget to the other side", () => {
+    const text = "TERM" + "b".repeat(100);
+    const result = extractContext(text, 0, 4, "note", 14);
+    expect(result).toBe(`TERM${"b".repeat(10)} ${TRUNCATION_MARKER}`);
+  });
+
+  it("treats a budget of 0 as unlimited", () => {
+    const text = "x".repeat(5000);
+    expect(extractContext(text, 10, 20, "note", 0)).toHaveLength(5000);
+  });
+});
+
+describe("fitContextToTokens", () => {
+  const text = "word ".repeat(200) + "TERM " + "other ".repeat(200);
+  const from = text.indexOf("TERM");
+
+  it("keeps the context when it fits", () => {
+    expect(fitContextToTokens(text, from, from + 4, "note", 0, 10000)).toBe(text.trim());
+  });
+
+  it("trims around the selection to the token budget", () => {
+    const result = fitContextToTokens(text, from, from + 4, "note", 0, 50);
+    expect(countTokens(result)).toBeLessThanOrEqual(50);
+    expect(countTokens(result)).toBeGreaterThan(40);
+    expect(result).toContain("word TERM other");
+    expect(result.startsWith(TRUNCATION_MARKER)).toBe(true);
+    expect(result.endsWith(TRUNCATION_MARKER)).toBe(true);
+  });
+
+  it("returns an empty context when there is no room", () => {
+    expect(fitContextToTokens(text, from, from + 4, "note", 0, 0)).toBe("");
+  });
 });
 
 // ─── buildMenuLabel ─────────────────────────────────────────────
@@ -77,266 +643,398 @@ describe("buildMenuLabel", () => {
     expect(result.endsWith("...")).toBe(true);
   });
 
+  it("collapses other variables and drops conditional tags", () => {
+    const result = buildMenuLabel("Explain {{selection}}{{#if title}} from {{title}}{{/if}}", "x");
+    expect(result).toBe("Explain x from ...");
+  });
+
   it("handles template without placeholders", () => {
     const result = buildMenuLabel("Static menu label", "ignored");
     expect(result).toBe("Static menu label");
   });
 });
 
-// ─── getProviderConfig ──────────────────────────────────────────
+// ─── placePopover ───────────────────────────────────────────────
 
-describe("getProviderConfig", () => {
-  it("returns correct config for OpenAI provider", () => {
-    const settings = makeSettings({
-      dropdownValue: "openai",
-      baseURL: "https://api.openai.com/v1/",
-      apiKey: "sk-test",
-      endpoint: "gpt-4o",
-    });
-    const config = getProviderConfig(settings);
-    expect(config.baseURL).toBe("https://api.openai.com/v1/");
-    expect(config.apiKey).toBe("sk-test");
-    expect(config.model).toBe("gpt-4o");
-    expect(config.defaultHeaders).toBeUndefined();
-  });
-
-  it("returns correct config for OpenRouter provider with headers", () => {
-    const settings = makeSettings({
-      dropdownValue: "openrouter",
-      openRouterApiKey: "sk-or-test",
-      openRouterModel: "anthropic/claude-sonnet-4",
-      openRouterReferer: "https://my-site.com",
-      openRouterTitle: "My App",
-    });
-    const config = getProviderConfig(settings);
-    expect(config.baseURL).toBe("https://openrouter.ai/api/v1");
-    expect(config.apiKey).toBe("sk-or-test");
-    expect(config.model).toBe("anthropic/claude-sonnet-4");
-    expect(config.defaultHeaders).toEqual({
-      "HTTP-Referer": "https://my-site.com",
-      "X-Title": "My App",
-    });
+describe("placePopover", () => {
+  const viewport = { width: 1000, height: 800 };
+
+  it("opens below the selection when there is room", () => {
+    expect(placePopover({ left: 100, top: 200, bottom: 220 }, 380, 360, viewport))
+      .toEqual({ left: 100, top: 228, maxHeight: 360 });
   });
 
-  it("omits headers when OpenRouter referer/title are empty", () => {
-    const settings = makeSettings({
-      dropdownValue: "openrouter",
-      openRouterApiKey: "sk-or-test",
-      openRouterModel: "model",
-      openRouterReferer: "",
-      openRouterTitle: "",
-    });
-    const config = getProviderConfig(settings);
-    expect(config.defaultHeaders).toBeUndefined();
+  it("opens above, growing upwards, when there is more room there", () => {
+    expect(placePopover({ left: 100, top: 600, bottom: 620 }, 380, 360, viewport))
+      .toEqual({ left: 100, bottom: 208, maxHeight: 360 });
   });
 
-  it("includes only provided OpenRouter headers", () => {
-    const settings = makeSettings({
-      dropdownValue: "openrouter",
-      openRouterApiKey: "key",
-      openRouterModel: "m",
-      openRouterReferer: "https://ref.com",
-      openRouterTitle: "",
-    });
-    const config = getProviderConfig(settings);
-    expect(config.defaultHeaders).toEqual({ "HTTP-Referer": "https://ref.com" });
+  it("keeps inside the viewport and shrinks to the space available", () => {
+    const small = { width: 400, height: 300 };
+    expect(placePopover({ left: 300, top: 100, bottom: 120 }, 380, 360, small))
+      .toEqual({ left: 12, top: 128, maxHeight: 164 });
   });
+});
 
-  it("returns correct config for Ollama provider", () => {
-    const settings = makeSettings({
-      dropdownValue: "ollama",
-      baseURL: "http://localhost:11434/v1/",
-      endpoint: "llama3",
-      apiKey: "",
-    });
-    const config = getProviderConfig(settings);
-    expect(config.baseURL).toBe("http://localhost:11434/v1/");
-    expect(config.apiKey).toBe("-");
-    expect(config.model).toBe("llama3");
-    expect(config.defaultHeaders).toBeUndefined();
-  });
-
-  it("returns correct config for custom provider", () => {
-    const settings = makeSettings({
-      dropdownValue: "custom",
-      baseURL: "https://custom.api/v1",
-      endpoint: "my-model",
-      apiKey: "custom-key",
-    });
-    const config = getProviderConfig(settings);
-    expect(config.baseURL).toBe("https://custom.api/v1");
-    expect(config.apiKey).toBe("custom-key");
-    expect(config.model).toBe("my-model");
+// ─── filterModels ───────────────────────────────────────────────
+
+describe("filterModels", () => {
+  const models: ModelInfo[] = [
+    { id: "gpt-4o", name: "GPT 4o" },
+    { id: "claude-3", name: "Claude Three" },
+    { id: "llama3" },
+  ];
+
+  it("filters by id match (case-insensitive)", () => {
+    const result = filterModels(models, "GPT");
+    expect(result).toEqual([{ id: "gpt-4o", name: "GPT 4o" }]);
   });
 
-  it("returns '-' when apiKey is empty (non-OpenRouter)", () => {
-    const settings = makeSettings({
-      dropdownValue: "openai",
-      apiKey: "",
-    });
-    expect(getProviderConfig(settings).apiKey).toBe("-");
+  it("filters by name match (case-insensitive)", () => {
+    const result = filterModels(models, "three");
+    expect(result).toEqual([{ id: "claude-3", name: "Claude Three" }]);
   });
-});
 
-// ─── filterOpenAIModels ─────────────────────────────────────────
+  it("empty query returns all models", () => {
+    expect(filterModels(models, "")).toEqual(models);
+  });
 
-describe("filterOpenAIModels", () => {
-  it("keeps gpt- models", () => {
-    const models = [{ id: "gpt-4o" }, { id: "gpt-4o-mini" }, { id: "gpt-3.5-turbo" }];
-    const result = filterOpenAIModels(models);
-    expect(result.map((m) => m.id)).toEqual(["gpt-3.5-turbo", "gpt-4o", "gpt-4o-mini"]);
+  it("no matches returns empty array", () => {
+    expect(filterModels(models, "nonexistent")).toEqual([]);
   });
 
-  it("keeps o1, o3 models", () => {
-    const models = [{ id: "o1-mini" }, { id: "o1-preview" }, { id: "o3-mini" }];
-    const result = filterOpenAIModels(models);
-    expect(result).toHaveLength(3);
+  it("partial match works", () => {
+    const result = filterModels(models, "lam");
+    expect(result).toEqual([{ id: "llama3" }]);
   });
 
-  it("excludes dall-e, tts, whisper, embedding models", () => {
-    const models = [
-      { id: "gpt-4o" },
-      { id: "dall-e-3" },
-      { id: "tts-1" },
-      { id: "whisper-1" },
-      { id: "text-embedding-ada-002" },
-      { id: "embedding-v1" },
-      { id: "babbage-002" },
-      { id: "davinci-002" },
+  it("matches characters in order and ranks substring matches first", () => {
+    const catalog: ModelInfo[] = [
+      { id: "google/gemini-pro" },
+      { id: "openai/gpt-4o-mini" },
+      { id: "openai/gpt-4o" },
     ];
-    const result = filterOpenAIModels(models);
-    expect(result).toEqual([{ id: "gpt-4o" }]);
+    expect(filterModels(catalog, "gpt4o").map((m) => m.id)).toEqual(["openai/gpt-4o-mini", "openai/gpt-4o"]);
+    expect(filterModels(catalog, "gpt-4o").map((m) => m.id)).toEqual(["openai/gpt-4o-mini", "openai/gpt-4o"]);
+    expect(filterModels(catalog, "4o mini").map((m) => m.id)).toEqual(["openai/gpt-4o-mini"]);
   });
+});
 
-  it("returns sorted results", () => {
-    const models = [{ id: "gpt-4o" }, { id: "chatgpt-4o-latest" }, { id: "gpt-3.5-turbo" }];
-    const result = filterOpenAIModels(models);
-    expect(result.map((m) => m.id)).toEqual(["chatgpt-4o-latest", "gpt-3.5-turbo", "gpt-4o"]);
+describe("fuzzyScore", () => {
+  it("prefers earlier substrings, then consecutive and word-start characters", () => {
+    expect(fuzzyScore("gpt", "gpt-4o")!).toBeGreaterThan(fuzzyScore("gpt", "openai/gpt-4o")!);
+    expect(fuzzyScore("g4", "openai/gpt-4o")!).toBeLessThan(fuzzyScore("gpt", "openai/gpt-4o")!);
+    expect(fuzzyScore("mini", "4o-mini")!).toBeGreaterThan(fuzzyScore("mini", "m-i-n-i")!);
+    expect(fuzzyScore("xyz", "gpt-4o")).toBeNull();
   });
+});
 
-  it("handles empty input", () => {
-    expect(filterOpenAIModels([])).toEqual([]);
+describe("sortModels", () => {
+  const models: ModelInfo[] = [
+    { id: "b", name: "Bravo", contextLength: 8000, pricing: { prompt: "0.000002", completion: "0.000004" } },
+    { id: "a", name: "Alpha" },
+    { id: "c", name: "Charlie", contextLength: 200000, pricing: { prompt: "0", completion: "0" } },
+  ];
+
+  it("sorts by name, price and context, unknowns last", () => {
+    expect(sortModels(models, "name").map((m) => m.id)).toEqual(["a", "b", "c"]);
+    expect(sortModels(models, "price").map((m) => m.id)).toEqual(["c", "b", "a"]);
+    expect(sortModels(models, "context").map((m) => m.id)).toEqual(["c", "b", "a"]);
+  });
+
+  it("keeps the order for relevance and does not mutate the input", () => {
+    expect(sortModels(models, "relevance")).toEqual(models);
+    sortModels(models, "name");
+    expect(models.map((m) => m.id)).toEqual(["b", "a", "c"]);
   });
 });
 
-// ─── parseOpenRouterModels ──────────────────────────────────────
+describe("model list formatting", () => {
+  it("formats per-token prices per million tokens", () => {
+    expect(formatPricePerMillion("0.0000025")).toBe("$2.50");
+    expect(formatPricePerMillion("0")).toBe("free");
+    expect(formatPricePerMillion(undefined)).toBe("—");
+    expect(formatPricePerMillion("-1")).toBe("—");
+  });
 
-describe("parseOpenRouterModels", () => {
-  it("parses valid response with id and name", () => {
-    const data = {
-      data: [
-        { id: "anthropic/claude-3", name: "Claude 3" },
-        { id: "openai/gpt-4", name: "GPT-4" },
-      ],
-    };
-    const result = parseOpenRouterModels(data);
-    expect(result).toEqual([
-      { id: "anthropic/claude-3", name: "Claude 3" },
-      { id: "openai/gpt-4", name: "GPT-4" },
-    ]);
+  it("formats context lengths", () => {
+    expect(formatContextLength(128000)).toBe("128k");
+    expect(formatContextLength(1048576)).toBe("1M");
+    expect(formatContextLength(2000000)).toBe("2M");
+    expect(formatContextLength(512)).toBe("512");
+    expect(formatContextLength(undefined)).toBe("—");
   });
+});
 
-  it("handles missing name field", () => {
-    const data = { data: [{ id: "model-1" }] };
-    const result = parseOpenRouterModels(data);
-    expect(result).toEqual([{ id: "model-1", name: undefined }]);
+describe("favourite and recent models", () => {
+  it("keys models by provider", () => {
+    expect(modelKey("openrouter", "openai/gpt-4o")).toBe("openrouter:openai/gpt-4o");
   });
 
-  it("returns sorted results", () => {
-    const data = {
-      data: [
-        { id: "z-model", name: "Z" },
-        { id: "a-model", name: "A" },
-      ],
-    };
-    const result = parseOpenRouterModels(data);
-    expect(result[0].id).toBe("a-model");
-    expect(result[1].id).toBe("z-model");
+  it("moves picked models to the front without duplicates", () => {
+    expect(pushRecentModel(["a", "b", "c"], "b")).toEqual(["b", "a", "c"]);
+    expect(pushRecentModel(["a", "b", "c"], "d", 3)).toEqual(["d", "a", "b"]);
+  });
+
+  it("toggles favourites", () => {
+    expect(toggleFavouriteModel(["a"], "b")).toEqual(["a", "b"]);
+    expect(toggleFavouriteModel(["a", "b"], "a")).toEqual(["b"]);
+  });
+});
+
+// ─── output actions ────────────────────────────────────────────
+
+describe("buildCallout", () => {
+  it("quotes every line under a collapsed callout header", () => {
+    expect(buildCallout("term", "First line\n\nSecond")).toBe(
+      "> [!note]- term\n> First line\n>\n> Second"
+    );
   });
 
-  it("handles empty data array", () => {
-    expect(parseOpenRouterModels({ data: [] })).toEqual([]);
+  it("shortens long or multi-line titles", () => {
+    const callout = buildCallout("a long\nselection " + "x".repeat(80), "Body", "info", 20);
+    expect(callout.split("\n")[0]).toBe("> [!info]- a long selection xx…");
+  });
+});
+
+describe("footnotes", () => {
+  it("finds the next numeric label", () => {
+    expect(nextFootnoteLabel("No notes")).toBe("1");
+    expect(nextFootnoteLabel("A[^1] and B[^3]\n\n[^1]: x\n[^3]: y\n[^note]: z")).toBe("4");
   });
 
-  it("handles missing data field", () => {
-    expect(parseOpenRouterModels({})).toEqual([]);
+  it("indents continuation lines of the definition", () => {
+    expect(buildFootnote("2", "First\n\nSecond\n")).toBe("[^2]: First\n\n    Second");
   });
 });
 
-// ─── parseOllamaModels ─────────────────────────────────────────
+describe("insertUnderHeading", () => {
+  const note = "# Title\n\nIntro\n\n## Glossary\n\n- term\n\n## Later\n\nText\n";
+
+  it("appends at the end of the heading's section", () => {
+    expect(insertUnderHeading(note, "glossary", "NEW")).toBe(
+      "# Title\n\nIntro\n\n## Glossary\n\n- term\n\nNEW\n\n## Later\n\nText\n"
+    );
+  });
+
+  it("keeps subsections inside the section", () => {
+    expect(insertUnderHeading("## A\n\n### A1\n\nx\n\n## B\n", "A", "NEW")).toBe(
+      "## A\n\n### A1\n\nx\n\nNEW\n\n## B\n"
+    );
+  });
+
+  it("appends to the last section and ignores headings in code blocks", () => {
+    expect(insertUnderHeading("## Later\n\n```\n# code\n```\n", "Later", "NEW")).toBe(
+      "## Later\n\n```\n# code\n```\n\nNEW\n"
+    );
+  });
 
-describe("parseOllamaModels", () => {
-  it("parses valid response", () => {
-    const data = { models: [{ name: "llama3" }, { name: "mistral" }] };
-    const result = parseOllamaModels(data);
-    expect(result).toEqual([{ id: "llama3" }, { id: "mistral" }]);
+  it("adds a missing heading or appends to the end", () => {
+    expect(insertUnderHeading("Text\n", "Answers", "NEW")).toBe("Text\n\n## Answers\n\nNEW\n");
+    expect(insertUnderHeading("Text\n\n", "", "NEW")).toBe("Text\n\nNEW\n");
+    expect(insertUnderHeading("", "", "NEW")).toBe("NEW\n");
   });
+});
+
+// ─── saved notes ───────────────────────────────────────────────
 
-  it("returns sorted results", () => {
-    const data = { models: [{ name: "zebra" }, { name: "alpha" }] };
-    const result = parseOllamaModels(data);
-    expect(result[0].id).toBe("alpha");
+describe("normalizeFolderPath", () => {
+  it("drops forbidden characters and empty or relative segments", () => {
+    expect(normalizeFolderPath("/Glossary//Terms: A?/")).toBe("Glossary/Terms A");
+    expect(normalizeFolderPath("../x/./y")).toBe("x/y");
+    expect(normalizeFolderPath("")).toBe("");
   });
+});
 
-  it("handles empty models array", () => {
-    expect(parseOllamaModels({ models: [] })).toEqual([]);
+describe("mergeFrontmatter", () => {
+  it("adds fields the block does not define", () => {
+    expect(mergeFrontmatter("---\nmodel: mine\naliases: [x]\n---\n", { model: "gpt", tokens: 5, tags: ["a"] })).toBe(
+      '---\nmodel: mine\naliases: [x]\ntokens: 5\ntags:\n  - "a"\n---\n'
+    );
   });
 
-  it("handles missing models field", () => {
-    expect(parseOllamaModels({})).toEqual([]);
+  it("skips undefined values and empty lists", () => {
+    expect(mergeFrontmatter("", { cost: undefined, tags: [] })).toBe("");
+    expect(mergeFrontmatter("", { source: '[[Note "A"]]' })).toBe('---\nsource: "[[Note \\"A\\"]]"\n---\n');
   });
 });
 
-// ─── deriveOllamaBaseUrl ────────────────────────────────────────
+describe("buildSavedNote", () => {
+  const stats: TurnStats = { model: "gpt-4o", promptTokens: 10, completionTokens: 20, cost: 0.0012345678, durationMs: 1000, ttftMs: 100 };
+  const input = {
+    selection: "Quantum\nentanglement",
+    sourcePath: "Physics/Notes/Lecture 3.md",
+    model: "gpt-4o",
+    turns: [{ answer: "An answer.", stats }],
+    date: new Date(2026, 2, 4, 9, 5, 7),
+  };
+  const settings: SavedNoteSettings = {
+    noteFolder: "",
+    noteFileNameTemplate: "{{selection}}",
+    noteMetadataFormat: "frontmatter",
+    noteTags: "",
+    noteSourceReference: "link",
+    noteIncludeReasoning: false,
+  };
+
+  it("defaults to the source folder and the selection as file name", () => {
+    const note = buildSavedNote(settings, input);
+    expect(note.folder).toBe("Physics/Notes");
+    expect(note.fileName).toBe("Quantum entanglement");
+    expect(note.body).toBe("An answer.");
+  });
+
+  it("includes the reasoning only when enabled", () => {
+    const withReasoning = { ...input, turns: [{ answer: "An answer.", reasoning: "Hmm.", stats }] };
+    expect(buildSavedNote(settings, withReasoning).body).toBe("An answer.");
+    expect(buildSavedNote({ ...settings, noteIncludeReasoning: true }, withReasoning).body)
+      .toBe("> [!note]- Thinking\n> Hmm.\n\nAn answer.");
+  });
+
+  it("fills the folder and file name templates", () => {
+    const note = buildSavedNote(
+      { ...settings, noteFolder: "Glossary/{{title}}", noteFileNameTemplate: "{{selection}} - {{date}}" },
+      input
+    );
+    expect(note.folder).toBe("Glossary/Lecture 3");
+    expect(note.fileName).toBe("Quantum entanglement - 2026-03-04");
+  });
+
+  it("writes the metadata as frontmatter", () => {
+    const note = buildSavedNote({ ...settings, noteTags: "#ai, glossary" }, input);
+    expect(note.frontmatter).toBe([
+      "---",
+      'source: "[[Physics/Notes/Lecture 3]]"',
+      'model: "gpt-4o"',
+      "tokens: 30",
+      "cost: 0.001235",
+      'created: "2026-03-04T09:05:07"',
+      "tags:",
+      '  - "ai"',
+      '  - "glossary"',
+      "---",
+      "",
+    ].join("\n"));
+    expect(note.body).not.toContain("**Metadata**");
+  });
 
-describe("deriveOllamaBaseUrl", () => {
-  it("strips /v1/ suffix", () => {
-    expect(deriveOllamaBaseUrl("http://localhost:11434/v1/")).toBe("http://localhost:11434");
+  it("can list the metadata below the answer instead", () => {
+    const note = buildSavedNote({ ...settings, noteMetadataFormat: "list" }, input);
+    expect(note.frontmatter).toBe("");
+    expect(note.body).toMatch(/^An answer\.\n\n---\n\*\*Metadata\*\*\n- \*\*Model:\*\* gpt-4o/);
   });
 
-  it("strips /v1 suffix (no trailing slash)", () => {
-    expect(deriveOllamaBaseUrl("http://localhost:11434/v1")).toBe("http://localhost:11434");
+  it("uses a body template and keeps its frontmatter", () => {
+    const template = "---\naliases: [\"{{selection}}\"]\nmodel: fixed\n---\n# {{selection}}\n\nFrom {{source}}\n\n{{answer}}\n";
+    const note = buildSavedNote(settings, input, template);
+    expect(note.body).toBe("# Quantum entanglement\n\nFrom [[Physics/Notes/Lecture 3]]\n\nAn answer.\n");
+    expect(note.frontmatter).toMatch(/^---\naliases: \["Quantum entanglement"\]\nmodel: fixed\nsource: /);
   });
 
-  it("returns default localhost if empty", () => {
-    expect(deriveOllamaBaseUrl("")).toBe("http://localhost:11434");
+  it("links or embeds the source block", () => {
+    const marked = { ...input, sourceSubpath: "^abc123" };
+    expect(buildSavedNote(settings, marked).sourceEntry).toBe("- [[Physics/Notes/Lecture 3#^abc123]]");
+    expect(buildSavedNote({ ...settings, noteSourceReference: "embed" }, marked).sourceEntry)
+      .toBe("![[Physics/Notes/Lecture 3#^abc123]]");
+    expect(buildSavedNote({ ...settings, noteSourceReference: "none" }, marked).sourceEntry).toBe("");
+    expect(buildSavedNote(settings, { ...input, sourcePath: "" }).sourceEntry).toBe("");
+    expect(buildSavedNote(settings, marked).frontmatter).toContain('source: "[[Physics/Notes/Lecture 3#^abc123]]"');
+    expect(buildSavedNote(settings, { ...input, sourcePath: "Papers/Study.pdf", sourceSubpath: "page=3" }).sourceEntry)
+      .toBe("- [[Papers/Study.pdf#page=3]]");
   });
 
-  it("handles URL without /v1/", () => {
-    expect(deriveOllamaBaseUrl("http://myhost:1234")).toBe("http://myhost:1234");
+  it("appends the answer when the template has no {{answer}}", () => {
+    const note = buildSavedNote({ ...settings, noteMetadataFormat: "list" }, input, "# {{selection}}\n{{unknown}}\n");
+    expect(note.body).toMatch(/^# Quantum entanglement\n\{\{unknown\}\}\n\nAn answer\.\n\n---\n\*\*Metadata/);
   });
 });
 
-// ─── filterModels ───────────────────────────────────────────────
+describe("locateBlockId", () => {
+  const text = "First para\nstill first.\n\nSecond para ^old-id\n\n- item one\n- item two\n";
 
-describe("filterModels", () => {
-  const models: ModelInfo[] = [
-    { id: "gpt-4o", name: "GPT 4o" },
-    { id: "claude-3", name: "Claude Three" },
-    { id: "llama3" },
-  ];
+  it("adds an id at the end of the selection's paragraph", () => {
+    const from = text.indexOf("First");
+    expect(locateBlockId(text, from, from + 5, "new1")).toEqual({
+      id: "new1",
+      insert: { offset: text.indexOf("first.") + 6, text: " ^new1" },
+    });
+  });
 
-  it("filters by id match (case-insensitive)", () => {
-    const result = filterModels(models, "GPT");
-    expect(result).toEqual([{ id: "gpt-4o", name: "GPT 4o" }]);
+  it("reuses an existing id", () => {
+    const from = text.indexOf("Second");
+    expect(locateBlockId(text, from, from + 6, "new1")).toEqual({ id: "old-id" });
   });
 
-  it("filters by name match (case-insensitive)", () => {
-    const result = filterModels(models, "three");
-    expect(result).toEqual([{ id: "claude-3", name: "Claude Three" }]);
+  it("marks the list item instead of the whole list", () => {
+    const from = text.indexOf("one");
+    expect(locateBlockId(text, from, from + 3, "new1").insert).toEqual({
+      offset: text.indexOf("- item two") - 1,
+      text: " ^new1",
+    });
   });
+});
 
-  it("empty query returns all models", () => {
-    expect(filterModels(models, "")).toEqual(models);
+describe("relocateBlockInsert", () => {
+  const earlier = "Intro.\n\nThe explained line.\n\nOutro.";
+  const offset = earlier.indexOf(" line.") + 6;
+
+  it("keeps the offset while the text is unchanged", () => {
+    expect(relocateBlockInsert(earlier, earlier, offset)).toBe(offset);
   });
 
-  it("no matches returns empty array", () => {
-    expect(filterModels(models, "nonexistent")).toEqual([]);
+  it("follows the line when text was added before it", () => {
+    const current = "New first line.\n\n" + earlier;
+    expect(relocateBlockInsert(earlier, current, offset)).toBe(offset + 17);
   });
 
-  it("partial match works", () => {
-    const result = filterModels(models, "lam");
-    expect(result).toEqual([{ id: "llama3" }]);
+  it("gives up when the line was edited or appears twice", () => {
+    expect(relocateBlockInsert(earlier, earlier.replace("explained line.", "explained line, edited."), offset)).toBeUndefined();
+    expect(relocateBlockInsert(earlier, "The explained line.\n\n" + earlier, offset)).toBeUndefined();
+  });
+});
+
+describe("saved note source section", () => {
+  const note: SavedNote = {
+    folder: "",
+    fileName: "Term",
+    frontmatter: "---\nmodel: \"m\"\n---\n",
+    body: "Answer one.",
+    sourceEntry: "- [[A#^a1]]",
+  };
+
+  it("formats a new note with a Source section", () => {
+    expect(formatSavedNote(note)).toBe("---\nmodel: \"m\"\n---\nAnswer one.\n\n## Source\n\n- [[A#^a1]]\n");
+    expect(formatSavedNote({ ...note, sourceEntry: "" })).toBe("---\nmodel: \"m\"\n---\nAnswer one.");
+  });
+
+  it("appends above the Source section and collects the sources", () => {
+    const existing = formatSavedNote(note);
+    const appended = appendSavedNote(existing, { ...note, body: "Answer two.", sourceEntry: "- [[B#^b2]]" });
+    expect(appended).toBe(
+      "---\nmodel: \"m\"\n---\nAnswer one.\n\n---\n\nAnswer two.\n\n## Source\n\n- [[A#^a1]]\n- [[B#^b2]]\n"
+    );
+    // The same passage is listed once
+    expect(appendSavedNote(appended, { ...note, body: "Again." })).toContain("- [[A#^a1]]\n- [[B#^b2]]\n");
+  });
+
+  it("adds a Source section to notes without one", () => {
+    expect(appendSavedNote("Old.\n", note)).toBe("Old.\n\n---\n\nAnswer one.\n\n## Source\n\n- [[A#^a1]]\n");
+    expect(appendSavedNote("Old.\n", { ...note, sourceEntry: "" })).toBe("Old.\n\n---\n\nAnswer one.\n");
+  });
+});
+
+// ─── buildWikiLink ─────────────────────────────────────────────
+
+describe("buildWikiLink", () => {
+  it("uses the selection as alias", () => {
+    expect(buildWikiLink("Folder/Term.md", "term")).toBe("[[Folder/Term|term]]");
+  });
+
+  it("drops aliases that would break the link", () => {
+    expect(buildWikiLink("Term.md", "a|b")).toBe("[[Term]]");
+    expect(buildWikiLink("Term.md", "a]]b")).toBe("[[Term]]");
+    expect(buildWikiLink("Term.md", "line\nbreak")).toBe("[[Term]]");
+    expect(buildWikiLink("Term.md", "")).toBe("[[Term]]");
   });
 });
 
@@ -357,3 +1055,428 @@ describe("sanitizeFileName", () => {
     expect(sanitizeFileName("")).toBe("AI Explanation");
   });
 });
+
+// ─── calculateCost ─────────────────────────────────────────────
+
+describe("calculateCost", () => {
+  it("multiplies token counts by per-token pricing", () => {
+    const model: ModelInfo = { id: "m", pricing: { prompt: "0.000001", completion: "0.000002" } };
+    expect(calculateCost(model, 1000, 500)).toBeCloseTo(0.002);
+  });
+
+  it("returns undefined without pricing", () => {
+    expect(calculateCost({ id: "m" }, 10, 10)).toBeUndefined();
+    expect(calculateCost(undefined, 10, 10)).toBeUndefined();
+  });
+});
+
+// ─── splitMarkdownBlocks ───────────────────────────────────────
+
+describe("splitMarkdownBlocks", () => {
+  it("splits paragraphs at blank lines", () => {
+    expect(splitMarkdownBlocks("# Title\nIntro.\n\n\nSecond para.\n")).toEqual(["# Title\nIntro.", "Second para."]);
+    expect(splitMarkdownBlocks("")).toEqual([]);
+  });
+
+  it("splits off a block as soon as the next one starts", () => {
+    expect(splitMarkdownBlocks("First.\n\nSec")).toEqual(["First.", "Sec"]);
+    expect(splitMarkdownBlocks("First.\n\n")).toEqual(["First."]);
+  });
+
+  it("keeps blank lines inside fenced code", () => {
+    const code = "```js\nconst a = 1;\n\nconst b = 2;\n```";
+    expect(splitMarkdownBlocks(`Intro\n\n${code}\n\nAfter`)).toEqual(["Intro", code, "After"]);
+    expect(splitMarkdownBlocks("~~~~\na\n\n~~~\n\nb")).toEqual(["~~~~\na\n\n~~~\n\nb"]);
+  });
+
+  it("keeps an unclosed fence open while it streams", () => {
+    expect(splitMarkdownBlocks("Intro\n\n```\ncode\n\n")).toEqual(["Intro", "```\ncode\n\n"]);
+  });
+
+  it("keeps loose lists and indented continuations together", () => {
+    const list = "- one\n\n- two\n\n  more about two\n\n1. three";
+    expect(splitMarkdownBlocks(`${list}\n\nDone.`)).toEqual([list, "Done."]);
+  });
+
+  it("waits while the last line may still become a list item", () => {
+    expect(splitMarkdownBlocks("- one\n\n1")).toEqual(["- one\n\n1"]);
+    expect(splitMarkdownBlocks("- one\n\n1984 was")).toEqual(["- one", "1984 was"]);
+  });
+
+  it("keeps blank lines inside $$ math blocks", () => {
+    const math = "$$\na = b\n\nc = d\n$$";
+    expect(splitMarkdownBlocks(`${math}\n\nText`)).toEqual([math, "Text"]);
+    expect(splitMarkdownBlocks("Inline $$x$$ math\n\nNext")).toEqual(["Inline $$x$$ math", "Next"]);
+  });
+});
+
+// ─── formatConversation ────────────────────────────────────────
+
+describe("formatConversation", () => {
+  it("returns the initial answer unchanged", () => {
+    expect(formatConversation([{ answer: "First answer" }])).toBe("First answer");
+  });
+
+  it("quotes follow-up questions above their answers", () => {
+    const result = formatConversation([
+      { answer: "First" },
+      { question: "simpler\nplease", answer: "Second" },
+    ]);
+    expect(result).toBe("First\n\n> **Follow-up:** simpler\n> please\n\nSecond");
+  });
+
+  it("puts reasoning above each answer when asked", () => {
+    const turns = [{ answer: "First", reasoning: "Think\n\nmore" }, { question: "Why?", answer: "Second" }];
+    expect(formatConversation(turns)).toBe("First\n\n> **Follow-up:** Why?\n\nSecond");
+    expect(formatConversation(turns, true))
+      .toBe("> [!note]- Thinking\n> Think\n>\n> more\n\nFirst\n\n> **Follow-up:** Why?\n\nSecond");
+  });
+});
+
+describe("splitThinkTags", () => {
+  it("separates a leading think block", () => {
+    expect(splitThinkTags("<think>\nLet me see.\n</think>\n\nThe answer.")).toEqual({ reasoning: "Let me see.", answer: "The answer." });
+    expect(splitThinkTags("Plain answer with <think> later")).toEqual({ reasoning: "", answer: "Plain answer with <think> later" });
+  });
+
+  it("treats an unclosed block as reasoning", () => {
+    expect(splitThinkTags("<think>Still thinking")).toEqual({ reasoning: "Still thinking", answer: "" });
+  });
+
+  it("holds back partly streamed tags", () => {
+    expect(splitThinkTags("\n<thi")).toEqual({ reasoning: "", answer: "" });
+    expect(splitThinkTags("<think>Done</thi")).toEqual({ reasoning: "Done", answer: "" });
+  });
+});
+
+// ─── buildMetadataBlock ────────────────────────────────────────
+
+describe("buildMetadataBlock", () => {
+  const date = new Date("2026-01-02T03:04:05.000Z");
+  const turn = (overrides: Partial<TurnStats> = {}): TurnStats => ({
+    promptTokens: 100,
+    completionTokens: 50,
+    durationMs: 2000,
+    ttftMs: 300,
+    ...overrides,
+  });
+
+  it("uses the flat layout for a single turn", () => {
+    const result = buildMetadataBlock("gpt-4o", [turn({ cost: 0.0015 })], date);
+    expect(result).toBe(
+      "\n\n---\n**Metadata**\n- **Model:** gpt-4o" +
+      "\n- **Tokens:** 150 (100 prompt, 50 completion)" +
+      "\n- **Cost:** $0.001500" +
+      "\n- **Timing:** 2.00s total (TTFT: 300ms, Speed: 25.00 tok/s)" +
+      "\n- **Date:** 2026-01-02T03:04:05.000Z"
+    );
+  });
+
+  it("omits tokens and speed when no usage was reported", () => {
+    const result = buildMetadataBlock("llama3", [turn({ promptTokens: 0, completionTokens: 0 })], date);
+    expect(result).not.toContain("Tokens");
+    expect(result).toContain("- **Timing:** 2.00s total (TTFT: 300ms)");
+  });
+
+  it("lists each turn and totals for a conversation", () => {
+    const result = buildMetadataBlock("m", [turn({ cost: 0.001 }), turn({ cost: 0.002 })], date);
+    expect(result).toContain("- **Turn 1:** 150 (100 prompt, 50 completion) tokens, $0.001000, 2.00s total");
+    expect(result).toContain("- **Turn 2:** ");
+    expect(result).toContain("- **Total tokens:** 300 (200 prompt, 100 completion)");
+    expect(result).toContain("- **Total cost:** $0.003000");
+  });
+
+  it("names the model of turns answered by a different model", () => {
+    const result = buildMetadataBlock("b", [turn({ model: "a" }), turn({ model: "b" })], date);
+    expect(result).toContain("- **Turn 1:** a, 150");
+    expect(result).toContain("- **Turn 2:** 150");
+  });
+
+  it("shows reasoning tokens as part of the completion", () => {
+    const single = buildMetadataBlock("o3", [turn({ reasoningTokens: 30 })], date);
+    expect(single).toContain("- **Tokens:** 150 (100 prompt, 50 completion incl. 30 reasoning)");
+
+    const conversation = buildMetadataBlock("o3", [turn({ reasoningTokens: 30 }), turn()], date);
+    expect(conversation).toContain("- **Turn 2:** 150 (100 prompt, 50 completion) tokens");
+    expect(conversation).toContain("- **Total tokens:** 300 (200 prompt, 100 completion incl. 30 reasoning)");
+  });
+
+  it("notes when a fallback model answered", () => {
+    const single = buildMetadataBlock("gpt-4o", [turn({ model: "llama3", fallbackFrom: "gpt-4o" })], date);
+    expect(single).toContain("- **Model:** llama3 (fallback for gpt-4o)");
+
+    const conversation = buildMetadataBlock("gpt-4o", [turn(), turn({ model: "llama3", fallbackFrom: "gpt-4o" })], date);
+    expect(conversation).toContain("- **Model:** gpt-4o");
+    expect(conversation).toContain("- **Turn 2:** llama3 (fallback for gpt-4o), 150");
+  });
+});
+
+describe("mergeTurnStats", () => {
+  it("adds up tokens, cost and duration of a continued answer", () => {
+    const first: TurnStats = { model: "a", promptTokens: 100, completionTokens: 20, cost: 0.001, durationMs: 1000, ttftMs: 200 };
+    const rest: TurnStats = { model: "a", promptTokens: 130, completionTokens: 40, durationMs: 1500, ttftMs: 400 };
+    expect(mergeTurnStats(first, rest)).toEqual({
+      model: "a",
+      promptTokens: 230,
+      completionTokens: 60,
+      cost: 0.001,
+      durationMs: 2500,
+      ttftMs: 200,
+    });
+  });
+
+  it("adds up reasoning tokens when reported", () => {
+    const first: TurnStats = { promptTokens: 10, completionTokens: 20, reasoningTokens: 15, durationMs: 1, ttftMs: 1 };
+    const rest: TurnStats = { promptTokens: 10, completionTokens: 20, reasoningTokens: 5, durationMs: 1, ttftMs: 1 };
+    expect(mergeTurnStats(first, rest).reasoningTokens).toBe(20);
+  });
+});
+
+// ─── response cache ────────────────────────────────────────────
+
+describe("hashString / buildResponseCacheKey", () => {
+  const url = "https://api.openai.com/v1";
+
+  it("is deterministic and sensitive to every field", () => {
+    expect(hashString("abc")).toBe(hashString("abc"));
+    expect(hashString("abc")).not.toBe(hashString("abd"));
+    const key = buildResponseCacheKey("openai", url, "gpt-4o", "sys", "user");
+    expect(buildResponseCacheKey("openai", url, "gpt-4o", "sys", "user")).toBe(key);
+    expect(buildResponseCacheKey("openai", url, "gpt-4o-mini", "sys", "user")).not.toBe(key);
+    expect(buildResponseCacheKey("openai", url, "gpt-4o", "sys", "user2")).not.toBe(key);
+  });
+
+  it("separates endpoints serving the same model name", () => {
+    expect(buildResponseCacheKey("custom", "http://host-a/v1", "llama3", "sys", "user")).not.toBe(
+      buildResponseCacheKey("custom", "http://host-b/v1", "llama3", "sys", "user")
+    );
+  });
+
+  it("changes when an image is edited under the same path", () => {
+    const image: ChatImage = { path: "diagram.png", mimeType: "image/png", data: "AAAA", width: 1, height: 1 };
+    const key = buildResponseCacheKey("openai", url, "gpt-4o", "sys", "user", [image]);
+    expect(buildResponseCacheKey("openai", url, "gpt-4o", "sys", "user", [{ ...image }])).toBe(key);
+    expect(buildResponseCacheKey("openai", url, "gpt-4o", "sys", "user", [{ ...image, data: "BBBB" }])).not.toBe(key);
+    expect(buildResponseCacheKey("openai", url, "gpt-4o", "sys", "user")).not.toBe(key);
+  });
+
+  it("does not confuse field boundaries", () => {
+    expect(buildResponseCacheKey("a", "u", "b", "cd", "e")).not.toBe(buildResponseCacheKey("a", "u", "b", "c", "de"));
+  });
+});
+
+describe("lookupCachedResponse / storeCachedResponse", () => {
+  const stats: TurnStats = { promptTokens: 1, completionTokens: 2, durationMs: 10, ttftMs: 5 };
+
+  it("counts hits and misses", () => {
+    const cache = createResponseCache();
+    expect(lookupCachedResponse(cache, "k", 0, 0)).toBeUndefined();
+    storeCachedResponse(cache, "k", { answer: "A", stats, createdAt: 0 }, 10);
+    expect(lookupCachedResponse(cache, "k", 0, 0)?.answer).toBe("A");
+    expect(cache.hits).toBe(1);
+    expect(cache.misses).toBe(1);
+  });
+
+  it("expires entries older than the TTL", () => {
+    const cache = createResponseCache();
+    storeCachedResponse(cache, "k", { answer: "A", stats, createdAt: 1000 }, 10);
+    expect(lookupCachedResponse(cache, "k", 1500, 1000)).toBeDefined();
+    expect(lookupCachedResponse(cache, "k", 2500, 1000)).toBeUndefined();
+    expect(cache.entries).toEqual({});
+  });
+
+  it("evicts the oldest entries beyond the size cap", () => {
+    const cache = createResponseCache();
+    storeCachedResponse(cache, "a", { answer: "A", stats, createdAt: 1 }, 2);
+    storeCachedResponse(cache, "b", { answer: "B", stats, createdAt: 2 }, 2);
+    storeCachedResponse(cache, "c", { answer: "C", stats, createdAt: 3 }, 2);
+    expect(Object.keys(cache.entries).sort()).toEqual(["b", "c"]);
+  });
+});
+
+// ─── history ───────────────────────────────────────────────────
+
+describe("upsertHistoryEntry / filterHistory", () => {
+  const entry = (id: string, overrides: Partial<HistoryEntry> = {}): HistoryEntry => ({
+    id,
+    timestamp: 0,
+    selection: `sel ${id}`,
+    sourcePath: "Notes/A.md",
+    promptName: "Explain",
+    model: "gpt-4o",
+    messages: [],
+    turns: [{ answer: `answer ${id}` }],
+    ...overrides,
+  });
+
+  it("adds new entries first and caps the list", () => {
+    let entries = upsertHistoryEntry([], entry("1"), 2);
+    entries = upsertHistoryEntry(entries, entry("2"), 2);
+    entries = upsertHistoryEntry(entries, entry("3"), 2);
+    expect(entries.map((e) => e.id)).toEqual(["3", "2"]);
+  });
+
+  it("replaces an existing entry and moves it to the front", () => {
+    const entries = upsertHistoryEntry([entry("2"), entry("1")], entry("1", { selection: "updated" }), 0);
+    expect(entries.map((e) => e.id)).toEqual(["1", "2"]);
+    expect(entries[0].selection).toBe("updated");
+  });
+
+  it("filters by model, note and query", () => {
+    const entries = [
+      entry("1"),
+      entry("2", { model: "llama3" }),
+      entry("3", { sourcePath: "Notes/B.md", turns: [{ answer: "Photosynthesis explained" }] }),
+    ];
+    expect(filterHistory(entries, { model: "llama3" }).map((e) => e.id)).toEqual(["2"]);
+    expect(filterHistory(entries, { sourcePath: "Notes/B.md" }).map((e) => e.id)).toEqual(["3"]);
+    expect(filterHistory(entries, { query: "PHOTO" }).map((e) => e.id)).toEqual(["3"]);
+    expect(filterHistory(entries, { query: "sel 1" }).map((e) => e.id)).toEqual(["1"]);
+    expect(filterHistory(entries, {})).toHaveLength(3);
+  });
+});
+
+// ─── Model catalogue ───────────────────────────────────────────
+
+describe("buildCatalogKey", () => {
+  it("separates hosts and API keys without storing the key", () => {
+    const key = buildCatalogKey("openai", "https://api.openai.com/v1/", "sk-secret");
+    expect(key).not.toContain("sk-secret");
+    expect(key).toBe(buildCatalogKey("openai", "https://api.openai.com/v1/", "sk-secret"));
+    expect(key).not.toBe(buildCatalogKey("openai", "https://api.openai.com/v1/", "sk-other"));
+    expect(buildCatalogKey("ollama", "http://a:11434/v1/", "-"))
+      .not.toBe(buildCatalogKey("ollama", "http://b:11434/v1/", "-"));
+  });
+});
+
+describe("isCatalogEntryFresh", () => {
+  const entry = { fetchedAt: 1000, models: [] };
+
+  it("expires entries older than the TTL", () => {
+    expect(isCatalogEntryFresh(entry, 1500, 1000)).toBe(true);
+    expect(isCatalogEntryFresh(entry, 2500, 1000)).toBe(false);
+    expect(isCatalogEntryFresh(undefined, 1000, 1000)).toBe(false);
+  });
+
+  it("never expires with a TTL of 0", () => {
+    expect(isCatalogEntryFresh(entry, 1e12, 0)).toBe(true);
+  });
+});
+
+// ─── Spending ledger ───────────────────────────────────────────
+
+describe("recordSpend", () => {
+  it("accumulates per day, provider and model", () => {
+    const ledger = createLedger();
+    const day = new Date(2026, 2, 10, 12);
+    recordSpend(ledger, day, "openai", "gpt-4o", { promptTokens: 10, completionTokens: 5, cost: 0.01 });
+    recordSpend(ledger, day, "openai", "gpt-4o", { promptTokens: 20, completionTokens: 5 });
+    recordSpend(ledger, day, "ollama", "llama3", { promptTokens: 1, completionTokens: 1, cost: 0 });
+    recordSpend(ledger, new Date(2026, 2, 11), "openai", "gpt-4o", { promptTokens: 1, completionTokens: 1, cost: 0.02 });
+
+    expect(ledger.rows).toHaveLength(3);
+    expect(ledger.rows[0]).toEqual({
+      date: "2026-03-10",
+      provider: "openai",
+      model: "gpt-4o",
+      requests: 2,
+      promptTokens: 30,
+      completionTokens: 10,
+      cost: 0.01,
+      unpricedRequests: 1,
+    });
+    expect(sumLedger(ledger.rows, "2026-03-11")).toEqual({
+      requests: 1, promptTokens: 1, completionTokens: 1, cost: 0.02, unpricedRequests: 0,
+    });
+  });
+});
+
+describe("rollUpLedger", () => {
+  it("rolls rows from before the current week and month into monthly rows", () => {
+    const ledger = createLedger();
+    recordSpend(ledger, new Date(2026, 0, 5), "openai", "gpt-4o", { promptTokens: 10, completionTokens: 5, cost: 0.01 });
+    recordSpend(ledger, new Date(2026, 0, 20), "openai", "gpt-4o", { promptTokens: 20, completionTokens: 5 });
+    recordSpend(ledger, new Date(2026, 0, 20), "ollama", "llama3", { promptTokens: 1, completionTokens: 1, cost: 0 });
+    // Tuesday 3 March: the week started on Monday 2 March
+    recordSpend(ledger, new Date(2026, 1, 27), "openai", "gpt-4o", { promptTokens: 1, completionTokens: 1, cost: 0.02 });
+    recordSpend(ledger, new Date(2026, 2, 2), "openai", "gpt-4o", { promptTokens: 1, completionTokens: 1, cost: 0.03 });
+
+    rollUpLedger(ledger, new Date(2026, 2, 3, 12));
+
+    expect(ledger.rows.map((r) => [r.date, r.model, r.requests])).toEqual([
+      ["2026-01-01", "gpt-4o", 2],
+      ["2026-01-01", "llama3", 1],
+      ["2026-02-01", "gpt-4o", 1],
+      ["2026-03-02", "gpt-4o", 1],
+    ]);
+    expect(ledger.rows[0]).toMatchObject({ promptTokens: 30, completionTokens: 10, cost: 0.01, unpricedRequests: 1 });
+  });
+
+  it("keeps the days of a week that began last month", () => {
+    const ledger = createLedger();
+    recordSpend(ledger, new Date(2026, 1, 27), "openai", "gpt-4o", { promptTokens: 1, completionTokens: 1, cost: 0.02 });
+
+    // Sunday 1 March: the week started on Monday 23 February
+    rollUpLedger(ledger, new Date(2026, 2, 1, 12));
+
+    expect(ledger.rows.map((r) => r.date)).toEqual(["2026-02-27"]);
+  });
+});
+
+describe("getReportPeriods", () => {
+  it("starts weeks on Monday and months on the first", () => {
+    // Sunday 15 March 2026
+    expect(getReportPeriods(new Date(2026, 2, 15, 18))).toEqual({
+      today: "2026-03-15",
+      week: "2026-03-09",
+      month: "2026-03-01",
+    });
+    // Monday 2 March 2026: the week starts today
+    expect(getReportPeriods(new Date(2026, 2, 2)).week).toBe("2026-03-02");
+  });
+});
+
+describe("topModels", () => {
+  it("ranks models by cost, then tokens, since a date", () => {
+    const ledger = createLedger();
+    recordSpend(ledger, new Date(2026, 1, 28), "openai", "gpt-4o", { promptTokens: 1, completionTokens: 1, cost: 5 });
+    recordSpend(ledger, new Date(2026, 2, 1), "openai", "gpt-4o-mini", { promptTokens: 100, completionTokens: 0, cost: 0.1 });
+    recordSpend(ledger, new Date(2026, 2, 2), "ollama", "llama3", { promptTokens: 500, completionTokens: 0, cost: 0 });
+    recordSpend(ledger, new Date(2026, 2, 3), "openrouter", "mistral", { promptTokens: 10, completionTokens: 0, cost: 0 });
+    recordSpend(ledger, new Date(2026, 2, 4), "openai", "gpt-4o-mini", { promptTokens: 100, completionTokens: 0, cost: 0.1 });
+
+    const top = topModels(ledger.rows, "2026-03-01", 2);
+    expect(top.map((m) => m.model)).toEqual(["gpt-4o-mini", "llama3"]);
+    expect(top[0].requests).toBe(2);
+    expect(top[0].cost).toBeCloseTo(0.2);
+  });
+});
+
+describe("checkBudget", () => {
+  const now = new Date(2026, 2, 15, 12);
+  const budgets = { dailyBudget: 1, monthlyBudget: 10, budgetWarnPercent: 80 };
+  const ledgerWith = (today: number, earlier: number) => {
+    const ledger = createLedger();
+    recordSpend(ledger, now, "openai", "gpt-4o", { promptTokens: 0, completionTokens: 0, cost: today });
+    recordSpend(ledger, new Date(2026, 2, 1), "openai", "gpt-4o", { promptTokens: 0, completionTokens: 0, cost: earlier });
+    return ledger.rows;
+  };
+
+  it("is ok below the warning threshold or without budgets", () => {
+    expect(checkBudget(ledgerWith(0.5, 1), budgets, now).level).toBe("ok");
+    expect(checkBudget(ledgerWith(50, 50), { ...budgets, dailyBudget: 0, monthlyBudget: 0 }, now).level).toBe("ok");
+  });
+
+  it("warns at the threshold", () => {
+    expect(checkBudget(ledgerWith(0.85, 1), budgets, now)).toEqual({
+      level: "warning",
+      message: "85% of the daily budget used ($0.85 of $1.00).",
+    });
+  });
+
+  it("reports the most severe budget", () => {
+    const status = checkBudget(ledgerWith(0.85, 9.5), budgets, now);
+    expect(status.level).toBe("exceeded");
+    expect(status.message).toBe("The monthly budget is used up ($10.35 of $10.00).");
+  });
+});
@@ -0,0 +1,304 @@
+import http from "http";
+import { AddressInfo } from "net";
+import {
+  AnthropicError,
+  anthropicProvider,
+  applyAnthropicEvent,
+  buildAnthropicRequest,
+  extractAnthropicUsage,
+  normalizeAnthropicBaseUrl,
+  parseAnthropicModels,
+  parseSSEEvents,
+  streamAnthropicMessages,
+} from "../../src/providers/anthropic";
+import { collect, fakeHttp, makeProfile } from "./helpers";
+
+// ─── buildAnthropicRequest ─────────────────────────────────────
+
+describe("buildAnthropicRequest", () => {
+  it("moves system messages to the system field", () => {
+    const body = buildAnthropicRequest(
+      "claude-x",
+      [
+        { role: "system", content: "Be brief." },
+        { role: "user", content: "Hi" },
+        { role: "assistant", content: "Hello" },
+        { role: "user", content: "More" },
+      ],
+      100
+    );
+    expect(body).toEqual({
+      model: "claude-x",
+      max_tokens: 100,
+      stream: true,
+      system: "Be brief.",
+      messages: [
+        { role: "user", content: "Hi" },
+        { role: "assistant", content: "Hello" },
+        { role: "user", content: "More" },
+      ],
+    });
+  });
+
+  it("includes the temperature when given", () => {
+    const body = buildAnthropicRequest("m", [{ role: "user", content: "Hi" }], 10, 0.5);
+    expect(body.temperature).toBe(0.5);
+    expect("temperature" in buildAnthropicRequest("m", [], 10)).toBe(false);
+  });
+
+  it("enables extended thinking with room for the answer and no temperature", () => {
+    const body = buildAnthropicRequest("m", [{ role: "user", content: "Hi" }], 1000, 0.5, 2000);
+    expect(body.thinking).toEqual({ type: "enabled", budget_tokens: 2000 });
+    expect(body.max_tokens).toBe(3000);
+    expect("temperature" in body).toBe(false);
+    expect(buildAnthropicRequest("m", [], 1000, undefined, 100).thinking).toEqual({ type: "enabled", budget_tokens: 1024 });
+    expect("thinking" in buildAnthropicRequest("m", [], 1000)).toBe(false);
+  });
+
+  it("sends images as base64 blocks before the text", () => {
+    const image = { path: "a.png", mimeType: "image/png", data: "AAAA", width: 1, height: 1 };
+    const body = buildAnthropicRequest("m", [{ role: "user", content: "What is this?", images: [image] }], 10);
+    expect(body.messages).toEqual([{
+      role: "user",
+      content: [
+        { type: "image", source: { type: "base64", media_type: "image/png", data: "AAAA" } },
+        { type: "text", text: "What is this?" },
+      ],
+    }]);
+  });
+
+  it("omits an empty system prompt", () => {
+    const body = buildAnthropicRequest("m", [{ role: "user", content: "Hi" }], 10);
+    expect("system" in body).toBe(false);
+  });
+});
+
+describe("normalizeAnthropicBaseUrl", () => {
+  it("strips trailing slashes and /v1", () => {
+    expect(normalizeAnthropicBaseUrl("https://api.anthropic.com/v1/")).toBe("https://api.anthropic.com");
+    expect(normalizeAnthropicBaseUrl("http://localhost:8080/")).toBe("http://localhost:8080");
+    expect(normalizeAnthropicBaseUrl("")).toBe("https://api.anthropic.com");
+  });
+});
+
+// ─── parseSSEEvents ────────────────────────────────────────────
+
+describe("parseSSEEvents", () => {
+  it("parses complete events and keeps the remainder", () => {
+    const { events, rest } = parseSSEEvents("event: a\ndata: {\"x\":1}\n\n: comment\ndata: 2\n\nevent: b\ndata: par");
+    expect(events).toEqual([
+      { event: "a", data: "{\"x\":1}" },
+      { event: undefined, data: "2" },
+    ]);
+    expect(rest).toBe("event: b\ndata: par");
+  });
+
+  it("joins multi-line data and handles CRLF", () => {
+    const { events } = parseSSEEvents("data: a\r\ndata: b\r\n\r\n");
+    expect(events).toEqual([{ event: undefined, data: "a\nb" }]);
+  });
+});
+
+// ─── applyAnthropicEvent ───────────────────────────────────────
+
+describe("applyAnthropicEvent", () => {
+  it("maps text deltas and usage", () => {
+    const usage = { promptTokens: 0, completionTokens: 0 };
+    expect(applyAnthropicEvent({
+      type: "message_start",
+      message: { usage: { input_tokens: 10, cache_read_input_tokens: 5, output_tokens: 1 } },
+    }, usage)).toEqual({ usage: { promptTokens: 15, completionTokens: 1 } });
+    expect(applyAnthropicEvent({ type: "content_block_delta", delta: { type: "text_delta", text: "Hi" } }, usage))
+      .toEqual({ text: "Hi" });
+    expect(applyAnthropicEvent({ type: "message_delta", usage: { output_tokens: 42 } }, usage))
+      .toEqual({ usage: { promptTokens: 15, completionTokens: 42 } });
+    expect(applyAnthropicEvent({ type: "ping" }, usage)).toBeNull();
+  });
+
+  it("maps thinking deltas to reasoning", () => {
+    const usage = { promptTokens: 0, completionTokens: 0 };
+    expect(applyAnthropicEvent({ type: "content_block_delta", delta: { type: "thinking_delta", thinking: "Hmm" } }, usage))
+      .toEqual({ reasoning: "Hmm" });
+  });
+
+  it("throws on error events", () => {
+    expect(() => applyAnthropicEvent({ type: "error", error: { message: "Overloaded" } }, { promptTokens: 0, completionTokens: 0 }))
+      .toThrow("Overloaded");
+  });
+
+  it("gives transient stream errors their HTTP status", () => {
+    const event = { type: "error", error: { type: "overloaded_error", message: "Overloaded" } };
+    expect(() => applyAnthropicEvent(event, { promptTokens: 0, completionTokens: 0 }))
+      .toThrow(expect.objectContaining({ name: "AnthropicError", status: 529 }));
+  });
+});
+
+// ─── parseAnthropicModels ──────────────────────────────────────
+
+describe("parseAnthropicModels", () => {
+  it("parses and sorts models", () => {
+    const result = parseAnthropicModels({
+      data: [
+        { id: "claude-sonnet-4", display_name: "Claude Sonnet 4" },
+        { id: "claude-haiku", display_name: "Claude Haiku" },
+      ],
+    });
+    expect(result).toEqual([
+      { id: "claude-haiku", name: "Claude Haiku" },
+      { id: "claude-sonnet-4", name: "Claude Sonnet 4" },
+    ]);
+  });
+
+  it("handles missing data field", () => {
+    expect(parseAnthropicModels({})).toEqual([]);
+  });
+});
+
+// ─── anthropicProvider ─────────────────────────────────────────
+
+describe("anthropicProvider", () => {
+  it("lists models with the Anthropic headers", async () => {
+    const { http, requests } = fakeHttp({
+      json: {
+        "https://api.anthropic.com/v1/models?limit=1000": {
+          data: [{ id: "claude-x", display_name: "Claude X" }],
+        },
+      },
+    });
+    const models = await anthropicProvider.listModels!(makeProfile({ anthropicApiKey: "sk-ant" }), http);
+    expect(models).toEqual([{ id: "claude-x", name: "Claude X" }]);
+    expect(requests[0].headers).toMatchObject({ "x-api-key": "sk-ant", "anthropic-version": "2023-06-01" });
+  });
+
+  it("requires an API key to list models", async () => {
+    const { http } = fakeHttp();
+    await expect(anthropicProvider.listModels!(makeProfile({ anthropicApiKey: "" }), http))
+      .rejects.toThrow("Anthropic API key is required");
+  });
+
+  it("streams through the injected fetch with the configured max tokens", async () => {
+    const { http, requests } = fakeHttp({
+      response: () => new Response(
+        "event: content_block_delta\ndata: " +
+        JSON.stringify({ type: "content_block_delta", delta: { type: "text_delta", text: "Hi" } }) +
+        "\n\n",
+        { status: 200 }
+      ),
+    });
+    const settings = makeProfile({ anthropicApiKey: "sk-ant", anthropicMaxTokens: 64 });
+    const chunks = await collect(anthropicProvider.streamChat(
+      { settings, model: "claude-x", messages: [{ role: "user", content: "x" }] },
+      http
+    ));
+    expect(chunks).toEqual([{ text: "Hi" }]);
+    expect(requests[0].url).toBe("https://api.anthropic.com/v1/messages");
+    expect(requests[0].body).toMatchObject({ model: "claude-x", max_tokens: 64 });
+  });
+
+  it("extracts usage including cached input tokens", () => {
+    expect(extractAnthropicUsage({ input_tokens: 2, cache_creation_input_tokens: 3, output_tokens: 4 }))
+      .toEqual({ promptTokens: 5, completionTokens: 4 });
+    expect(extractAnthropicUsage(undefined)).toBeUndefined();
+  });
+});
+
+// ─── streamAnthropicMessages (mock server) ─────────────────────
+
+describe("streamAnthropicMessages", () => {
+  let server: http.Server;
+  let baseURL: string;
+  let lastRequest: { headers: http.IncomingHttpHeaders; body: any } | null = null;
+  let respond: (res: http.ServerResponse) => void;
+
+  const sse = (type: string, data: object) => `event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = "";
+      req.on("data", (chunk) => (raw += chunk));
+      req.on("end", () => {
+        lastRequest = { headers: req.headers, body: JSON.parse(raw) };
+        respond(res);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("streams text and usage from the SSE response", async () => {
+    respond = (res) => {
+      res.writeHead(200, { "content-type": "text/event-stream" });
+      // Split an event across writes to exercise buffering
+      const payload =
+        sse("message_start", { message: { usage: { input_tokens: 12, output_tokens: 1 } } }) +
+        sse("content_block_start", { index: 0, content_block: { type: "text", text: "" } }) +
+        sse("ping", {}) +
+        sse("content_block_delta", { index: 0, delta: { type: "text_delta", text: "Hello" } }) +
+        sse("content_block_delta", { index: 0, delta: { type: "text_delta", text: " world" } }) +
+        sse("content_block_stop", { index: 0 }) +
+        sse("message_delta", { delta: { stop_reason: "end_turn" }, usage: { output_tokens: 7 } }) +
+        sse("message_stop", {});
+      res.write(payload.substring(0, 50));
+      res.end(payload.substring(50));
+    };
+
+    const chunks = await collect(streamAnthropicMessages({
+      baseURL: `${baseURL}/v1`,
+      apiKey: "sk-ant-test",
+      model: "claude-test",
+      messages: [
+        { role: "system", content: "sys" },
+        { role: "user", content: "Explain" },
+      ],
+      maxTokens: 256,
+      fetch,
+    }));
+
+    expect(chunks.map((c) => c.text).filter(Boolean).join("")).toBe("Hello world");
+    expect(chunks.filter((c) => c.usage).pop()?.usage).toEqual({ promptTokens: 12, completionTokens: 7 });
+    expect(lastRequest?.headers["x-api-key"]).toBe("sk-ant-test");
+    expect(lastRequest?.headers["anthropic-version"]).toBe("2023-06-01");
+    expect(lastRequest?.body).toMatchObject({ model: "claude-test", max_tokens: 256, system: "sys", stream: true });
+  });
+
+  it("throws AnthropicError with the API message and status", async () => {
+    respond = (res) => {
+      res.writeHead(401, { "content-type": "application/json" });
+      res.end(JSON.stringify({ type: "error", error: { type: "authentication_error", message: "invalid x-api-key" } }));
+    };
+
+    const promise = collect(streamAnthropicMessages({
+      baseURL,
+      apiKey: "bad",
+      model: "m",
+      messages: [{ role: "user", content: "x" }],
+      maxTokens: 10,
+      fetch,
+    }));
+    await expect(promise).rejects.toBeInstanceOf(AnthropicError);
+    await expect(promise).rejects.toMatchObject({ status: 401, message: "invalid x-api-key" });
+  });
+
+  it("throws on mid-stream error events", async () => {
+    respond = (res) => {
+      res.writeHead(200, { "content-type": "text/event-stream" });
+      res.end(
+        sse("content_block_delta", { index: 0, delta: { type: "text_delta", text: "Part" } }) +
+        sse("error", { error: { type: "overloaded_error", message: "Overloaded" } })
+      );
+    };
+
+    await expect(collect(streamAnthropicMessages({
+      baseURL,
+      apiKey: "k",
+      model: "m",
+      messages: [{ role: "user", content: "x" }],
+      maxTokens: 10,
+      fetch,
+    }))).rejects.toThrow("Overloaded");
+  });
+});
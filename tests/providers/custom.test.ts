@@ -0,0 +1,50 @@
+import { ChatMessage } from "../../src/lib";
+import { customProvider } from "../../src/providers/custom";
+import { collect, fakeHttp, joinText, makeProfile, openAIStream, openAITextStream } from "./helpers";
+
+const messages: ChatMessage[] = [
+  { role: "system", content: "Be brief." },
+  { role: "user", content: "Explain X" },
+];
+
+describe("customProvider", () => {
+  it("has no model listing", () => {
+    expect(customProvider.listModels).toBeUndefined();
+  });
+
+  it("streams from the configured base URL", async () => {
+    const { http, requests } = fakeHttp({ response: () => openAITextStream(["Custom"], { prompt_tokens: 7, completion_tokens: 1 }) });
+    const settings = makeProfile({
+      provider: "custom",
+      baseURL: "https://custom.api/v1",
+      endpoint: "my-model",
+      apiKey: "custom-key",
+    });
+    const chunks = await collect(customProvider.streamChat({ settings, model: "my-model", messages }, http));
+
+    expect(joinText(chunks)).toBe("Custom");
+    expect(chunks.filter((c) => c.usage).pop()?.usage).toEqual({ promptTokens: 7, completionTokens: 1 });
+    expect(requests[0].url).toBe("https://custom.api/v1/chat/completions");
+    expect(requests[0].headers.authorization).toBe("Bearer custom-key");
+    expect(requests[0].body.model).toBe("my-model");
+  });
+
+  it("reads DeepSeek-style reasoning_content", async () => {
+    const { http } = fakeHttp({
+      response: () => openAIStream([
+        { id: "c1", choices: [{ index: 0, delta: { reasoning_content: "First, " } }] },
+        { id: "c1", choices: [{ index: 0, delta: { reasoning_content: "recall X." } }] },
+        { id: "c1", choices: [{ index: 0, delta: { content: "X is…" } }] },
+      ]),
+    });
+    const settings = makeProfile({ provider: "custom", baseURL: "http://localhost:8000/v1" });
+    const chunks = await collect(customProvider.streamChat({ settings, model: "deepseek-reasoner", messages }, http));
+
+    expect(chunks.map((c) => c.reasoning || "").join("")).toBe("First, recall X.");
+    expect(joinText(chunks)).toBe("X is…");
+  });
+
+  it("clears the connection settings when selected", () => {
+    expect(customProvider.defaults).toEqual({ baseURL: "", endpoint: "", apiKey: "" });
+  });
+});
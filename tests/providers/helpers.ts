@@ -0,0 +1,80 @@
+import {
+  DEFAULT_PROFILE,
+  ProviderProfile,
+  ChatStreamChunk,
+} from "../../src/lib";
+import { ProviderHttp } from "../../src/providers";
+
+export interface RecordedRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: any;
+}
+
+// Helper to create a provider profile with overrides
+export function makeProfile(overrides: Partial<ProviderProfile> = {}): ProviderProfile {
+  return { ...DEFAULT_PROFILE, ...overrides };
+}
+
+/**
+ * Fake ProviderHttp: getJson answers from a URL → body map, fetch returns
+ * the given response. Every request is recorded.
+ */
+export function fakeHttp(routes: { json?: Record<string, unknown>; response?: () => Response } = {}) {
+  const requests: RecordedRequest[] = [];
+  const http: ProviderHttp = {
+    getJson: async (url, headers = {}) => {
+      requests.push({ url, method: "GET", headers });
+      if (!routes.json || !(url in routes.json)) {
+        throw new Error("Request failed, status 404");
+      }
+      return routes.json[url];
+    },
+    fetch: async (url, init = {}) => {
+      const headers: Record<string, string> = {};
+      new Headers(init.headers).forEach((value, key) => (headers[key] = value));
+      requests.push({
+        url,
+        method: init.method || "GET",
+        headers,
+        body: init.body ? JSON.parse(String(init.body)) : undefined,
+      });
+      return routes.response ? routes.response() : new Response("Not found", { status: 404 });
+    },
+  };
+  return { http, requests };
+}
+
+/**
+ * An OpenAI-style chat completion stream, terminated by [DONE].
+ */
+export function openAIStream(chunks: unknown[]): Response {
+  const body = chunks.map((c) => `data: ${JSON.stringify(c)}\n\n`).join("") + "data: [DONE]\n\n";
+  return new Response(body, { status: 200, headers: { "content-type": "text/event-stream" } });
+}
+
+/**
+ * A streamed chat completion carrying the given text deltas, followed by a
+ * usage-only chunk.
+ */
+export function openAITextStream(deltas: string[], usage = { prompt_tokens: 10, completion_tokens: 5 }): Response {
+  return openAIStream([
+    ...deltas.map((content) => ({
+      id: "c1",
+      object: "chat.completion.chunk",
+      choices: [{ index: 0, delta: { content } }],
+    })),
+    { id: "c1", object: "chat.completion.chunk", choices: [], usage },
+  ]);
+}
+
+export async function collect(gen: AsyncGenerator<ChatStreamChunk>): Promise<ChatStreamChunk[]> {
+  const chunks: ChatStreamChunk[] = [];
+  for await (const chunk of gen) chunks.push(chunk);
+  return chunks;
+}
+
+export function joinText(chunks: ChatStreamChunk[]): string {
+  return chunks.map((c) => c.text || "").join("");
+}
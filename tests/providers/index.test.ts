@@ -0,0 +1,135 @@
+import { DEFAULT_PROFILE } from "../../src/lib";
+import { PROVIDERS, getProvider, getProviderConfig } from "../../src/providers";
+import { makeProfile } from "./helpers";
+
+// ─── getProviderConfig ──────────────────────────────────────────
+
+describe("getProviderConfig", () => {
+  it("returns correct config for OpenAI provider", () => {
+    const settings = makeProfile({
+      provider: "openai",
+      baseURL: "https://api.openai.com/v1/",
+      apiKey: "sk-test",
+      endpoint: "gpt-4o",
+    });
+    const config = getProviderConfig(settings);
+    expect(config.baseURL).toBe("https://api.openai.com/v1/");
+    expect(config.apiKey).toBe("sk-test");
+    expect(config.model).toBe("gpt-4o");
+    expect(config.defaultHeaders).toBeUndefined();
+  });
+
+  it("returns correct config for OpenRouter provider with headers", () => {
+    const settings = makeProfile({
+      provider: "openrouter",
+      openRouterApiKey: "sk-or-test",
+      openRouterModel: "anthropic/claude-sonnet-4",
+      openRouterReferer: "https://my-site.com",
+      openRouterTitle: "My App",
+    });
+    const config = getProviderConfig(settings);
+    expect(config.baseURL).toBe("https://openrouter.ai/api/v1");
+    expect(config.apiKey).toBe("sk-or-test");
+    expect(config.model).toBe("anthropic/claude-sonnet-4");
+    expect(config.defaultHeaders).toEqual({
+      "HTTP-Referer": "https://my-site.com",
+      "X-Title": "My App",
+    });
+  });
+
+  it("omits headers when OpenRouter referer/title are empty", () => {
+    const settings = makeProfile({
+      provider: "openrouter",
+      openRouterApiKey: "sk-or-test",
+      openRouterModel: "model",
+      openRouterReferer: "",
+      openRouterTitle: "",
+    });
+    const config = getProviderConfig(settings);
+    expect(config.defaultHeaders).toBeUndefined();
+  });
+
+  it("includes only provided OpenRouter headers", () => {
+    const settings = makeProfile({
+      provider: "openrouter",
+      openRouterApiKey: "key",
+      openRouterModel: "m",
+      openRouterReferer: "https://ref.com",
+      openRouterTitle: "",
+    });
+    const config = getProviderConfig(settings);
+    expect(config.defaultHeaders).toEqual({ "HTTP-Referer": "https://ref.com" });
+  });
+
+  it("returns correct config for Ollama provider", () => {
+    const settings = makeProfile({
+      provider: "ollama",
+      baseURL: "http://localhost:11434/v1/",
+      endpoint: "llama3",
+      apiKey: "",
+    });
+    const config = getProviderConfig(settings);
+    expect(config.baseURL).toBe("http://localhost:11434/v1/");
+    expect(config.apiKey).toBe("-");
+    expect(config.model).toBe("llama3");
+    expect(config.defaultHeaders).toBeUndefined();
+  });
+
+  it("returns correct config for custom provider", () => {
+    const settings = makeProfile({
+      provider: "custom",
+      baseURL: "https://custom.api/v1",
+      endpoint: "my-model",
+      apiKey: "custom-key",
+    });
+    const config = getProviderConfig(settings);
+    expect(config.baseURL).toBe("https://custom.api/v1");
+    expect(config.apiKey).toBe("custom-key");
+    expect(config.model).toBe("my-model");
+  });
+
+  it("returns correct config for Anthropic provider", () => {
+    const settings = makeProfile({
+      provider: "anthropic",
+      anthropicApiKey: "sk-ant",
+      anthropicModel: "claude-x",
+      anthropicBaseURL: "http://localhost:9000",
+    });
+    const config = getProviderConfig(settings);
+    expect(config.baseURL).toBe("http://localhost:9000");
+    expect(config.apiKey).toBe("sk-ant");
+    expect(config.model).toBe("claude-x");
+    expect(config.defaultHeaders).toBeUndefined();
+  });
+
+  it("returns '-' when apiKey is empty (non-OpenRouter)", () => {
+    const settings = makeProfile({
+      provider: "openai",
+      apiKey: "",
+    });
+    expect(getProviderConfig(settings).apiKey).toBe("-");
+  });
+});
+
+// ─── registry ──────────────────────────────────────────────────
+
+describe("getProvider", () => {
+  it("finds providers by id", () => {
+    expect(getProvider("openrouter").label).toBe("OpenRouter");
+    expect(getProvider("anthropic").id).toBe("anthropic");
+  });
+
+  it("falls back to the custom provider for unknown ids", () => {
+    expect(getProvider("nonexistent").id).toBe("custom");
+  });
+
+  it("lists each provider once, with settings fields backed by profile fields", () => {
+    const ids = PROVIDERS.map((p) => p.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    for (const provider of PROVIDERS) {
+      for (const field of provider.settingFields) {
+        expect(DEFAULT_PROFILE).toHaveProperty(field.key);
+      }
+    }
+  });
+});
@@ -0,0 +1,118 @@
+import { ChatMessage } from "../../src/lib";
+import {
+  deriveOllamaBaseUrl,
+  ollamaProvider,
+  parseOllamaContextLength,
+  parseOllamaModels,
+} from "../../src/providers/ollama";
+import { collect, fakeHttp, joinText, makeProfile, openAITextStream } from "./helpers";
+
+const messages: ChatMessage[] = [
+  { role: "system", content: "Be brief." },
+  { role: "user", content: "Explain X" },
+];
+
+// ─── parseOllamaModels ─────────────────────────────────────────
+
+describe("parseOllamaModels", () => {
+  it("parses valid response", () => {
+    const data = { models: [{ name: "llama3" }, { name: "mistral" }] };
+    const result = parseOllamaModels(data);
+    expect(result).toEqual([{ id: "llama3" }, { id: "mistral" }]);
+  });
+
+  it("returns sorted results", () => {
+    const data = { models: [{ name: "zebra" }, { name: "alpha" }] };
+    const result = parseOllamaModels(data);
+    expect(result[0].id).toBe("alpha");
+  });
+
+  it("handles empty models array", () => {
+    expect(parseOllamaModels({ models: [] })).toEqual([]);
+  });
+
+  it("handles missing models field", () => {
+    expect(parseOllamaModels({})).toEqual([]);
+  });
+});
+
+// ─── deriveOllamaBaseUrl ────────────────────────────────────────
+
+describe("deriveOllamaBaseUrl", () => {
+  it("strips /v1/ suffix", () => {
+    expect(deriveOllamaBaseUrl("http://localhost:11434/v1/")).toBe("http://localhost:11434");
+  });
+
+  it("strips /v1 suffix (no trailing slash)", () => {
+    expect(deriveOllamaBaseUrl("http://localhost:11434/v1")).toBe("http://localhost:11434");
+  });
+
+  it("returns default localhost if empty", () => {
+    expect(deriveOllamaBaseUrl("")).toBe("http://localhost:11434");
+  });
+
+  it("handles URL without /v1/", () => {
+    expect(deriveOllamaBaseUrl("http://myhost:1234")).toBe("http://myhost:1234");
+  });
+});
+
+// ─── parseOllamaContextLength ──────────────────────────────────
+
+describe("parseOllamaContextLength", () => {
+  it("reads the architecture's context_length", () => {
+    const show = { model_info: { "general.architecture": "llama", "llama.context_length": 131072 } };
+    expect(parseOllamaContextLength(show)).toBe(131072);
+  });
+
+  it("prefers a num_ctx parameter", () => {
+    const show = {
+      parameters: "stop \"<|eot_id|>\"\nnum_ctx 8192",
+      model_info: { "llama.context_length": 131072 },
+    };
+    expect(parseOllamaContextLength(show)).toBe(8192);
+  });
+
+  it("returns undefined without either", () => {
+    expect(parseOllamaContextLength({})).toBeUndefined();
+    expect(parseOllamaContextLength(null)).toBeUndefined();
+  });
+});
+
+// ─── ollamaProvider ────────────────────────────────────────────
+
+describe("ollamaProvider", () => {
+  it("lists installed models from the native API", async () => {
+    const { http } = fakeHttp({
+      json: {
+        "http://localhost:11434/api/tags": { models: [{ name: "mistral" }, { name: "llama3" }] },
+      },
+    });
+    const models = await ollamaProvider.listModels!(makeProfile({ baseURL: "http://localhost:11434/v1/" }), http);
+    expect(models.map((m) => m.id)).toEqual(["llama3", "mistral"]);
+  });
+
+  it("asks /api/show for a model's context length", async () => {
+    const { http, requests } = fakeHttp({
+      response: () => new Response(JSON.stringify({ model_info: { "qwen2.context_length": 32768 } }), { status: 200 }),
+    });
+    const length = await ollamaProvider.getContextLength!(makeProfile({ baseURL: "http://localhost:11434/v1/" }), "qwen2", http);
+    expect(length).toBe(32768);
+    expect(requests[0]).toMatchObject({ url: "http://localhost:11434/api/show", method: "POST", body: { model: "qwen2" } });
+  });
+
+  it("reports an unreachable server", async () => {
+    const { http } = fakeHttp();
+    await expect(ollamaProvider.listModels!(makeProfile({ baseURL: "http://localhost:11434/v1/" }), http))
+      .rejects.toThrow("404");
+  });
+
+  it("streams through the OpenAI-compatible endpoint without an API key", async () => {
+    const { http, requests } = fakeHttp({ response: () => openAITextStream(["Local", " answer"]) });
+    const settings = makeProfile({ provider: "ollama", baseURL: "http://localhost:11434/v1/", apiKey: "" });
+    const chunks = await collect(ollamaProvider.streamChat({ settings, model: "llama3", messages }, http));
+
+    expect(joinText(chunks)).toBe("Local answer");
+    expect(requests[0].url).toBe("http://localhost:11434/v1/chat/completions");
+    expect(requests[0].headers.authorization).toBe("Bearer -");
+  });
+});
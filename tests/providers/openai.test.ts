@@ -0,0 +1,153 @@
+import { ChatMessage } from "../../src/lib";
+import { filterOpenAIModels, lookupOpenAIPricing, openaiProvider } from "../../src/providers/openai";
+import { collect, fakeHttp, joinText, makeProfile, openAITextStream } from "./helpers";
+
+const messages: ChatMessage[] = [
+  { role: "system", content: "Be brief." },
+  { role: "user", content: "Explain X" },
+];
+
+// ─── filterOpenAIModels ─────────────────────────────────────────
+
+describe("filterOpenAIModels", () => {
+  it("keeps gpt- models", () => {
+    const models = [{ id: "gpt-4o" }, { id: "gpt-4o-mini" }, { id: "gpt-3.5-turbo" }];
+    const result = filterOpenAIModels(models);
+    expect(result.map((m) => m.id)).toEqual(["gpt-3.5-turbo", "gpt-4o", "gpt-4o-mini"]);
+  });
+
+  it("keeps o1, o3 models", () => {
+    const models = [{ id: "o1-mini" }, { id: "o1-preview" }, { id: "o3-mini" }];
+    const result = filterOpenAIModels(models);
+    expect(result).toHaveLength(3);
+  });
+
+  it("excludes dall-e, tts, whisper, embedding models", () => {
+    const models = [
+      { id: "gpt-4o" },
+      { id: "dall-e-3" },
+      { id: "tts-1" },
+      { id: "whisper-1" },
+      { id: "text-embedding-ada-002" },
+      { id: "embedding-v1" },
+      { id: "babbage-002" },
+      { id: "davinci-002" },
+    ];
+    const result = filterOpenAIModels(models);
+    expect(result).toEqual([{ id: "gpt-4o" }]);
+  });
+
+  it("returns sorted results", () => {
+    const models = [{ id: "gpt-4o" }, { id: "chatgpt-4o-latest" }, { id: "gpt-3.5-turbo" }];
+    const result = filterOpenAIModels(models);
+    expect(result.map((m) => m.id)).toEqual(["chatgpt-4o-latest", "gpt-3.5-turbo", "gpt-4o"]);
+  });
+
+  it("handles empty input", () => {
+    expect(filterOpenAIModels([])).toEqual([]);
+  });
+});
+
+// ─── lookupOpenAIPricing ────────────────────────────────────────
+
+describe("lookupOpenAIPricing", () => {
+  it("matches dated snapshots to the longest model name", () => {
+    expect(lookupOpenAIPricing("gpt-4o-2024-08-06")).toEqual({ prompt: "0.0000025", completion: "0.00001" });
+    expect(lookupOpenAIPricing("gpt-4o-mini-2024-07-18")).toEqual(lookupOpenAIPricing("gpt-4o-mini"));
+    expect(lookupOpenAIPricing("gpt-4-turbo-preview")).toEqual(lookupOpenAIPricing("gpt-4-turbo"));
+  });
+
+  it("returns undefined for unknown models", () => {
+    expect(lookupOpenAIPricing("gpt-4o1")).toBeUndefined();
+    expect(lookupOpenAIPricing("my-finetune")).toBeUndefined();
+  });
+});
+
+// ─── openaiProvider ────────────────────────────────────────────
+
+describe("openaiProvider", () => {
+  it("lists chat models with the API key", async () => {
+    const { http, requests } = fakeHttp({
+      json: {
+        "https://api.openai.com/v1/models": {
+          data: [{ id: "gpt-4o" }, { id: "whisper-1" }, { id: "gpt-4o-mini" }],
+        },
+      },
+    });
+    const models = await openaiProvider.listModels!(makeProfile({ apiKey: "sk-test" }), http);
+    expect(models.map((m) => m.id)).toEqual(["gpt-4o", "gpt-4o-mini"]);
+    expect(models[1].pricing).toEqual({ prompt: "1.5e-7", completion: "6e-7" });
+    expect(requests[0].headers).toEqual({ Authorization: "Bearer sk-test" });
+  });
+
+  it("requires an API key to list models", async () => {
+    const { http, requests } = fakeHttp();
+    await expect(openaiProvider.listModels!(makeProfile({ apiKey: "" }), http))
+      .rejects.toThrow("OpenAI API key is required");
+    expect(requests).toHaveLength(0);
+  });
+
+  it("streams text and usage from chat completions", async () => {
+    const { http, requests } = fakeHttp({ response: () => openAITextStream(["Hello", " world"]) });
+    const settings = makeProfile({
+      provider: "openai",
+      baseURL: "https://api.openai.com/v1/",
+      apiKey: "sk-test",
+    });
+    const chunks = await collect(openaiProvider.streamChat({ settings, model: "gpt-4o", messages }, http));
+
+    expect(joinText(chunks)).toBe("Hello world");
+    expect(chunks.filter((c) => c.usage).pop()?.usage).toEqual({ promptTokens: 10, completionTokens: 5 });
+    expect(requests[0].url).toBe("https://api.openai.com/v1/chat/completions");
+    expect(requests[0].headers.authorization).toBe("Bearer sk-test");
+    expect(requests[0].body).toMatchObject({
+      model: "gpt-4o",
+      messages,
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+  });
+
+  it("sends the profile temperature only when set", async () => {
+    const { http, requests } = fakeHttp({ response: () => openAITextStream(["a"]) });
+    await collect(openaiProvider.streamChat({ settings: makeProfile({ temperature: 0.2 }), model: "gpt-4o", messages }, http));
+    await collect(openaiProvider.streamChat({ settings: makeProfile(), model: "gpt-4o", messages }, http));
+    expect(requests[0].body.temperature).toBe(0.2);
+    expect("temperature" in requests[1].body).toBe(false);
+  });
+
+  it("sends images as data URL parts after the text", async () => {
+    const { http, requests } = fakeHttp({ response: () => openAITextStream(["a"]) });
+    const image = { path: "a.png", mimeType: "image/png", data: "AAAA", width: 1, height: 1 };
+    const withImage: ChatMessage[] = [{ role: "user", content: "What is this?", images: [image] }];
+    await collect(openaiProvider.streamChat({ settings: makeProfile(), model: "gpt-4o", messages: withImage }, http));
+    expect(requests[0].body.messages).toEqual([{
+      role: "user",
+      content: [
+        { type: "text", text: "What is this?" },
+        { type: "image_url", image_url: { url: "data:image/png;base64,AAAA" } },
+      ],
+    }]);
+  });
+
+  it("surfaces API errors with their status", async () => {
+    const { http } = fakeHttp({
+      response: () => new Response(JSON.stringify({ error: { message: "Incorrect API key" } }), {
+        status: 401,
+        headers: { "content-type": "application/json" },
+      }),
+    });
+    const promise = collect(openaiProvider.streamChat({ settings: makeProfile(), model: "gpt-4o", messages }, http));
+    await expect(promise).rejects.toMatchObject({ status: 401 });
+  });
+
+  it("extracts usage and prices models from the local table", () => {
+    expect(openaiProvider.extractUsage({ prompt_tokens: 3, completion_tokens: 4 }))
+      .toEqual({ promptTokens: 3, completionTokens: 4 });
+    expect(openaiProvider.extractUsage(null)).toBeUndefined();
+    expect(openaiProvider.calculateCost({ id: "gpt-4o" }, { promptTokens: 1000000, completionTokens: 100000 }))
+      .toBeCloseTo(3.5);
+    expect(openaiProvider.calculateCost({ id: "ft:custom" }, { promptTokens: 3, completionTokens: 4 })).toBeUndefined();
+    expect(openaiProvider.calculateCost(undefined, { promptTokens: 3, completionTokens: 4 })).toBeUndefined();
+  });
+});
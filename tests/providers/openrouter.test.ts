@@ -0,0 +1,143 @@
+import { ChatMessage } from "../../src/lib";
+import { openRouterProvider, parseOpenRouterModels } from "../../src/providers/openrouter";
+import { collect, fakeHttp, joinText, makeProfile, openAIStream, openAITextStream } from "./helpers";
+
+const messages: ChatMessage[] = [
+  { role: "system", content: "Be brief." },
+  { role: "user", content: "Explain X" },
+];
+
+// ─── parseOpenRouterModels ──────────────────────────────────────
+
+describe("parseOpenRouterModels", () => {
+  it("parses valid response with id and name", () => {
+    const data = {
+      data: [
+        { id: "anthropic/claude-3", name: "Claude 3" },
+        { id: "openai/gpt-4", name: "GPT-4" },
+      ],
+    };
+    const result = parseOpenRouterModels(data);
+    expect(result).toEqual([
+      { id: "anthropic/claude-3", name: "Claude 3" },
+      { id: "openai/gpt-4", name: "GPT-4" },
+    ]);
+  });
+
+  it("reads the context length", () => {
+    const result = parseOpenRouterModels({ data: [{ id: "m", context_length: 128000 }] });
+    expect(result[0].contextLength).toBe(128000);
+  });
+
+  it("reads the modality", () => {
+    const result = parseOpenRouterModels({ data: [{ id: "m", architecture: { modality: "text+image->text" } }, { id: "n" }] });
+    expect(result.map((m) => m.modality)).toEqual(["text+image->text", undefined]);
+  });
+
+  it("reads the input modalities", () => {
+    const result = parseOpenRouterModels({ data: [{ id: "m", architecture: { input_modalities: ["text", "image"] } }, { id: "n" }] });
+    expect(result.map((m) => m.inputModalities)).toEqual([["text", "image"], undefined]);
+  });
+
+  it("handles missing name field", () => {
+    const data = { data: [{ id: "model-1" }] };
+    const result = parseOpenRouterModels(data);
+    expect(result).toEqual([{ id: "model-1", name: undefined }]);
+  });
+
+  it("returns sorted results", () => {
+    const data = {
+      data: [
+        { id: "z-model", name: "Z" },
+        { id: "a-model", name: "A" },
+      ],
+    };
+    const result = parseOpenRouterModels(data);
+    expect(result[0].id).toBe("a-model");
+    expect(result[1].id).toBe("z-model");
+  });
+
+  it("handles empty data array", () => {
+    expect(parseOpenRouterModels({ data: [] })).toEqual([]);
+  });
+
+  it("handles missing data field", () => {
+    expect(parseOpenRouterModels({})).toEqual([]);
+  });
+});
+
+// ─── openRouterProvider ────────────────────────────────────────
+
+describe("openRouterProvider", () => {
+  it("lists models without an API key", async () => {
+    const { http, requests } = fakeHttp({
+      json: {
+        "https://openrouter.ai/api/v1/models": {
+          data: [{ id: "b/model", name: "B" }, { id: "a/model", name: "A" }],
+        },
+      },
+    });
+    const models = await openRouterProvider.listModels!(makeProfile({ openRouterApiKey: "" }), http);
+    expect(models.map((m) => m.id)).toEqual(["a/model", "b/model"]);
+    expect(requests[0].headers).toEqual({});
+  });
+
+  it("reports context lengths in the public list", async () => {
+    const { http } = fakeHttp({
+      json: {
+        "https://openrouter.ai/api/v1/models": {
+          data: [{ id: "a/model", context_length: 32768 }, { id: "b/model" }],
+        },
+      },
+    });
+    const models = await openRouterProvider.listModels!(makeProfile(), http);
+    expect(openRouterProvider.listsContextLength).toBe(true);
+    expect(models.map((m) => m.contextLength)).toEqual([32768, undefined]);
+  });
+
+  it("streams with the attribution headers", async () => {
+    const { http, requests } = fakeHttp({ response: () => openAITextStream(["Hi"]) });
+    const settings = makeProfile({
+      provider: "openrouter",
+      openRouterApiKey: "sk-or-test",
+      openRouterReferer: "https://my-site.com",
+      openRouterTitle: "My App",
+    });
+    const chunks = await collect(openRouterProvider.streamChat({ settings, model: "a/model", messages }, http));
+
+    expect(joinText(chunks)).toBe("Hi");
+    expect(requests[0].url).toBe("https://openrouter.ai/api/v1/chat/completions");
+    expect(requests[0].headers).toMatchObject({
+      authorization: "Bearer sk-or-test",
+      "http-referer": "https://my-site.com",
+      "x-title": "My App",
+    });
+  });
+
+  it("streams reasoning apart from the answer, with reasoning tokens", async () => {
+    const { http } = fakeHttp({
+      response: () => openAIStream([
+        { id: "c1", choices: [{ index: 0, delta: { reasoning: "Let me think." } }] },
+        { id: "c1", choices: [{ index: 0, delta: { content: "Hi" } }] },
+        {
+          id: "c1",
+          choices: [],
+          usage: { prompt_tokens: 10, completion_tokens: 8, completion_tokens_details: { reasoning_tokens: 6 } },
+        },
+      ]),
+    });
+    const chunks = await collect(openRouterProvider.streamChat({ settings: makeProfile(), model: "a/model", messages }, http));
+
+    expect(joinText(chunks)).toBe("Hi");
+    expect(chunks.map((c) => c.reasoning || "").join("")).toBe("Let me think.");
+    expect(chunks.filter((c) => c.usage).pop()?.usage).toEqual({ promptTokens: 10, completionTokens: 8, reasoningTokens: 6 });
+  });
+
+  it("prices usage from the model's listed pricing", () => {
+    const cost = openRouterProvider.calculateCost(
+      { id: "a/model", pricing: { prompt: "0.000001", completion: "0.000002" } },
+      { promptTokens: 1000, completionTokens: 500 }
+    );
+    expect(cost).toBeCloseTo(0.002);
+  });
+});
@@ -0,0 +1,245 @@
+import { ChatMessage, ChatStreamChunk } from "../../src/lib";
+import { ProviderAdapter } from "../../src/providers";
+import { openaiProvider } from "../../src/providers/openai";
+import { AnthropicError } from "../../src/providers/anthropic";
+import {
+  RetryOptions,
+  StreamTarget,
+  computeBackoffDelay,
+  getRetryAfterMs,
+  isRetryableError,
+  streamWithFallback,
+} from "../../src/providers/retry";
+import { collect, fakeHttp, joinText, makeProfile, openAITextStream } from "./helpers";
+
+const messages: ChatMessage[] = [{ role: "user", content: "Explain X" }];
+
+function statusError(status: number, headers?: Record<string, string>) {
+  return Object.assign(new Error(`status ${status}`), { status, headers });
+}
+
+// Adapter that runs one scripted behaviour per call
+function scriptedAdapter(id: string, calls: Array<() => AsyncGenerator<ChatStreamChunk>>): ProviderAdapter & { count: () => number } {
+  let count = 0;
+  return {
+    ...openaiProvider,
+    id,
+    streamChat: () => calls[Math.min(count++, calls.length - 1)](),
+    count: () => count,
+  };
+}
+
+async function* fail(err: unknown): AsyncGenerator<ChatStreamChunk> {
+  throw err;
+}
+
+async function* answer(...texts: string[]): AsyncGenerator<ChatStreamChunk> {
+  for (const text of texts) yield { text };
+}
+
+async function* failAfter(text: string, err: unknown): AsyncGenerator<ChatStreamChunk> {
+  yield { text };
+  throw err;
+}
+
+function options(overrides: Partial<RetryOptions> = {}) {
+  const delays: number[] = [];
+  const opts: RetryOptions = {
+    maxRetries: 2,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000,
+    sleep: async (ms) => {
+      delays.push(ms);
+    },
+    random: () => 1,
+    ...overrides,
+  };
+  return { opts, delays };
+}
+
+function target(adapter: ProviderAdapter, model = "m"): StreamTarget {
+  return { adapter, settings: makeProfile(), model };
+}
+
+describe("isRetryableError", () => {
+  it("retries rate limits, timeouts, server and network errors", () => {
+    expect(isRetryableError(statusError(429))).toBe(true);
+    expect(isRetryableError(statusError(408))).toBe(true);
+    expect(isRetryableError(statusError(503))).toBe(true);
+    expect(isRetryableError(new AnthropicError("Overloaded", 529))).toBe(true);
+    expect(isRetryableError(new TypeError("Failed to fetch"))).toBe(true);
+    expect(isRetryableError(new Error("read ECONNRESET"))).toBe(true);
+  });
+
+  it("does not retry client errors or aborts", () => {
+    expect(isRetryableError(statusError(401))).toBe(false);
+    expect(isRetryableError(statusError(400))).toBe(false);
+    expect(isRetryableError(Object.assign(new Error("aborted"), { name: "AbortError" }))).toBe(false);
+    expect(isRetryableError(new Error("Invalid model"))).toBe(false);
+  });
+});
+
+describe("getRetryAfterMs", () => {
+  it("reads seconds, milliseconds and HTTP dates", () => {
+    const now = Date.parse("2026-01-01T00:00:00Z");
+    expect(getRetryAfterMs(statusError(429, { "retry-after": "3" }))).toBe(3000);
+    expect(getRetryAfterMs(statusError(429, { "retry-after-ms": "250", "retry-after": "3" }))).toBe(250);
+    expect(getRetryAfterMs(statusError(429, { "retry-after": "Thu, 01 Jan 2026 00:00:05 GMT" }), now)).toBe(5000);
+  });
+
+  it("reads Headers objects and ignores missing or invalid values", () => {
+    expect(getRetryAfterMs(new AnthropicError("Rate limited", 429, new Headers({ "retry-after": "2" })))).toBe(2000);
+    expect(getRetryAfterMs(statusError(429, { "retry-after": "soon" }))).toBeUndefined();
+    expect(getRetryAfterMs(statusError(429))).toBeUndefined();
+  });
+});
+
+describe("computeBackoffDelay", () => {
+  const limits = { baseDelayMs: 1000, maxDelayMs: 5000 };
+
+  it("doubles per attempt up to the cap, with jitter", () => {
+    expect(computeBackoffDelay(0, limits, undefined, () => 1)).toBe(1000);
+    expect(computeBackoffDelay(2, limits, undefined, () => 1)).toBe(4000);
+    expect(computeBackoffDelay(5, limits, undefined, () => 1)).toBe(5000);
+    expect(computeBackoffDelay(1, limits, undefined, () => 0)).toBe(1000);
+  });
+
+  it("uses Retry-After when given", () => {
+    expect(computeBackoffDelay(3, limits, 1500)).toBe(1500);
+  });
+});
+
+describe("streamWithFallback", () => {
+  it("retries transient failures with backoff", async () => {
+    const adapter = scriptedAdapter("a", [() => fail(statusError(503)), () => fail(statusError(429)), () => answer("Hi")]);
+    const retries: number[] = [];
+    const { opts, delays } = options({ onRetry: (e) => retries.push(e.attempt) });
+
+    const chunks = await collect(streamWithFallback([target(adapter)], messages, fakeHttp().http, opts));
+
+    expect(joinText(chunks)).toBe("Hi");
+    expect(delays).toEqual([1000, 2000]);
+    expect(retries).toEqual([1, 2]);
+  });
+
+  it("honours Retry-After", async () => {
+    const adapter = scriptedAdapter("a", [() => fail(statusError(429, { "retry-after": "7" })), () => answer("Hi")]);
+    const { opts, delays } = options();
+
+    await collect(streamWithFallback([target(adapter)], messages, fakeHttp().http, opts));
+    expect(delays).toEqual([7000]);
+  });
+
+  it("falls back to the next target once retries are used up", async () => {
+    const primary = scriptedAdapter("a", [() => fail(statusError(500))]);
+    const fallback = scriptedAdapter("b", [() => answer("From fallback")]);
+    const fallbacks: Array<[number, number]> = [];
+    const { opts } = options({ onFallback: (e) => fallbacks.push([e.from, e.to]) });
+
+    const chunks = await collect(streamWithFallback([target(primary), target(fallback)], messages, fakeHttp().http, opts));
+
+    expect(joinText(chunks)).toBe("From fallback");
+    expect(primary.count()).toBe(3);
+    expect(fallbacks).toEqual([[0, 1]]);
+  });
+
+  it("falls back without retrying non-transient errors or long Retry-After waits", async () => {
+    const unauthorized = scriptedAdapter("a", [() => fail(statusError(401))]);
+    const limited = scriptedAdapter("b", [() => fail(statusError(429, { "retry-after": "3600" }))]);
+    const fallback = scriptedAdapter("c", [() => answer("ok")]);
+    const { opts, delays } = options();
+
+    await collect(streamWithFallback([target(unauthorized), target(limited), target(fallback)], messages, fakeHttp().http, opts));
+
+    expect(unauthorized.count()).toBe(1);
+    expect(limited.count()).toBe(1);
+    expect(delays).toEqual([]);
+  });
+
+  it("sends text-only targets the messages without images", async () => {
+    const image = { path: "a.png", mimeType: "image/png", data: "AAAA", width: 1, height: 1 };
+    const withImage: ChatMessage[] = [{ role: "user", content: "Explain X", images: [image] }];
+    const sent: ChatMessage[][] = [];
+    const recording = (respond: () => AsyncGenerator<ChatStreamChunk>): ProviderAdapter => ({
+      ...openaiProvider,
+      streamChat: (request) => {
+        sent.push(request.messages);
+        return respond();
+      },
+    });
+    const primary = target(recording(() => fail(statusError(401))));
+    const textOnly = { ...target(recording(() => answer("ok"))), textOnly: true };
+    const { opts } = options();
+
+    await collect(streamWithFallback([primary, textOnly], withImage, fakeHttp().http, opts));
+
+    expect(sent[0][0].images).toEqual([image]);
+    expect(sent[1][0].images).toBeUndefined();
+  });
+
+  it("throws the last error when every target fails", async () => {
+    const a = scriptedAdapter("a", [() => fail(statusError(401))]);
+    const b = scriptedAdapter("b", [() => fail(statusError(404))]);
+    const { opts } = options();
+
+    await expect(collect(streamWithFallback([target(a), target(b)], messages, fakeHttp().http, opts)))
+      .rejects.toMatchObject({ status: 404 });
+  });
+
+  it("does not retry once text has been streamed", async () => {
+    const partial = scriptedAdapter("a", [() => failAfter("Half an ans", statusError(503))]);
+    const fallback = scriptedAdapter("b", [() => answer("unused")]);
+    const received: string[] = [];
+    const { opts } = options();
+
+    await expect((async () => {
+      for await (const chunk of streamWithFallback([target(partial), target(fallback)], messages, fakeHttp().http, opts)) {
+        received.push(chunk.text || "");
+      }
+    })()).rejects.toMatchObject({ status: 503 });
+
+    expect(received).toEqual(["Half an ans"]);
+    expect(fallback.count()).toBe(0);
+  });
+
+  it("stops when aborted while waiting", async () => {
+    const controller = new AbortController();
+    const adapter = scriptedAdapter("a", [() => fail(statusError(503)), () => answer("late")]);
+    const fallback = scriptedAdapter("b", [() => answer("unused")]);
+    const { opts } = options({
+      signal: controller.signal,
+      sleep: undefined,
+      onRetry: () => controller.abort(),
+    });
+
+    await expect(collect(streamWithFallback([target(adapter), target(fallback)], messages, fakeHttp().http, opts)))
+      .rejects.toMatchObject({ name: "AbortError" });
+    expect(adapter.count()).toBe(1);
+    expect(fallback.count()).toBe(0);
+  });
+
+  it("retries OpenAI-compatible HTTP errors itself", async () => {
+    const responses = [
+      () => new Response(JSON.stringify({ error: { message: "Slow down" } }), {
+        status: 429,
+        headers: { "content-type": "application/json", "retry-after": "1" },
+      }),
+      () => openAITextStream(["Hello"]),
+    ];
+    let call = 0;
+    const { http, requests } = fakeHttp({ response: () => responses[call++]() });
+    const { opts, delays } = options();
+
+    const chunks = await collect(streamWithFallback(
+      [{ adapter: openaiProvider, settings: makeProfile({ apiKey: "sk" }), model: "gpt-4o" }],
+      messages,
+      http,
+      opts
+    ));
+
+    expect(joinText(chunks)).toBe("Hello");
+    // The SDK's own retries are off, so each attempt is a single request
+    expect(requests).toHaveLength(2);
+    expect(delays).toEqual([1000]);
+  });
+});